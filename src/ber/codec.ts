@@ -0,0 +1,15 @@
+/**
+ * BER/DER codec - the compiled TLV types encode and decode themselves
+ */
+
+import { Asn1Type, Codec, EncodeOptions } from '../types';
+
+export class BerCodec implements Codec {
+  encode(type: Asn1Type, value: any, options?: EncodeOptions): Uint8Array {
+    return type.encode(value, options);
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    return type.decode(data, 0).value;
+  }
+}
@@ -2,52 +2,215 @@
  * Complex ASN.1 type implementations
  */
 
-import { Asn1Type, BER, EncodeError, DecodeError } from '../types';
-import { encodeTag, encodeLength, decodeTag, decodeLength } from './encoding';
-import { BaseType } from './types';
+import { Asn1Type, BER, EncodeOptions, ValueRange, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import { encodeTag, decodeTag, decodeLength, concatBytes, tagKey, formatTag } from './encoding';
+import { AnyType, BaseType } from './types';
 
 /**
- * ASN.1 SEQUENCE type
+ * Compare a member value against its DEFAULT value
+ */
+export function isDefaultValue(value: any, defaultValue: any): boolean {
+  if (typeof value === 'bigint' || typeof defaultValue === 'bigint') {
+    // Loose equality compares bigint and number values numerically
+    return value == defaultValue;
+  }
+  if (value instanceof Date && defaultValue instanceof Date) {
+    return value.getTime() === defaultValue.getTime();
+  }
+  if (value instanceof Uint8Array && defaultValue instanceof Uint8Array) {
+    return value.length === defaultValue.length && value.every((byte, index) => byte === defaultValue[index]);
+  }
+  if (Array.isArray(value) && Array.isArray(defaultValue)) {
+    // Named bits, in any order
+    const names = new Set(defaultValue);
+    return new Set(value).size === names.size && value.every(name => names.has(name));
+  }
+  if (isBitString(value) && isBitString(defaultValue)) {
+    return value.length === defaultValue.length && sameBits(value.data, defaultValue.data, value.length);
+  }
+  if (isPlainObject(value) && isPlainObject(defaultValue)) {
+    // Structured values of the time types, such as { hours: 1 }
+    const keys = Object.keys(defaultValue).filter(key => defaultValue[key] !== undefined);
+    return (
+      Object.keys(value).filter(key => value[key] !== undefined).length === keys.length &&
+      keys.every(key => isDefaultValue(value[key], defaultValue[key]))
+    );
+  }
+  return value === defaultValue;
+}
+
+function isBitString(value: any): value is { data: Uint8Array; length: number } {
+  return isPlainObject(value) && value.data instanceof Uint8Array && typeof value.length === 'number';
+}
+
+/**
+ * Whether the first bits of two bit strings are equal, ignoring unused bits
+ */
+function sameBits(a: Uint8Array, b: Uint8Array, length: number): boolean {
+  for (let bit = 0; bit < length; bit++) {
+    const mask = 0x80 >> (bit & 7);
+    if (((a[bit >> 3] ?? 0) & mask) !== ((b[bit >> 3] ?? 0) & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+export interface SequenceMember {
+  name: string;
+  type: Asn1Type;
+  optional?: boolean;
+  defaultValue?: any;
+  /** Of extension additions, their position, shared by the members of a version group */
+  addition?: number | undefined;
+  /** Of extension additions, whether they are in a version group [[ ]] */
+  group?: boolean | undefined;
+}
+
+/**
+ * The type of a member's value within a SEQUENCE or SET value, which for
+ * ANY DEFINED BY members is the type identified by the governing member
+ * when it is known
+ */
+export function memberType(member: SequenceMember, container: any): Asn1Type {
+  return knownOpenType(member.type, container) ?? member.type;
+}
+
+function knownOpenType(type: Asn1Type, container: any): Asn1Type | undefined {
+  if (type instanceof AnyType) {
+    return type.typeFor(container);
+  }
+  if (type instanceof TaggedType) {
+    const known = knownOpenType(type.type, container);
+    return known && type.retag(known);
+  }
+  return undefined;
+}
+
+/**
+ * Unknown extension additions kept in a decoded value, null where PER or
+ * OER marked an addition absent
+ */
+export function unknownExtensions(kind: string, name: string, value: any): Array<Uint8Array | null> {
+  const unknown = value[UNKNOWN_EXTENSIONS];
+  if (unknown === undefined) {
+    return [];
+  }
+  if (!Array.isArray(unknown) || !unknown.every(item => item === null || item instanceof Uint8Array)) {
+    throw new EncodeError(`${kind} ${name}: expected unknown extensions as an array of Uint8Array encodings`);
+  }
+  return unknown;
+}
+
+/**
+ * Open type for checking and reading the complete encodings of unknown
+ * extension additions
+ */
+function extensionType(type: BaseType): AnyType {
+  const extension = new AnyType(`${type.name} extension`);
+  extension.rules = type.rules;
+  return extension;
+}
+
+/**
+ * ASN.1 SEQUENCE type. Extensible types accept extension additions they
+ * do not know, which are kept in the UNKNOWN_EXTENSIONS property of the
+ * decoded value and sent again when it is encoded.
  */
 export class SequenceType extends BaseType {
-  private members: Array<{
-    name: string;
-    type: Asn1Type;
-    optional?: boolean;
-    defaultValue?: any;
-  }>;
-
-  constructor(name: string, members: Array<{ name: string; type: Asn1Type; optional?: boolean; defaultValue?: any }>) {
+  public readonly members: SequenceMember[];
+  public readonly extensible: boolean;
+  private readonly extensionEnd: number;
+  private additions: Array<SequenceMember | SequenceType> | undefined;
+
+  /**
+   * @param extensionEnd Index of the first root member after the extension
+   * additions, where unknown additions are placed
+   */
+  constructor(name: string, members: SequenceMember[], extensible: boolean = false, extensionEnd?: number) {
     super(name, BER.TAG.SEQUENCE);
     this.constructed = true;
     this.members = members;
+    this.extensible = extensible;
+    this.extensionEnd = extensionEnd ?? members.length;
+  }
+
+  get kind(): string {
+    return 'SEQUENCE';
+  }
+
+  /**
+   * Members in the order their encodings are sent
+   */
+  protected get encodingOrder(): SequenceMember[] {
+    return this.members;
+  }
+
+  /**
+   * Extension additions in order, each a member or a version group, which
+   * PER and OER send as a SEQUENCE of its members
+   */
+  get extensionAdditions(): Array<SequenceMember | SequenceType> {
+    if (!this.additions) {
+      const additions: Array<SequenceMember | SequenceType> = [];
+      for (const member of this.members) {
+        if (member.addition === undefined || additions[member.addition]) {
+          continue;
+        }
+        const group = this.members.filter(candidate => candidate.addition === member.addition);
+        additions[member.addition] = member.group
+          ? new SequenceType(`${this.name} version group`, group.map(({ addition, group, ...rest }) => rest))
+          : member;
+      }
+      this.additions = additions;
+    }
+    return this.additions;
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (!value || typeof value !== 'object') {
-      throw new EncodeError(`SEQUENCE ${this.name}: expected object, got ${typeof value}`);
+      throw new EncodeError(`${this.kind} ${this.name}: expected object, got ${typeof value}`);
     }
 
     const encodedMembers: Uint8Array[] = [];
+    const unknown = unknownExtensions(this.kind, this.name, value)
+      .filter((encoding): encoding is Uint8Array => encoding !== null)
+      .map(encoding => extensionType(this).encode(encoding));
 
-    for (const member of this.members) {
+    this.encodingOrder.forEach((member, index) => {
+      if (index === this.extensionEnd) {
+        encodedMembers.push(...unknown);
+      }
       const memberValue = value[member.name];
 
       if (memberValue === undefined || memberValue === null) {
-        if (member.optional) {
-          continue; // Skip optional members
+        if (member.optional || member.addition !== undefined) {
+          return; // Skip optional members and extension additions
+        }
+        if (member.defaultValue !== undefined && this.canonical) {
+          return; // DER and CER never encode DEFAULT values
         }
         if (member.defaultValue !== undefined) {
           // Use default value
-          const encoded = member.type.encode(member.defaultValue);
+          const encoded = member.type.encode(member.defaultValue, options);
           encodedMembers.push(encoded);
         } else {
-          throw new EncodeError(`SEQUENCE ${this.name}: missing required member '${member.name}'`);
+          throw new EncodeError(`${this.kind} ${this.name}: missing required member '${member.name}'`);
         }
+      } else if (this.canonical && member.defaultValue !== undefined &&
+                 isDefaultValue(memberValue, member.defaultValue)) {
+        return; // DER and CER never encode DEFAULT values
       } else {
-        const encoded = member.type.encode(memberValue);
+        const encoded = memberType(member, value).encode(memberValue, options);
         encodedMembers.push(encoded);
       }
+    });
+    if (this.extensionEnd >= this.encodingOrder.length) {
+      encodedMembers.push(...unknown);
     }
 
     // Concatenate all encoded members
@@ -60,30 +223,36 @@ export class SequenceType extends BaseType {
       offset += encoded.length;
     }
 
-    return this.encodeWithTag(content);
+    return this.encodeWithTag(content, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
     const { content, totalLength } = this.decodeWithTag(data, offset);
     
     const result: any = {};
+    const unknown: Uint8Array[] = [];
     let contentOffset = 0;
     let memberIndex = 0;
 
     while (contentOffset < content.length && memberIndex < this.members.length) {
+      if (memberIndex === this.extensionEnd && this.extensible) {
+        contentOffset += this.decodeUnknownExtensions(content, contentOffset, unknown);
+        if (contentOffset >= content.length) {
+          break;
+        }
+      }
+
       const member = this.members[memberIndex];
       if (!member) {
-        throw new DecodeError(`SEQUENCE ${this.name}: internal error - member at index ${memberIndex} not found`, offset);
+        throw new DecodeError(`${this.kind} ${this.name}: internal error - member at index ${memberIndex} not found`, offset);
       }
       
+      let decoded: { value: any; length: number };
       try {
-        const decoded = member.type.decode(content, contentOffset);
-        result[member.name] = decoded.value;
-        contentOffset += decoded.length;
-        memberIndex++;
+        decoded = memberType(member, result).decode(content, contentOffset);
       } catch (error) {
-        if (member.optional) {
-          // Skip optional member that's not present
+        if (member.optional || member.addition !== undefined) {
+          // Skip optional members and extension additions that are not present
           memberIndex++;
           continue;
         }
@@ -94,20 +263,42 @@ export class SequenceType extends BaseType {
           continue;
         }
         throw new DecodeError(
-          `SEQUENCE ${this.name}: failed to decode member '${member.name}': ${error instanceof Error ? error.message : String(error)}`,
+          `${this.kind} ${this.name}: failed to decode member '${member.name}': ${error instanceof Error ? error.message : String(error)}`,
           offset + contentOffset
         );
       }
+
+      if (this.canonical && member.defaultValue !== undefined &&
+          isDefaultValue(decoded.value, member.defaultValue)) {
+        throw new DecodeError(
+          `${this.kind} ${this.name}: ${this.rules.toUpperCase()} forbids encoding DEFAULT value of member '${member.name}'`,
+          offset + contentOffset
+        );
+      }
+
+      result[member.name] = decoded.value;
+      contentOffset += decoded.length;
+      memberIndex++;
+    }
+
+    if (contentOffset < content.length && this.extensible) {
+      contentOffset += this.decodeUnknownExtensions(content, contentOffset, unknown);
+    }
+    if (contentOffset < content.length) {
+      throw new DecodeError(`${this.kind} ${this.name}: unexpected data after the last member`, offset + contentOffset);
+    }
+    if (unknown.length > 0) {
+      result[UNKNOWN_EXTENSIONS] = unknown;
     }
 
     // Check for missing required members
     while (memberIndex < this.members.length) {
       const member = this.members[memberIndex];
       if (!member) {
-        throw new DecodeError(`SEQUENCE ${this.name}: internal error - member at index ${memberIndex} not found`, offset);
+        throw new DecodeError(`${this.kind} ${this.name}: internal error - member at index ${memberIndex} not found`, offset);
       }
-      if (!member.optional && member.defaultValue === undefined) {
-        throw new DecodeError(`SEQUENCE ${this.name}: missing required member '${member.name}'`, offset);
+      if (!member.optional && member.defaultValue === undefined && member.addition === undefined) {
+        throw new DecodeError(`${this.kind} ${this.name}: missing required member '${member.name}'`, offset);
       }
       if (member.defaultValue !== undefined) {
         result[member.name] = member.defaultValue;
@@ -117,38 +308,77 @@ export class SequenceType extends BaseType {
 
     return { value: result, length: totalLength };
   }
+
+  /**
+   * Read the encodings of unknown extension additions up to the first one
+   * with the tag of a root member after the additions, returning their
+   * total length
+   */
+  private decodeUnknownExtensions(content: Uint8Array, offset: number, unknown: Uint8Array[]): number {
+    const rootTags = new Set(this.members.slice(this.extensionEnd).flatMap(member => outermostTags(member.type)));
+    const extension = extensionType(this);
+    let contentOffset = offset;
+
+    while (contentOffset < content.length) {
+      const { tag, tagClass } = decodeTag(content, contentOffset);
+      if (rootTags.has(tagKey(tagClass, tag))) {
+        break;
+      }
+      const decoded = extension.decode(content, contentOffset);
+      unknown.push(decoded.value);
+      contentOffset += decoded.length;
+    }
+    return contentOffset - offset;
+  }
 }
 
 /**
  * ASN.1 SEQUENCE OF type
  */
 export class SequenceOfType extends BaseType {
-  private elementType: Asn1Type;
+  public readonly elementType: Asn1Type;
+  public readonly size: ValueRange | undefined;
 
-  constructor(name: string, elementType: Asn1Type) {
+  constructor(name: string, elementType: Asn1Type, size?: ValueRange) {
     super(name, BER.TAG.SEQUENCE);
     this.constructed = true;
     this.elementType = elementType;
+    this.size = size;
+  }
+
+  get kind(): string {
+    return 'SEQUENCE OF';
+  }
+
+  /**
+   * Whether element encodings are sent in ascending order
+   */
+  protected get sorted(): boolean {
+    return false;
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (!Array.isArray(value)) {
-      throw new EncodeError(`SEQUENCE OF ${this.name}: expected array, got ${typeof value}`);
+      throw new EncodeError(`${this.kind} ${this.name}: expected array, got ${typeof value}`);
     }
 
     const encodedElements: Uint8Array[] = [];
 
     for (let i = 0; i < value.length; i++) {
       try {
-        const encoded = this.elementType.encode(value[i]);
+        const encoded = this.elementType.encode(value[i], options);
         encodedElements.push(encoded);
       } catch (error) {
         throw new EncodeError(
-          `SEQUENCE OF ${this.name}: failed to encode element ${i}: ${error instanceof Error ? error.message : String(error)}`
+          `${this.kind} ${this.name}: failed to encode element ${i}: ${error instanceof Error ? error.message : String(error)}`
         );
       }
     }
 
+    if (this.sorted) {
+      encodedElements.sort(compareEncodings);
+    }
+
     // Concatenate all encoded elements
     const totalLength = encodedElements.reduce((sum, arr) => sum + arr.length, 0);
     const content = new Uint8Array(totalLength);
@@ -159,7 +389,7 @@ export class SequenceOfType extends BaseType {
       offset += encoded.length;
     }
 
-    return this.encodeWithTag(content);
+    return this.encodeWithTag(content, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: any[]; length: number } {
@@ -167,18 +397,32 @@ export class SequenceOfType extends BaseType {
     
     const result: any[] = [];
     let contentOffset = 0;
+    let previous: Uint8Array | undefined;
 
     while (contentOffset < content.length) {
+      let decoded: { value: any; length: number };
       try {
-        const decoded = this.elementType.decode(content, contentOffset);
-        result.push(decoded.value);
-        contentOffset += decoded.length;
+        decoded = this.elementType.decode(content, contentOffset);
       } catch (error) {
         throw new DecodeError(
-          `SEQUENCE OF ${this.name}: failed to decode element ${result.length}: ${error instanceof Error ? error.message : String(error)}`,
+          `${this.kind} ${this.name}: failed to decode element ${result.length}: ${error instanceof Error ? error.message : String(error)}`,
           offset + contentOffset
         );
       }
+
+      if (this.sorted) {
+        const encoding = content.subarray(contentOffset, contentOffset + decoded.length);
+        if (previous && compareEncodings(previous, encoding) > 0) {
+          throw new DecodeError(
+            `${this.kind} ${this.name}: ${this.rules.toUpperCase()} requires elements in ascending order`,
+            offset + contentOffset
+          );
+        }
+        previous = encoding;
+      }
+
+      result.push(decoded.value);
+      contentOffset += decoded.length;
     }
 
     return { value: result, length: totalLength };
@@ -186,31 +430,236 @@ export class SequenceOfType extends BaseType {
 }
 
 /**
- * ASN.1 CHOICE type
+ * ASN.1 SET type. Members are sent in the canonical order of their tags,
+ * which DER and CER require (X.690 10.3), and accepted in any order in BER.
+ * Unknown extension additions are sent after the known members.
  */
-export class ChoiceType extends BaseType {
-  private choices: Map<string, { type: Asn1Type; tag?: number }>;
-  private tagToChoice: Map<number, string>;
+export class SetType extends SequenceType {
+  private ordered: SequenceMember[] | undefined;
+  private tagMap: Map<number, SequenceMember> | undefined;
+
+  constructor(name: string, members: SequenceMember[], extensible: boolean = false) {
+    super(name, members, extensible);
+    this.tag = BER.TAG.SET;
+  }
+
+  get kind(): string {
+    return 'SET';
+  }
+
+  /**
+   * Members in the canonical order of their tags, in which an untagged
+   * CHOICE takes the smallest tag of its alternatives. Built on first use,
+   * like the tags of CHOICE alternatives.
+   */
+  get canonicalMembers(): SequenceMember[] {
+    if (!this.ordered) {
+      const smallestTag = (member: SequenceMember) => Math.min(...outermostTags(member.type));
+      this.ordered = [...this.members].sort((a, b) => smallestTag(a) - smallestTag(b));
+    }
+    return this.ordered;
+  }
+
+  protected get encodingOrder(): SequenceMember[] {
+    return this.canonicalMembers;
+  }
+
+  private get tagToMember(): Map<number, SequenceMember> {
+    if (!this.tagMap) {
+      this.tagMap = new Map();
+      for (const member of this.members) {
+        for (const key of outermostTags(member.type)) {
+          this.tagMap.set(key, member);
+        }
+      }
+    }
+    return this.tagMap;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
+    const { content, totalLength } = this.decodeWithTag(data, offset);
+
+    const values = new Map<SequenceMember, any>();
+    const decodedValues: any = {};
+    const decodedTypes = new Map<SequenceMember, { type: Asn1Type; offset: number }>();
+    const unknown: Uint8Array[] = [];
+    let contentOffset = 0;
+    let previousIndex = -1;
+
+    while (contentOffset < content.length) {
+      const { tag, tagClass } = decodeTag(content, contentOffset);
+      const key = tagKey(tagClass, tag);
+      const member = this.tagToMember.get(key);
+      if (!member && this.extensible) {
+        const decoded = extensionType(this).decode(content, contentOffset);
+        unknown.push(decoded.value);
+        contentOffset += decoded.length;
+        continue;
+      }
+      if (!member) {
+        throw new DecodeError(`SET ${this.name}: unexpected tag ${formatTag(key)}`, offset + contentOffset);
+      }
+      if (values.has(member)) {
+        throw new DecodeError(`SET ${this.name}: duplicate member '${member.name}'`, offset + contentOffset);
+      }
+
+      if (this.canonical) {
+        const index = this.canonicalMembers.indexOf(member);
+        if (index < previousIndex) {
+          throw new DecodeError(
+            `SET ${this.name}: ${this.rules.toUpperCase()} requires members in canonical tag order`,
+            offset + contentOffset
+          );
+        }
+        previousIndex = index;
+      }
+
+      const type = memberType(member, decodedValues);
+      const decoded = this.decodeMember(member, type, content, contentOffset, offset);
+
+      if (this.canonical && member.defaultValue !== undefined && isDefaultValue(decoded.value, member.defaultValue)) {
+        throw new DecodeError(
+          `SET ${this.name}: ${this.rules.toUpperCase()} forbids encoding DEFAULT value of member '${member.name}'`,
+          offset + contentOffset
+        );
+      }
 
-  constructor(name: string, choices: Array<{ name: string; type: Asn1Type; tag?: number }>) {
+      values.set(member, decoded.value);
+      decodedValues[member.name] = decoded.value;
+      decodedTypes.set(member, { type, offset: contentOffset });
+      contentOffset += decoded.length;
+    }
+
+    // Members may come before the members governing their open types
+    for (const [member, { type, offset: memberOffset }] of decodedTypes) {
+      const known = memberType(member, decodedValues);
+      if (known !== type) {
+        values.set(member, this.decodeMember(member, known, content, memberOffset, offset).value);
+      }
+    }
+
+    const result: any = {};
+    for (const member of this.members) {
+      if (values.has(member)) {
+        result[member.name] = values.get(member);
+      } else if (member.defaultValue !== undefined) {
+        result[member.name] = member.defaultValue;
+      } else if (!member.optional && member.addition === undefined) {
+        throw new DecodeError(`SET ${this.name}: missing required member '${member.name}'`, offset);
+      }
+    }
+    if (unknown.length > 0) {
+      result[UNKNOWN_EXTENSIONS] = unknown;
+    }
+
+    return { value: result, length: totalLength };
+  }
+
+  private decodeMember(
+    member: SequenceMember,
+    type: Asn1Type,
+    content: Uint8Array,
+    contentOffset: number,
+    offset: number
+  ): { value: any; length: number } {
+    try {
+      return type.decode(content, contentOffset);
+    } catch (error) {
+      throw new DecodeError(
+        `SET ${this.name}: failed to decode member '${member.name}': ${error instanceof Error ? error.message : String(error)}`,
+        offset + contentOffset
+      );
+    }
+  }
+}
+
+/**
+ * ASN.1 SET OF type. DER and CER send the element encodings in ascending
+ * order (X.690 11.6).
+ */
+export class SetOfType extends SequenceOfType {
+  constructor(name: string, elementType: Asn1Type, size?: ValueRange) {
+    super(name, elementType, size);
+    this.tag = BER.TAG.SET;
+  }
+
+  get kind(): string {
+    return 'SET OF';
+  }
+
+  protected get sorted(): boolean {
+    return this.canonical;
+  }
+}
+
+/**
+ * Order of encodings as octet strings, the shorter padded with zero octets
+ */
+function compareEncodings(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Keys of the tags an encoding of a type may start with: the tags of the
+ * alternatives of an untagged CHOICE, otherwise the tag of the type
+ */
+export function outermostTags(type: Asn1Type): number[] {
+  if (type instanceof ReferenceType) {
+    return outermostTags(type.type);
+  }
+  if (type instanceof ChoiceType) {
+    return Array.from(type.choices.values()).flatMap(choice => outermostTags(choice.type));
+  }
+  return [tagKey(type.tagClass, type.tag)];
+}
+
+/**
+ * ASN.1 CHOICE type. Extensible types decode alternatives they do not know
+ * to { [UNKNOWN_EXTENSIONS]: encoding }, which encodes to the same octets.
+ */
+export class ChoiceType extends BaseType {
+  public readonly choices: Map<string, { type: Asn1Type; addition?: number | undefined }>;
+  public readonly extensible: boolean;
+  private tagMap: Map<number, string> | undefined;
+
+  constructor(
+    name: string,
+    choices: Array<{ name: string; type: Asn1Type; addition?: number | undefined }>,
+    extensible: boolean = false
+  ) {
     super(name, BER.TAG.CHOICE); // Special marker tag
     this.choices = new Map();
-    this.tagToChoice = new Map();
+    this.extensible = extensible;
 
     for (const choice of choices) {
-      const choiceObj: any = { type: choice.type };
-      if (choice.tag !== undefined) {
-        choiceObj.tag = choice.tag;
+      this.choices.set(choice.name, { type: choice.type, addition: choice.addition });
+    }
+  }
+
+  /**
+   * Choice names by tag key for decoding, under every tag of an untagged
+   * CHOICE alternative. Built on first use because a recursive alternative
+   * only has its tag once the compiler resolves it.
+   */
+  private get tagToChoice(): Map<number, string> {
+    if (!this.tagMap) {
+      this.tagMap = new Map();
+      for (const [choiceName, choice] of this.choices) {
+        for (const key of outermostTags(choice.type)) {
+          this.tagMap.set(key, choiceName);
+        }
       }
-      this.choices.set(choice.name, choiceObj);
-      
-      // Map tag to choice name for decoding
-      const choiceTag = choice.tag ?? choice.type.tag;
-      this.tagToChoice.set(choiceTag, choice.name);
     }
+    return this.tagMap;
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (!value || typeof value !== 'object') {
       throw new EncodeError(`CHOICE ${this.name}: expected object with single property, got ${typeof value}`);
     }
@@ -227,33 +676,15 @@ export class ChoiceType extends BaseType {
     const choiceValue = value[choiceName];
     const choice = this.choices.get(choiceName);
 
+    if (choiceName === UNKNOWN_EXTENSIONS && this.extensible) {
+      return extensionType(this).encode(choiceValue);
+    }
     if (!choice) {
       throw new EncodeError(`CHOICE ${this.name}: unknown choice '${choiceName}'`);
     }
 
     // For CHOICE, we encode the selected alternative directly
-    // If there's a context-specific tag, apply it
-    if (choice.tag !== undefined) {
-      // Apply context-specific tag
-      const innerEncoded = choice.type.encode(choiceValue);
-      const tagBytes = encodeTag(choice.tag, BER.CLASS.CONTEXT_SPECIFIC | BER.ENCODING.CONSTRUCTED);
-      const lengthBytes = encodeLength(innerEncoded.length);
-      
-      const result = new Uint8Array(tagBytes.length + lengthBytes.length + innerEncoded.length);
-      let offset = 0;
-      
-      result.set(tagBytes, offset);
-      offset += tagBytes.length;
-      
-      result.set(lengthBytes, offset);
-      offset += lengthBytes.length;
-      
-      result.set(innerEncoded, offset);
-      
-      return result;
-    } else {
-      return choice.type.encode(choiceValue);
-    }
+    return choice.type.encode(choiceValue, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
@@ -263,10 +694,15 @@ export class ChoiceType extends BaseType {
 
     // Peek at the tag to determine which choice to decode
     const tagInfo = decodeTag(data, offset);
-    const choiceName = this.tagToChoice.get(tagInfo.tag);
+    const key = tagKey(tagInfo.tagClass, tagInfo.tag);
+    const choiceName = this.tagToChoice.get(key);
 
+    if (!choiceName && this.extensible) {
+      const decoded = extensionType(this).decode(data, offset);
+      return { value: { [UNKNOWN_EXTENSIONS]: decoded.value }, length: decoded.length };
+    }
     if (!choiceName) {
-      throw new DecodeError(`CHOICE ${this.name}: no choice found for tag ${tagInfo.tag}`, offset);
+      throw new DecodeError(`CHOICE ${this.name}: no choice found for tag ${formatTag(key)}`, offset);
     }
 
     const choice = this.choices.get(choiceName);
@@ -275,38 +711,143 @@ export class ChoiceType extends BaseType {
     }
 
     // Decode using the appropriate choice type
-    if (choice.tag !== undefined) {
-      // Handle context-specific tagged choice
-      const lengthInfo = decodeLength(data, offset + tagInfo.length);
-      const contentStart = offset + tagInfo.length + lengthInfo.octets;
-      const contentEnd = contentStart + lengthInfo.length;
-      
-      if (contentEnd > data.length) {
-        throw new DecodeError(`CHOICE ${this.name}: not enough data for choice content`, offset);
-      }
-      
-      const contentData = data.slice(contentStart, contentEnd);
-      const decoded = choice.type.decode(contentData, 0);
-      
-      return {
-        value: { [choiceName]: decoded.value },
-        length: tagInfo.length + lengthInfo.octets + lengthInfo.length
-      };
-    } else {
-      const decoded = choice.type.decode(data, offset);
-      return {
-        value: { [choiceName]: decoded.value },
-        length: decoded.length
-      };
-    }
+    const decoded = choice.type.decode(data, offset);
+    return {
+      value: { [choiceName]: decoded.value },
+      length: decoded.length
+    };
   }
 
   // Override the base class method since CHOICE doesn't have a fixed tag
-  protected decodeWithTag(_data: Uint8Array, _offset: number = 0): { content: Uint8Array; totalLength: number } {
+  protected decodeWithTag(
+    _data: Uint8Array,
+    _offset: number = 0
+  ): { content: Uint8Array; totalLength: number; constructed: boolean } {
     throw new Error('CHOICE type should not use decodeWithTag - use decode directly');
   }
 
-  protected encodeWithTag(_content: Uint8Array): Uint8Array {
+  protected encodeWithTag(_content: Uint8Array, _options?: EncodeOptions): Uint8Array {
     throw new Error('CHOICE type should not use encodeWithTag - use encode directly');
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Reference to a type assignment that was still being compiled when it was
+ * referred to, as in recursive types. The compiler resolves it once the
+ * assignment is complete, after which it takes the referenced type's name
+ * and tag.
+ */
+export class ReferenceType extends BaseType {
+  private referenced: Asn1Type | undefined;
+
+  constructor(name: string) {
+    super(name, 0);
+  }
+
+  get type(): Asn1Type {
+    if (!this.referenced) {
+      throw new Error(`Reference to ${this.name} is not resolved`);
+    }
+    return this.referenced;
+  }
+
+  resolve(type: Asn1Type): void {
+    this.referenced = type;
+    this.name = type.name;
+    this.tag = type.tag;
+    this.tagClass = type.tagClass;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.type.encode(value, options);
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
+    return this.type.decode(data, offset);
+  }
+}
+
+/**
+ * Type with a tag of its own, as in [APPLICATION 5] IMPLICIT INTEGER. An
+ * explicit tag wraps the encoding of the type in a constructed encoding;
+ * an implicit tag replaces its identifier. Tags of untagged CHOICE and open
+ * types are always explicit.
+ */
+export class TaggedType extends BaseType {
+  public readonly type: Asn1Type;
+  private readonly implicitTagging: boolean;
+  private retagged: Map<Asn1Type, TaggedType> = new Map();
+
+  constructor(name: string, type: Asn1Type, tag: number, tagClass: number, implicit: boolean) {
+    super(name, tag);
+    this.tagClass = tagClass;
+    this.constructed = true;
+    this.type = type;
+    this.implicitTagging = implicit;
+  }
+
+  /**
+   * Whether the tag replaces that of the type, decided on use because a
+   * recursive type is only known once the compiler resolves it
+   */
+  get implicit(): boolean {
+    let type = this.type;
+    while (type instanceof ReferenceType) {
+      type = type.type;
+    }
+    return this.implicitTagging && !(type instanceof ChoiceType) && !(type instanceof AnyType);
+  }
+
+  /**
+   * This tag on another type, the known type of a tagged open type
+   */
+  retag(type: Asn1Type): TaggedType {
+    let tagged = this.retagged.get(type);
+    if (!tagged) {
+      tagged = new TaggedType(this.name, type, this.tag, this.tagClass, this.implicitTagging);
+      tagged.rules = this.rules;
+      this.retagged.set(type, tagged);
+    }
+    return tagged;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    const encoded = this.type.encode(value, options);
+    if (!this.implicit) {
+      return this.encodeWithTag(encoded, options);
+    }
+
+    const { length, constructed } = decodeTag(encoded, 0);
+    return concatBytes([this.identifier(this, constructed), encoded.subarray(length)]);
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
+    if (!this.implicit) {
+      const { content, totalLength } = this.decodeWithTag(data, offset);
+      const decoded = this.type.decode(content, 0);
+      if (decoded.length !== content.length) {
+        throw new DecodeError(`${this.name}: unexpected data after the tagged value`, offset);
+      }
+      return { value: decoded.value, length: totalLength };
+    }
+
+    if (offset >= data.length) {
+      throw new DecodeError(`Unexpected end of data while decoding ${this.name}`, offset);
+    }
+    const tagInfo = decodeTag(data, offset);
+    this.expectTag(tagInfo, offset);
+
+    // Decode the type from its encoding with the identifier it replaced
+    const lengthInfo = decodeLength(data, offset + tagInfo.length, this.rules !== 'der');
+    const end = offset + tagInfo.length + lengthInfo.octets + lengthInfo.length + (lengthInfo.indefinite ? 2 : 0);
+    if (end > data.length) {
+      throw new DecodeError(`Not enough data for ${this.name}: expected ${lengthInfo.length} bytes`, offset);
+    }
+    const identifier = this.identifier(this.type, tagInfo.constructed);
+    const decoded = this.type.decode(concatBytes([identifier, data.subarray(offset + tagInfo.length, end)]), 0);
+    return { value: decoded.value, length: decoded.length - identifier.length + tagInfo.length };
+  }
+
+  private identifier(type: Asn1Type, constructed: boolean): Uint8Array {
+    return encodeTag(type.tag, type.tagClass | (constructed ? BER.ENCODING.CONSTRUCTED : BER.ENCODING.PRIMITIVE));
+  }
+}
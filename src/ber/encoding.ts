@@ -2,7 +2,7 @@
  * BER (Basic Encoding Rules) encoding utilities
  */
 
-import { EncodeError, DecodeError } from '../types';
+import { BER, EncodeError, DecodeError } from '../types';
 
 /**
  * Encode a BER tag
@@ -34,14 +34,15 @@ export function encodeTag(tagNumber: number, flags: number = 0): Uint8Array {
 }
 
 /**
- * Encode BER length (definite form)
+ * Encode BER length (definite form). With minOctets, the long form is used
+ * with at least that many length octets, padded with leading zeros.
  */
-export function encodeLength(length: number): Uint8Array {
+export function encodeLength(length: number, minOctets: number = 0): Uint8Array {
   if (length < 0) {
     throw new EncodeError('Length cannot be negative');
   }
   
-  if (length <= 127) {
+  if (length <= 127 && minOctets === 0) {
     // Short form
     return new Uint8Array([length]);
   }
@@ -50,12 +51,13 @@ export function encodeLength(length: number): Uint8Array {
   const bytes: number[] = [];
   let temp = length;
   
-  while (temp > 0) {
+  while (temp > 0 || bytes.length < minOctets) {
     bytes.unshift(temp & 0xff);
     temp >>= 8;
   }
   
-  if (bytes.length > 127) {
+  // The initial octet 0xff is reserved
+  if (bytes.length > 126) {
     throw new EncodeError('Length too large for BER encoding');
   }
   
@@ -65,7 +67,10 @@ export function encodeLength(length: number): Uint8Array {
 /**
  * Decode BER tag
  */
-export function decodeTag(data: Uint8Array, offset: number = 0): { tag: number; length: number; constructed: boolean } {
+export function decodeTag(
+  data: Uint8Array,
+  offset: number = 0
+): { tag: number; tagClass: number; length: number; constructed: boolean } {
   if (offset >= data.length) {
     throw new DecodeError('Unexpected end of data while reading tag', offset);
   }
@@ -76,6 +81,7 @@ export function decodeTag(data: Uint8Array, offset: number = 0): { tag: number;
   }
   
   const constructed = (firstByte & 0x20) !== 0;
+  const tagClass = firstByte & 0xc0;
   let tagNumber: number;
   let length: number;
   
@@ -111,13 +117,45 @@ export function decodeTag(data: Uint8Array, offset: number = 0): { tag: number;
     }
   }
   
-  return { tag: tagNumber, length, constructed };
+  return { tag: tagNumber, tagClass, length, constructed };
+}
+
+/**
+ * Key identifying a tag by both its class and number. Keys sort in the
+ * canonical order of tags, by class and then by number.
+ */
+export function tagKey(tagClass: number, tagNumber: number): number {
+  return tagClass * 0x100000000 + tagNumber;
 }
 
 /**
- * Decode BER length
+ * Tag of a key in ASN.1 notation, such as [APPLICATION 5] or [0]. Universal
+ * tags are given by their number alone.
  */
-export function decodeLength(data: Uint8Array, offset: number): { length: number; octets: number } {
+export function formatTag(key: number): string {
+  const tagClass = Math.floor(key / 0x100000000);
+  const tagNumber = key % 0x100000000;
+  switch (tagClass) {
+    case BER.CLASS.UNIVERSAL:
+      return String(tagNumber);
+    case BER.CLASS.APPLICATION:
+      return `[APPLICATION ${tagNumber}]`;
+    case BER.CLASS.PRIVATE:
+      return `[PRIVATE ${tagNumber}]`;
+    default:
+      return `[${tagNumber}]`;
+  }
+}
+
+/**
+ * Decode BER length. When the indefinite form is allowed, the returned
+ * length is that of the contents up to the end-of-contents octets.
+ */
+export function decodeLength(
+  data: Uint8Array,
+  offset: number,
+  allowIndefinite: boolean = false
+): { length: number; octets: number; indefinite: boolean } {
   if (offset >= data.length) {
     throw new DecodeError('Unexpected end of data while reading length', offset);
   }
@@ -129,14 +167,17 @@ export function decodeLength(data: Uint8Array, offset: number): { length: number
   
   if ((firstByte & 0x80) === 0) {
     // Short form
-    return { length: firstByte, octets: 1 };
+    return { length: firstByte, octets: 1, indefinite: false };
   }
   
   // Long form
   const lengthOctets = firstByte & 0x7f;
   
   if (lengthOctets === 0) {
-    throw new DecodeError('Indefinite length not supported in this context', offset);
+    if (!allowIndefinite) {
+      throw new DecodeError('Indefinite length not supported in this context', offset);
+    }
+    return { length: indefiniteContentLength(data, offset + 1), octets: 1, indefinite: true };
   }
   
   if (lengthOctets > 4) {
@@ -156,7 +197,43 @@ export function decodeLength(data: Uint8Array, offset: number): { length: number
     length = (length << 8) | byte;
   }
   
-  return { length, octets: lengthOctets + 1 };
+  return { length, octets: lengthOctets + 1, indefinite: false };
+}
+
+/**
+ * Length of indefinite-length contents starting at offset, excluding the
+ * end-of-contents octets. Nested indefinite-length encodings are skipped.
+ */
+export function indefiniteContentLength(data: Uint8Array, offset: number): number {
+  let position = offset;
+
+  while (true) {
+    if (position + 2 > data.length) {
+      throw new DecodeError('Missing end-of-contents octets', offset);
+    }
+    if (data[position] === 0x00 && data[position + 1] === 0x00) {
+      return position - offset;
+    }
+
+    const tagInfo = decodeTag(data, position);
+    const lengthInfo = decodeLength(data, position + tagInfo.length, true);
+    if (lengthInfo.indefinite && !tagInfo.constructed) {
+      throw new DecodeError('Indefinite length requires a constructed encoding', position);
+    }
+    position += tagInfo.length + lengthInfo.octets + lengthInfo.length + (lengthInfo.indefinite ? 2 : 0);
+  }
+}
+
+/**
+ * End-of-contents octets closing an indefinite-length encoding
+ */
+export const END_OF_CONTENTS = new Uint8Array([0x00, 0x00]);
+
+/**
+ * Check that a decoded length used the fewest possible length octets (DER)
+ */
+export function isMinimalLength(length: number, octets: number): boolean {
+  return encodeLength(length).length === octets;
 }
 
 /**
@@ -190,14 +267,9 @@ export function encodeSignedInteger(value: number | bigint): Uint8Array {
   
   // Adjust for sign bit
   if (negative) {
-    // Two's complement
-    let carry = 1;
-    for (let i = bytes.length - 1; i >= 0; i--) {
-      const byte = bytes[i];
-      if (byte !== undefined) {
-        bytes[i] = (~byte + carry) & 0xff;
-        carry = bytes[i]! > 0xff ? 1 : 0;
-      }
+    // Two's complement of value is the bitwise inverse of -value - 1
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = ~bytes[i]! & 0xff;
     }
     
     // Ensure sign bit is set
@@ -233,27 +305,9 @@ export function decodeSignedInteger(data: Uint8Array): bigint {
   let result = 0n;
   
   if (negative) {
-    // Two's complement decoding
-    let borrow = 1;
-    const bytes = Array.from(data);
-    
-    // Subtract 1 and invert
-    for (let i = bytes.length - 1; i >= 0; i--) {
-      const byte = bytes[i];
-      if (byte !== undefined) {
-        bytes[i] = byte - borrow;
-        if (bytes[i]! < 0) {
-          bytes[i] = bytes[i]! + 256;
-          borrow = 1;
-        } else {
-          borrow = 0;
-        }
-        bytes[i] = (~bytes[i]!) & 0xff;
-      }
-    }
-    
-    for (const byte of bytes) {
-      result = (result << 8n) | BigInt(byte);
+    // Two's complement decoding: the inverted bits hold -value - 1
+    for (const byte of data) {
+      result = (result << 8n) | BigInt(~byte & 0xff);
     }
     
     return -result - 1n;
@@ -267,6 +321,26 @@ export function decodeSignedInteger(data: Uint8Array): bigint {
   }
 }
 
+/**
+ * Check that two's complement content has no redundant leading octet (DER)
+ */
+export function isMinimalSignedInteger(data: Uint8Array): boolean {
+  if (data.length < 2) {
+    return true;
+  }
+
+  const first = data[0]!;
+  const secondHighBit = data[1]! & 0x80;
+
+  if (first === 0x00 && secondHighBit === 0) {
+    return false;
+  }
+  if (first === 0xff && secondHighBit !== 0) {
+    return false;
+  }
+  return true;
+}
+
 /**
  * Convert number to safe JavaScript number if possible, otherwise keep as bigint
  */
@@ -275,4 +349,60 @@ export function toSafeNumber(value: bigint): number | bigint {
     return Number(value);
   }
   return value;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Encode OBJECT IDENTIFIER subidentifiers, each in base 128 with the high
+ * bit set on all but its last octet (X.690 8.19.2)
+ */
+export function encodeSubidentifiers(subidentifiers: bigint[]): Uint8Array {
+  const bytes: number[] = [];
+  for (const subidentifier of subidentifiers) {
+    const septets = [Number(subidentifier & 0x7fn)];
+    for (let rest = subidentifier >> 7n; rest > 0n; rest >>= 7n) {
+      septets.unshift(Number(rest & 0x7fn) | 0x80);
+    }
+    bytes.push(...septets);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode OBJECT IDENTIFIER subidentifiers, rejecting padded or truncated ones
+ */
+export function decodeSubidentifiers(data: Uint8Array, offset: number = 0): bigint[] {
+  const subidentifiers: bigint[] = [];
+  let value = 0n;
+  let start = true;
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i]!;
+    if (start && byte === 0x80) {
+      throw new DecodeError('Subidentifier has a leading 0x80 octet', offset + i);
+    }
+    value = (value << 7n) | BigInt(byte & 0x7f);
+    start = (byte & 0x80) === 0;
+    if (start) {
+      subidentifiers.push(value);
+      value = 0n;
+    }
+  }
+
+  if (!start) {
+    throw new DecodeError('Truncated subidentifier', offset + data.length);
+  }
+  return subidentifiers;
+}
@@ -2,23 +2,49 @@
  * ASN.1 type implementations using BER encoding
  */
 
-import { Asn1Type, BER, EncodeError, DecodeError } from '../types';
+import {
+  Asn1Type,
+  BER,
+  BitString,
+  Duration,
+  EncodeOptions,
+  EncodingRules,
+  ValueRange,
+  EncodeError,
+  DecodeError,
+  UNKNOWN_EXTENSIONS
+} from '../types';
 import { 
   encodeTag, 
   encodeLength, 
   decodeTag, 
   decodeLength, 
   encodeSignedInteger, 
+  END_OF_CONTENTS,
+  concatBytes,
   decodeSignedInteger,
+  isMinimalLength,
+  isMinimalSignedInteger,
+  encodeSubidentifiers,
+  decodeSubidentifiers,
+  tagKey,
+  formatTag,
   toSafeNumber 
 } from './encoding';
 
+/**
+ * Largest string segment in CER (X.690 9.2)
+ */
+const CER_SEGMENT_SIZE = 1000;
+
 /**
  * Base class for all ASN.1 types
  */
 export abstract class BaseType implements Asn1Type {
   public name: string;
   public tag: number;
+  public tagClass: number = BER.CLASS.UNIVERSAL;
+  public rules: EncodingRules = 'ber';
   protected constructed: boolean = false;
 
   constructor(name: string, tag: number) {
@@ -26,28 +52,31 @@ export abstract class BaseType implements Asn1Type {
     this.tag = tag;
   }
 
-  abstract encode(value: any): Uint8Array;
+  abstract encode(value: any, options?: EncodeOptions): Uint8Array;
   abstract decode(data: Uint8Array, offset?: number): { value: any; length: number };
 
-  protected encodeWithTag(content: Uint8Array): Uint8Array {
-    const tagBytes = encodeTag(this.tag, this.constructed ? BER.ENCODING.CONSTRUCTED : BER.ENCODING.PRIMITIVE);
-    const lengthBytes = encodeLength(content.length);
-    
-    const result = new Uint8Array(tagBytes.length + lengthBytes.length + content.length);
-    let offset = 0;
-    
-    result.set(tagBytes, offset);
-    offset += tagBytes.length;
-    
-    result.set(lengthBytes, offset);
-    offset += lengthBytes.length;
-    
-    result.set(content, offset);
-    
-    return result;
+  /**
+   * Whether canonical (DER or CER) restrictions apply
+   */
+  protected get canonical(): boolean {
+    return this.rules !== 'ber';
+  }
+
+  protected encodeWithTag(content: Uint8Array, options: EncodeOptions = {}): Uint8Array {
+    return encodeTlv(
+      encodeTag(this.tag, this.tagClass | (this.constructed ? BER.ENCODING.CONSTRUCTED : BER.ENCODING.PRIMITIVE)),
+      content,
+      this.constructed,
+      this.rules,
+      options
+    );
   }
 
-  protected decodeWithTag(data: Uint8Array, offset: number = 0): { content: Uint8Array; totalLength: number } {
+  protected decodeWithTag(
+    data: Uint8Array,
+    offset: number = 0,
+    tag: number = this.tag
+  ): { content: Uint8Array; totalLength: number; constructed: boolean } {
     if (offset >= data.length) {
       throw new DecodeError(`Unexpected end of data while decoding ${this.name}`, offset);
     }
@@ -55,15 +84,33 @@ export abstract class BaseType implements Asn1Type {
     const tagInfo = decodeTag(data, offset);
     let currentOffset = offset + tagInfo.length;
 
-    // Verify tag matches expected
-    if (tagInfo.tag !== this.tag) {
-      throw new DecodeError(
-        `Expected tag ${this.tag} for ${this.name}, got ${tagInfo.tag}`,
-        offset
-      );
+    this.expectTag(tagInfo, offset, tag);
+
+    // Indefinite lengths are valid in BER and CER, and only for constructed encodings
+    const lengthInfo = decodeLength(data, currentOffset, this.rules !== 'der');
+    if (lengthInfo.indefinite && !tagInfo.constructed) {
+      throw new DecodeError(`${this.name}: indefinite length requires a constructed encoding`, currentOffset);
+    }
+
+    if (this.canonical) {
+      const segmented = this.rules === 'cer' && this.segmentable && tagInfo.constructed;
+      if (tagInfo.constructed !== this.constructed && !segmented) {
+        throw new DecodeError(
+          `${this.name}: ${this.rules.toUpperCase()} requires ${this.constructed ? 'constructed' : 'primitive'} encoding`,
+          offset
+        );
+      }
+      if (this.rules === 'cer' && tagInfo.constructed !== lengthInfo.indefinite) {
+        throw new DecodeError(
+          `${this.name}: CER requires ${tagInfo.constructed ? 'indefinite' : 'definite'} length encoding`,
+          currentOffset
+        );
+      }
+      if (!lengthInfo.indefinite && !isMinimalLength(lengthInfo.length, lengthInfo.octets)) {
+        throw new DecodeError(`${this.name}: ${this.rules.toUpperCase()} requires minimal length encoding`, currentOffset);
+      }
     }
 
-    const lengthInfo = decodeLength(data, currentOffset);
     currentOffset += lengthInfo.octets;
 
     if (currentOffset + lengthInfo.length > data.length) {
@@ -76,26 +123,182 @@ export abstract class BaseType implements Asn1Type {
     const content = data.slice(currentOffset, currentOffset + lengthInfo.length);
     return {
       content,
-      totalLength: tagInfo.length + lengthInfo.octets + lengthInfo.length
+      totalLength: tagInfo.length + lengthInfo.octets + lengthInfo.length + (lengthInfo.indefinite ? 2 : 0),
+      constructed: tagInfo.constructed
     };
   }
+
+  /**
+   * Check that a decoded tag is the tag of this type, class included
+   */
+  protected expectTag(tagInfo: { tag: number; tagClass: number }, offset: number, tag: number = this.tag): void {
+    if (tagInfo.tag !== tag || tagInfo.tagClass !== this.tagClass) {
+      throw new DecodeError(
+        `Expected tag ${formatTag(tagKey(this.tagClass, tag))} for ${this.name}, ` +
+          `got ${formatTag(tagKey(tagInfo.tagClass, tagInfo.tag))}`,
+        offset
+      );
+    }
+  }
+
+  /**
+   * Whether values of this string type may be sent as constructed segments
+   */
+  protected get segmentable(): boolean {
+    return false;
+  }
+
+  /**
+   * Tag of the segments of a constructed encoding
+   */
+  protected get segmentTag(): number {
+    return this.tag;
+  }
+
+  /**
+   * Encode string contents, as a constructed series of 1000-octet primitive
+   * segments when CER requires it
+   */
+  protected encodeStringWithTag(content: Uint8Array, options: EncodeOptions = {}): Uint8Array {
+    let segmentSize: number;
+    if (this.rules === 'cer' && content.length > CER_SEGMENT_SIZE) {
+      segmentSize = CER_SEGMENT_SIZE;
+    } else if (options.segmentSize !== undefined) {
+      if (!Number.isInteger(options.segmentSize) || options.segmentSize < 1) {
+        throw new EncodeError(`${this.name}: segment size must be a positive integer`);
+      }
+      segmentSize = options.segmentSize;
+    } else {
+      return this.encodeWithTag(content, options);
+    }
+
+    const segmentIdentifier = encodeTag(this.segmentTag, this.tagClass | BER.ENCODING.PRIMITIVE);
+    const segments = this.splitSegments(content, segmentSize).map(segment =>
+      encodeTlv(segmentIdentifier, segment, false, this.rules, options)
+    );
+    return encodeTlv(encodeTag(this.tag, BER.ENCODING.CONSTRUCTED), concatBytes(segments), true, this.rules, options);
+  }
+
+  /**
+   * Decode string contents, reassembling a constructed encoding from its
+   * segments (X.690 8.7.3). BER segments may themselves be constructed.
+   */
+  protected decodeStringWithTag(data: Uint8Array, offset: number = 0): { content: Uint8Array; totalLength: number } {
+    const { content, totalLength, constructed } = this.decodeWithTag(data, offset);
+
+    if (!constructed) {
+      if (this.rules === 'cer' && content.length > CER_SEGMENT_SIZE) {
+        throw new DecodeError(`${this.name}: CER requires segments above ${CER_SEGMENT_SIZE} octets`, offset);
+      }
+      return { content, totalLength };
+    }
+
+    const joined = this.joinSegments(content, offset);
+    if (this.rules === 'cer' && joined.length <= CER_SEGMENT_SIZE) {
+      throw new DecodeError(`${this.name}: CER requires primitive encoding up to ${CER_SEGMENT_SIZE} octets`, offset);
+    }
+    return { content: joined, totalLength };
+  }
+
+  private joinSegments(content: Uint8Array, offset: number): Uint8Array {
+    const segments: Uint8Array[] = [];
+    let contentOffset = 0;
+
+    while (contentOffset < content.length) {
+      const segment = this.decodeWithTag(content, contentOffset, this.segmentTag);
+
+      if (segment.constructed) {
+        if (this.rules === 'cer') {
+          throw new DecodeError(`${this.name}: CER requires primitive segments`, offset + contentOffset);
+        }
+        segments.push(this.joinSegments(segment.content, offset + contentOffset));
+      } else {
+        // CER fills every segment but the last to exactly 1000 octets
+        const last = contentOffset + segment.totalLength >= content.length;
+        if (
+          this.rules === 'cer' &&
+          (last ? segment.content.length > CER_SEGMENT_SIZE : segment.content.length !== CER_SEGMENT_SIZE)
+        ) {
+          throw new DecodeError(`${this.name}: CER requires ${CER_SEGMENT_SIZE}-octet segments`, offset + contentOffset);
+        }
+        segments.push(segment.content);
+      }
+
+      contentOffset += segment.totalLength;
+    }
+
+    return this.joinSegmentContents(segments, offset);
+  }
+
+  /**
+   * Split string contents into the contents of primitive segments
+   */
+  protected splitSegments(content: Uint8Array, segmentSize: number): Uint8Array[] {
+    const segments: Uint8Array[] = [];
+    for (let start = 0; start < content.length; start += segmentSize) {
+      segments.push(content.subarray(start, start + segmentSize));
+    }
+    return segments;
+  }
+
+  /**
+   * Join the contents of segments into the contents of the whole string
+   */
+  protected joinSegmentContents(segments: Uint8Array[], _offset: number): Uint8Array {
+    return concatBytes(segments);
+  }
+}
+
+/**
+ * Build a TLV from encoded tag octets and contents. Constructed encodings
+ * use the indefinite length form under CER or when the options ask for it.
+ */
+export function encodeTlv(
+  tagBytes: Uint8Array,
+  content: Uint8Array,
+  constructed: boolean,
+  rules: EncodingRules,
+  options: EncodeOptions = {}
+): Uint8Array {
+  const indefinite = constructed && (rules === 'cer' || options.indefiniteLength === true);
+  const lengthBytes = indefinite ? new Uint8Array([0x80]) : encodeLength(content.length, options.lengthOctets);
+  const trailer = indefinite ? END_OF_CONTENTS : new Uint8Array(0);
+
+  const result = new Uint8Array(tagBytes.length + lengthBytes.length + content.length + trailer.length);
+  let offset = 0;
+
+  result.set(tagBytes, offset);
+  offset += tagBytes.length;
+
+  result.set(lengthBytes, offset);
+  offset += lengthBytes.length;
+
+  result.set(content, offset);
+  offset += content.length;
+
+  result.set(trailer, offset);
+
+  return result;
 }
 
 /**
  * ASN.1 INTEGER type
  */
 export class IntegerType extends BaseType {
-  constructor(name: string) {
+  public readonly range: ValueRange | undefined;
+
+  constructor(name: string, range?: ValueRange) {
     super(name, BER.TAG.INTEGER);
+    this.range = range;
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (typeof value !== 'number' && typeof value !== 'bigint') {
       throw new EncodeError(`INTEGER ${this.name}: expected number or bigint, got ${typeof value}`);
     }
 
     const content = encodeSignedInteger(value);
-    return this.encodeWithTag(content);
+    return this.encodeWithTag(content, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: number | bigint; length: number } {
@@ -105,6 +308,10 @@ export class IntegerType extends BaseType {
       throw new DecodeError(`INTEGER ${this.name}: empty content`, offset);
     }
 
+    if (this.canonical && !isMinimalSignedInteger(content)) {
+      throw new DecodeError(`INTEGER ${this.name}: ${this.rules.toUpperCase()} requires minimal encoding`, offset);
+    }
+
     const bigintValue = decodeSignedInteger(content);
     const value = toSafeNumber(bigintValue);
 
@@ -120,13 +327,13 @@ export class BooleanType extends BaseType {
     super(name, BER.TAG.BOOLEAN);
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (typeof value !== 'boolean') {
       throw new EncodeError(`BOOLEAN ${this.name}: expected boolean, got ${typeof value}`);
     }
 
     const content = new Uint8Array([value ? 0xff : 0x00]);
-    return this.encodeWithTag(content);
+    return this.encodeWithTag(content, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: boolean; length: number } {
@@ -136,20 +343,243 @@ export class BooleanType extends BaseType {
       throw new DecodeError(`BOOLEAN ${this.name}: expected 1 byte content, got ${content.length}`, offset);
     }
 
+    if (this.canonical && content[0] !== 0x00 && content[0] !== 0xff) {
+      throw new DecodeError(`BOOLEAN ${this.name}: ${this.rules.toUpperCase()} requires TRUE to be encoded as 0xff`, offset);
+    }
+
     const value = content[0] !== 0;
     return { value, length: totalLength };
   }
 }
 
+/**
+ * ASN.1 BIT STRING type. Values are BitString objects; types with named bits
+ * also take and give the names of the set bits.
+ */
+export class BitStringType extends BaseType {
+  public readonly size: ValueRange | undefined;
+  public readonly namedBits: Array<[string, number]>;
+
+  constructor(name: string, size?: ValueRange, namedBits: Array<[string, number]> = []) {
+    super(name, BER.TAG.BIT_STRING);
+    this.size = size;
+    this.namedBits = namedBits;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    const bits = this.toBitString(value);
+    if (!this.fitsSize(bits.length)) {
+      throw new EncodeError(`BIT STRING ${this.name}: size ${bits.length} outside ${this.sizeText}`);
+    }
+    const content = new Uint8Array(bits.data.length + 1);
+    content[0] = bits.data.length * 8 - bits.length;
+    content.set(bits.data, 1);
+    return this.encodeStringWithTag(content, options);
+  }
+
+  /**
+   * Convert any accepted BIT STRING input to a bit string without stray
+   * bits after its end. Trailing zero bits are not significant in types
+   * with named bits (X.680 22.7) and are removed, as DER requires.
+   */
+  toBitString(value: any): BitString {
+    let bits: BitString;
+
+    if (Array.isArray(value) || value instanceof Set) {
+      if (this.namedBits.length === 0) {
+        throw new EncodeError(`BIT STRING ${this.name}: named bits given for a type without named bits`);
+      }
+      bits = this.fromNames(value);
+    } else if (value && value.data instanceof Uint8Array && Number.isInteger(value.length)) {
+      if (value.length < 0 || value.length > value.data.length * 8) {
+        throw new EncodeError(`BIT STRING ${this.name}: length ${value.length} does not fit ${value.data.length} octets`);
+      }
+      bits = copyBits(value.data, value.length);
+    } else {
+      throw new EncodeError(`BIT STRING ${this.name}: expected { data, length } or named bits, got ${typeof value}`);
+    }
+
+    if (this.namedBits.length > 0) {
+      let length = bits.length;
+      while (length > 0 && !getBit(bits.data, length - 1)) {
+        length--;
+      }
+      bits = copyBits(bits.data, length);
+    }
+    return bits;
+  }
+
+  /**
+   * Value for a decoded bit string: the names of its set bits for types
+   * with named bits, otherwise the bit string itself
+   */
+  fromBitString(bits: BitString, offset?: number): BitString | string[] {
+    if (this.namedBits.length === 0) {
+      return bits;
+    }
+
+    const names: string[] = [];
+    for (let bit = 0; bit < bits.length; bit++) {
+      if (getBit(bits.data, bit)) {
+        const entry = this.namedBits.find(([, number]) => number === bit);
+        if (!entry) {
+          throw new DecodeError(`BIT STRING ${this.name}: bit ${bit} has no name`, offset);
+        }
+        names.push(entry[0]);
+      }
+    }
+    return names;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: BitString | string[]; length: number } {
+    const { content, totalLength } = this.decodeStringWithTag(data, offset);
+
+    if (content.length === 0) {
+      throw new DecodeError(`BIT STRING ${this.name}: missing unused bits octet`, offset);
+    }
+    const unused = content[0]!;
+    if (unused > 7 || (content.length === 1 && unused !== 0)) {
+      throw new DecodeError(`BIT STRING ${this.name}: invalid unused bits count ${unused}`, offset);
+    }
+
+    const bits = { data: content.slice(1), length: (content.length - 1) * 8 - unused };
+    if (this.canonical) {
+      if (unused > 0 && (content[content.length - 1]! & ((1 << unused) - 1)) !== 0) {
+        throw new DecodeError(`BIT STRING ${this.name}: ${this.rules.toUpperCase()} requires zero unused bits`, offset);
+      }
+      if (this.namedBits.length > 0 && bits.length > 0 && !getBit(bits.data, bits.length - 1)) {
+        throw new DecodeError(
+          `BIT STRING ${this.name}: ${this.rules.toUpperCase()} requires trailing zero bits to be removed`,
+          offset
+        );
+      }
+    }
+
+    if (!this.fitsSize(bits.length)) {
+      throw new DecodeError(`BIT STRING ${this.name}: size ${bits.length} outside ${this.sizeText}`, offset);
+    }
+
+    return { value: this.fromBitString(copyBits(bits.data, bits.length), offset), length: totalLength };
+  }
+
+  /**
+   * Whether a bit length is within the SIZE constraint, if it is not
+   * extensible. Types with named bits may drop trailing zero bits below its
+   * lower bound.
+   */
+  private fitsSize(length: number): boolean {
+    if (!this.size || this.size.extensible) {
+      return true;
+    }
+    const min = this.namedBits.length > 0 ? 0 : Number(this.size.min ?? 0);
+    return length >= min && (this.size.max === undefined || length <= Number(this.size.max));
+  }
+
+  private get sizeText(): string {
+    return `SIZE(${this.size?.min ?? 0}..${this.size?.max ?? 'MAX'})`;
+  }
+
+  private fromNames(names: Iterable<string>): BitString {
+    const numbers: number[] = [];
+    for (const name of names) {
+      const entry = this.namedBits.find(([identifier]) => identifier === name);
+      if (!entry) {
+        throw new EncodeError(`BIT STRING ${this.name}: unknown named bit '${name}'`);
+      }
+      numbers.push(entry[1]);
+    }
+
+    const length = numbers.length > 0 ? Math.max(...numbers) + 1 : 0;
+    const data = new Uint8Array(Math.ceil(length / 8));
+    for (const bit of numbers) {
+      data[bit >> 3] = data[bit >> 3]! | (0x80 >> (bit & 7));
+    }
+    return { data, length };
+  }
+
+  protected get segmentable(): boolean {
+    return true;
+  }
+
+  /**
+   * Every segment starts with its own unused bits octet, which is zero
+   * in all but the last (X.690 8.6.4)
+   */
+  protected splitSegments(content: Uint8Array, segmentSize: number): Uint8Array[] {
+    if (segmentSize < 2) {
+      throw new EncodeError(`BIT STRING ${this.name}: segment size must be at least 2`);
+    }
+
+    const data = content.subarray(1);
+    const segments: Uint8Array[] = [];
+    let start = 0;
+    do {
+      const end = Math.min(start + segmentSize - 1, data.length);
+      const segment = new Uint8Array(end - start + 1);
+      segment[0] = end === data.length ? content[0]! : 0;
+      segment.set(data.subarray(start, end), 1);
+      segments.push(segment);
+      start = end;
+    } while (start < data.length);
+    return segments;
+  }
+
+  protected joinSegmentContents(segments: Uint8Array[], offset: number): Uint8Array {
+    if (segments.length === 0) {
+      throw new DecodeError(`BIT STRING ${this.name}: constructed encoding without segments`, offset);
+    }
+
+    segments.forEach((segment, index) => {
+      if (segment.length === 0) {
+        throw new DecodeError(`BIT STRING ${this.name}: segment without unused bits octet`, offset);
+      }
+      if (index < segments.length - 1 && segment[0] !== 0) {
+        throw new DecodeError(`BIT STRING ${this.name}: only the last segment may have unused bits`, offset);
+      }
+    });
+    return concatBytes([segments[segments.length - 1]!.subarray(0, 1), ...segments.map(segment => segment.subarray(1))]);
+  }
+}
+
+/**
+ * Whether a bit of a bit string is set, counting from the most significant bit
+ */
+export function getBit(data: Uint8Array, bit: number): boolean {
+  return ((data[bit >> 3] ?? 0) & (0x80 >> (bit & 7))) !== 0;
+}
+
+/**
+ * Copy the first length bits of data, clearing the bits after them and
+ * padding with zero bits where data is shorter
+ */
+export function copyBits(data: Uint8Array, length: number): BitString {
+  const copy = new Uint8Array(Math.ceil(length / 8));
+  copy.set(data.subarray(0, copy.length));
+  if (length % 8 !== 0) {
+    copy[copy.length - 1] = copy[copy.length - 1]! & (0xff << (8 - (length % 8)));
+  }
+  return { data: copy, length };
+}
+
 /**
  * ASN.1 OCTET STRING type
  */
 export class OctetStringType extends BaseType {
-  constructor(name: string) {
+  public readonly size: ValueRange | undefined;
+
+  constructor(name: string, size?: ValueRange) {
     super(name, BER.TAG.OCTET_STRING);
+    this.size = size;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeStringWithTag(this.toBytes(value), options);
   }
 
-  encode(value: any): Uint8Array {
+  /**
+   * Convert any accepted OCTET STRING input to bytes
+   */
+  toBytes(value: any): Uint8Array {
     let content: Uint8Array;
 
     if (value instanceof Uint8Array) {
@@ -172,13 +602,204 @@ export class OctetStringType extends BaseType {
       throw new EncodeError(`OCTET STRING ${this.name}: expected Uint8Array, ArrayBuffer, number[], or hex string, got ${typeof value}`);
     }
 
-    return this.encodeWithTag(content);
+    return content;
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: Uint8Array; length: number } {
-    const { content, totalLength } = this.decodeWithTag(data, offset);
+    const { content, totalLength } = this.decodeStringWithTag(data, offset);
     return { value: content, length: totalLength };
   }
+
+  protected get segmentable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Special REAL values and their contents octets (X.690 8.5.9)
+ */
+const REAL_PLUS_INFINITY = 0x40;
+const REAL_MINUS_INFINITY = 0x41;
+const REAL_NOT_A_NUMBER = 0x42;
+const REAL_MINUS_ZERO = 0x43;
+
+/**
+ * ISO 6093 number forms NR1, NR2 and NR3 of decimal REAL encodings
+ */
+const DECIMAL_FORMS = [
+  /^ *[+-]?\d+$/,
+  /^ *[+-]?(?:\d+[.,]\d*|[.,]\d+)$/,
+  /^ *[+-]?(?:\d+[.,]?\d*|[.,]\d+)[Ee][+-]?\d+$/
+];
+
+/**
+ * NR3 form required by DER and CER: an integer mantissa without trailing
+ * zeros, and an exponent written as +0 or without a plus sign (X.690 11.3.2)
+ */
+const CANONICAL_DECIMAL = /^-?(?:[1-9]|[1-9]\d*[1-9])\.E(?:\+0|-?[1-9]\d*)$/;
+
+/**
+ * ASN.1 REAL type, with number values. Infinities, NaN and -0 are encoded
+ * as the special values of X.690 8.5.9.
+ */
+export class RealType extends BaseType {
+  constructor(name: string) {
+    super(name, BER.TAG.REAL);
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeWithTag(this.toContents(value, options?.realBase), options);
+  }
+
+  /**
+   * Contents octets of a value, in binary form with the given base or in
+   * decimal form for base 10. The mantissa of binary forms is odd, as
+   * DER requires for base 2.
+   */
+  toContents(value: any, base: 2 | 8 | 10 | 16 = 2): Uint8Array {
+    if (typeof value !== 'number') {
+      throw new EncodeError(`REAL ${this.name}: expected number, got ${typeof value}`);
+    }
+
+    if (Number.isNaN(value)) {
+      return new Uint8Array([REAL_NOT_A_NUMBER]);
+    } else if (value === Infinity) {
+      return new Uint8Array([REAL_PLUS_INFINITY]);
+    } else if (value === -Infinity) {
+      return new Uint8Array([REAL_MINUS_INFINITY]);
+    } else if (Object.is(value, -0)) {
+      return new Uint8Array([REAL_MINUS_ZERO]);
+    } else if (value === 0) {
+      return new Uint8Array(0);
+    }
+
+    if (base === 10) {
+      // Shortest digits that identify the number, such as 3.14e+0
+      const [digits, exponent] = Math.abs(value).toExponential().split('e') as [string, string];
+      const fraction = digits.split('.')[1] ?? '';
+      const mantissa = digits.replace('.', '').replace(/0+$/, '');
+      const scale = Number(exponent) - fraction.length + (digits.replace('.', '').length - mantissa.length);
+      const text = `${value < 0 ? '-' : ''}${mantissa}.E${scale === 0 ? '+0' : scale}`;
+      return concatBytes([new Uint8Array([0x03]), new TextEncoder().encode(text)]);
+    }
+
+    // Split the double into an odd integer mantissa and a power of two
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, Math.abs(value));
+    const bits = view.getBigUint64(0);
+    const biasedExponent = Number(bits >> 52n);
+    let mantissa = bits & 0xfffffffffffffn;
+    let exponent = biasedExponent - 1075;
+    if (biasedExponent === 0) {
+      exponent = -1074;
+    } else {
+      mantissa |= 1n << 52n;
+    }
+    while ((mantissa & 1n) === 0n) {
+      mantissa >>= 1n;
+      exponent++;
+    }
+
+    // Bases 8 and 16 take the remainder of the exponent as scaling factor F
+    const baseBits = base === 8 ? 3 : base === 16 ? 4 : 1;
+    const scaled = Math.floor(exponent / baseBits);
+    const factor = exponent - scaled * baseBits;
+
+    const exponentBytes = encodeSignedInteger(scaled);
+    const mantissaBytes: number[] = [];
+    for (; mantissa > 0n; mantissa >>= 8n) {
+      mantissaBytes.unshift(Number(mantissa & 0xffn));
+    }
+
+    const format = exponentBytes.length <= 3 ? exponentBytes.length - 1 : 3;
+    const first = 0x80 | (value < 0 ? 0x40 : 0) | ((baseBits >> 1) << 4) | (factor << 2) | format;
+    return concatBytes([
+      new Uint8Array(format === 3 ? [first, exponentBytes.length] : [first]),
+      exponentBytes,
+      new Uint8Array(mantissaBytes)
+    ]);
+  }
+
+  fromContents(content: Uint8Array, offset: number = 0): number {
+    if (content.length === 0) {
+      return 0;
+    }
+
+    const first = content[0]!;
+    if (first & 0x80) {
+      return this.fromBinaryContents(content, offset);
+    }
+
+    if (first & 0x40) {
+      if (content.length !== 1 || first > REAL_MINUS_ZERO) {
+        throw new DecodeError(`REAL ${this.name}: invalid special value 0x${first.toString(16)}`, offset);
+      }
+      return [Infinity, -Infinity, NaN, -0][first - REAL_PLUS_INFINITY]!;
+    }
+
+    const text = String.fromCharCode(...content.subarray(1));
+    const form = DECIMAL_FORMS[first - 1];
+    if (!form || !form.test(text)) {
+      throw new DecodeError(`REAL ${this.name}: invalid decimal encoding '${text}'`, offset);
+    }
+    if (this.canonical && (first !== 0x03 || !CANONICAL_DECIMAL.test(text))) {
+      throw new DecodeError(`REAL ${this.name}: ${this.rules.toUpperCase()} requires the canonical NR3 form`, offset);
+    }
+    return Number(text.trim().replace(',', '.'));
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: number; length: number } {
+    const { content, totalLength } = this.decodeWithTag(data, offset);
+    return { value: this.fromContents(content, offset), length: totalLength };
+  }
+
+  private fromBinaryContents(content: Uint8Array, offset: number): number {
+    const first = content[0]!;
+    const baseBits = [1, 3, 4][(first >> 4) & 0x03];
+    if (baseBits === undefined) {
+      throw new DecodeError(`REAL ${this.name}: reserved base`, offset);
+    }
+
+    const format = first & 0x03;
+    const exponentStart = format === 3 ? 2 : 1;
+    const exponentLength = format === 3 ? (content[1] ?? 0) : format + 1;
+    const mantissaStart = exponentStart + exponentLength;
+    if (exponentLength === 0 || mantissaStart >= content.length) {
+      throw new DecodeError(`REAL ${this.name}: truncated binary encoding`, offset);
+    }
+
+    const exponentBytes = content.subarray(exponentStart, mantissaStart);
+    let mantissa = 0n;
+    for (const byte of content.subarray(mantissaStart)) {
+      mantissa = (mantissa << 8n) | BigInt(byte);
+    }
+    const factor = (first >> 2) & 0x03;
+
+    if (this.canonical) {
+      if (baseBits !== 1 || factor !== 0) {
+        throw new DecodeError(`REAL ${this.name}: ${this.rules.toUpperCase()} requires base 2 without scaling`, offset);
+      }
+      if ((mantissa & 1n) === 0n || !isMinimalSignedInteger(exponentBytes) || (format === 3 && exponentLength <= 3)) {
+        throw new DecodeError(`REAL ${this.name}: ${this.rules.toUpperCase()} requires an odd mantissa and minimal exponent`, offset);
+      }
+    }
+
+    // Exponents beyond the range of doubles only saturate the result
+    const limit = 4000n;
+    let exponent = decodeSignedInteger(exponentBytes) * BigInt(baseBits) + BigInt(factor);
+    exponent = exponent > limit ? limit : exponent < -limit ? -limit : exponent;
+
+    let magnitude = Number(mantissa);
+    let remaining = Number(exponent);
+    for (; remaining > 1023; remaining -= 1023) {
+      magnitude *= 2 ** 1023;
+    }
+    for (; remaining < -1022; remaining += 1022) {
+      magnitude *= 2 ** -1022;
+    }
+    magnitude *= 2 ** remaining;
+    return first & 0x40 ? -magnitude : magnitude;
+  }
 }
 
 /**
@@ -189,13 +810,13 @@ export class NullType extends BaseType {
     super(name, BER.TAG.NULL);
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
     if (value !== null && value !== undefined) {
       throw new EncodeError(`NULL ${this.name}: expected null or undefined, got ${typeof value}`);
     }
 
     const content = new Uint8Array(0);
-    return this.encodeWithTag(content);
+    return this.encodeWithTag(content, options);
   }
 
   decode(data: Uint8Array, offset: number = 0): { value: null; length: number } {
@@ -209,16 +830,596 @@ export class NullType extends BaseType {
   }
 }
 
+/**
+ * ASN.1 OBJECT IDENTIFIER and RELATIVE-OID types, with dotted string values
+ * such as '1.2.840.113549'
+ */
+export class ObjectIdentifierType extends BaseType {
+  public readonly relative: boolean;
+
+  constructor(name: string, relative: boolean = false) {
+    super(name, relative ? BER.TAG.RELATIVE_OID : BER.TAG.OBJECT_IDENTIFIER);
+    this.relative = relative;
+  }
+
+  get kind(): string {
+    return this.relative ? 'RELATIVE-OID' : 'OBJECT IDENTIFIER';
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeWithTag(this.toContents(value), options);
+  }
+
+  /**
+   * Arcs of a dotted value, or undefined when the value is not valid for
+   * this type. The first two arcs of an OID are 0.0-0.39, 1.0-1.39 or 2.n.
+   */
+  parseArcs(value: any): bigint[] | undefined {
+    if (typeof value !== 'string' || !/^(?:0|[1-9][0-9]*)(?:\.(?:0|[1-9][0-9]*))*$/.test(value)) {
+      return undefined;
+    }
+
+    const arcs = value.split('.').map(arc => BigInt(arc));
+    if (!this.relative && (arcs.length < 2 || arcs[0]! > 2n || (arcs[0]! < 2n && arcs[1]! >= 40n))) {
+      return undefined;
+    }
+    return arcs;
+  }
+
+  /**
+   * Contents octets of a value. An OID combines its first two arcs into
+   * one subidentifier (X.690 8.19.4).
+   */
+  toContents(value: any): Uint8Array {
+    const arcs = this.parseArcs(value);
+    if (!arcs) {
+      throw new EncodeError(`${this.kind} ${this.name}: invalid value ${JSON.stringify(value)}`);
+    }
+    return encodeSubidentifiers(this.relative ? arcs : [arcs[0]! * 40n + arcs[1]!, ...arcs.slice(2)]);
+  }
+
+  fromContents(content: Uint8Array, offset: number = 0): string {
+    const subidentifiers = decodeSubidentifiers(content, offset);
+    if (subidentifiers.length === 0) {
+      throw new DecodeError(`${this.kind} ${this.name}: empty value`, offset);
+    }
+    if (this.relative) {
+      return subidentifiers.join('.');
+    }
+
+    const first = subidentifiers[0]!;
+    const [root, second] = first < 80n ? [first / 40n, first % 40n] : [2n, first - 80n];
+    return [root, second, ...subidentifiers.slice(1)].join('.');
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: string; length: number } {
+    const { content, totalLength } = this.decodeWithTag(data, offset);
+    return { value: this.fromContents(content, offset), length: totalLength };
+  }
+}
+
+/**
+ * Names of the restricted character string types
+ */
+export type RestrictedStringKind =
+  | 'UTF8String'
+  | 'NumericString'
+  | 'PrintableString'
+  | 'TeletexString'
+  | 'IA5String'
+  | 'GraphicString'
+  | 'VisibleString'
+  | 'GeneralString'
+  | 'UniversalString'
+  | 'BMPString';
+
+/**
+ * Universal tag, octets per character (0 for UTF-8) and permitted code
+ * point ranges of each restricted character string type (X.680 41).
+ * TeletexString, GraphicString and GeneralString are taken as Latin-1.
+ */
+const RESTRICTED_STRINGS: Record<
+  RestrictedStringKind,
+  { tag: number; width: number; alphabet: Array<[number, number]>; knownMultiplier: boolean }
+> = {
+  UTF8String: { tag: BER.TAG.UTF8_STRING, width: 0, alphabet: [[0x00, 0xd7ff], [0xe000, 0x10ffff]], knownMultiplier: false },
+  NumericString: { tag: BER.TAG.NUMERIC_STRING, width: 1, alphabet: [[0x20, 0x20], [0x30, 0x39]], knownMultiplier: true },
+  PrintableString: {
+    tag: BER.TAG.PRINTABLE_STRING,
+    width: 1,
+    alphabet: [[0x20, 0x20], [0x27, 0x29], [0x2b, 0x3a], [0x3d, 0x3d], [0x3f, 0x3f], [0x41, 0x5a], [0x61, 0x7a]],
+    knownMultiplier: true
+  },
+  TeletexString: { tag: BER.TAG.TELETEX_STRING, width: 1, alphabet: [[0x00, 0xff]], knownMultiplier: false },
+  IA5String: { tag: BER.TAG.IA5_STRING, width: 1, alphabet: [[0x00, 0x7f]], knownMultiplier: true },
+  GraphicString: { tag: BER.TAG.GRAPHIC_STRING, width: 1, alphabet: [[0x20, 0x7e], [0xa0, 0xff]], knownMultiplier: false },
+  VisibleString: { tag: BER.TAG.VISIBLE_STRING, width: 1, alphabet: [[0x20, 0x7e]], knownMultiplier: true },
+  GeneralString: { tag: BER.TAG.GENERAL_STRING, width: 1, alphabet: [[0x00, 0xff]], knownMultiplier: false },
+  UniversalString: { tag: BER.TAG.UNIVERSAL_STRING, width: 4, alphabet: [[0x00, 0xffffffff]], knownMultiplier: true },
+  BMPString: { tag: BER.TAG.BMP_STRING, width: 2, alphabet: [[0x00, 0xffff]], knownMultiplier: true }
+};
+
+/**
+ * Whether a name is one of the restricted character string types
+ */
+export function isRestrictedStringKind(name: string): name is RestrictedStringKind {
+  return Object.prototype.hasOwnProperty.call(RESTRICTED_STRINGS, name);
+}
+
+/**
+ * ASN.1 restricted character string types, with string values. SIZE
+ * constraints count characters. Encoding rejects characters outside the
+ * alphabet of the type; decoding only checks the transcoding.
+ */
+export class RestrictedStringType extends BaseType {
+  public readonly kind: RestrictedStringKind;
+  public readonly size: ValueRange | undefined;
+
+  constructor(name: string, kind: RestrictedStringKind, size?: ValueRange) {
+    super(name, RESTRICTED_STRINGS[kind].tag);
+    this.kind = kind;
+    this.size = size;
+  }
+
+  /**
+   * Octets per character, 0 for the variable width UTF-8
+   */
+  get width(): number {
+    return RESTRICTED_STRINGS[this.kind].width;
+  }
+
+  /**
+   * Permitted code points as ascending inclusive ranges
+   */
+  get alphabet(): ReadonlyArray<[number, number]> {
+    return RESTRICTED_STRINGS[this.kind].alphabet;
+  }
+
+  /**
+   * Whether every character takes the same number of octets in BER, which
+   * makes the type a known-multiplier character string type for PER and OER
+   */
+  get knownMultiplier(): boolean {
+    return RESTRICTED_STRINGS[this.kind].knownMultiplier;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeStringWithTag(this.toBytes(value), options);
+  }
+
+  /**
+   * Code points of a value, checked against the alphabet
+   */
+  toCodePoints(value: any): number[] {
+    if (typeof value !== 'string') {
+      throw new EncodeError(`${this.kind} ${this.name}: expected string, got ${typeof value}`);
+    }
+
+    const codePoints = Array.from(value, character => character.codePointAt(0)!);
+    for (const codePoint of codePoints) {
+      if (!this.alphabet.some(([from, to]) => codePoint >= from && codePoint <= to)) {
+        throw new EncodeError(
+          `${this.kind} ${this.name}: character U+${codePoint.toString(16).toUpperCase().padStart(4, '0')} is not permitted`
+        );
+      }
+    }
+    return codePoints;
+  }
+
+  /**
+   * Contents octets of a value: UTF-8, or each character in width octets,
+   * big-endian for BMPString (UCS-2) and UniversalString (UCS-4)
+   */
+  toBytes(value: any): Uint8Array {
+    const codePoints = this.toCodePoints(value);
+    if (this.width === 0) {
+      return new TextEncoder().encode(value);
+    }
+
+    const bytes = new Uint8Array(codePoints.length * this.width);
+    codePoints.forEach((codePoint, index) => {
+      for (let octet = 0; octet < this.width; octet++) {
+        bytes[(index + 1) * this.width - 1 - octet] = (codePoint >>> (octet * 8)) & 0xff;
+      }
+    });
+    return bytes;
+  }
+
+  fromBytes(content: Uint8Array, offset: number = 0): string {
+    if (this.width === 0) {
+      try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(content);
+      } catch {
+        throw new DecodeError(`${this.kind} ${this.name}: invalid UTF-8`, offset);
+      }
+    }
+
+    if (content.length % this.width !== 0) {
+      throw new DecodeError(`${this.kind} ${this.name}: length ${content.length} is not a multiple of ${this.width}`, offset);
+    }
+
+    let text = '';
+    for (let start = 0; start < content.length; start += this.width) {
+      let codePoint = 0;
+      for (let octet = 0; octet < this.width; octet++) {
+        codePoint = codePoint * 0x100 + content[start + octet]!;
+      }
+      if (codePoint > 0x10ffff) {
+        throw new DecodeError(`${this.kind} ${this.name}: invalid character ${codePoint.toString(16)}`, offset);
+      }
+      text += String.fromCodePoint(codePoint);
+    }
+    return text;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: string; length: number } {
+    const { content, totalLength } = this.decodeStringWithTag(data, offset);
+    return { value: this.fromBytes(content, offset), length: totalLength };
+  }
+
+  protected get segmentable(): boolean {
+    return true;
+  }
+
+  /**
+   * Segments of a constructed string are OCTET STRINGs (X.690 8.23.6)
+   */
+  protected get segmentTag(): number {
+    return BER.TAG.OCTET_STRING;
+  }
+}
+
+const UTC_TIME_PATTERN = /^(?<year>\d{2})(?<month>\d{2})(?<day>\d{2})(?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2})?(?<zone>Z|[+-]\d{4})$/;
+const GENERALIZED_TIME_PATTERN =
+  /^(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})(?<hour>\d{2})(?:(?<minute>\d{2})(?<second>\d{2})?)?(?:(?<mark>[.,])(?<fraction>\d+))?(?<zone>Z|[+-]\d{2}(?:\d{2})?)?$/;
+
+/**
+ * ASN.1 UTCTime and GeneralizedTime types, with Date values. ISO 8601
+ * strings are accepted on encode. UTCTime has no fractions of a second and
+ * covers the years 1950 to 2049 (RFC 5280 4.1.2.5.1).
+ */
+export class UsefulTimeType extends BaseType {
+  public readonly generalized: boolean;
+
+  constructor(name: string, generalized: boolean = false) {
+    super(name, generalized ? BER.TAG.GENERALIZED_TIME : BER.TAG.UTC_TIME);
+    this.generalized = generalized;
+  }
+
+  get kind(): string {
+    return this.generalized ? 'GeneralizedTime' : 'UTCTime';
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeStringWithTag(new TextEncoder().encode(this.toText(value)), options);
+  }
+
+  /**
+   * Text of a value in the canonical form DER requires: UTC with seconds,
+   * and for GeneralizedTime only the significant digits of the fraction
+   */
+  toText(value: any): string {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+      throw new EncodeError(`${this.kind} ${this.name}: expected Date or ISO 8601 string, got ${JSON.stringify(value)}`);
+    }
+
+    const year = date.getUTCFullYear();
+    if (this.generalized ? year < 0 || year > 9999 : year < 1950 || year > 2049) {
+      throw new EncodeError(`${this.kind} ${this.name}: year ${year} out of range`);
+    }
+
+    const pad = (number: number, width: number = 2) => String(number).padStart(width, '0');
+    const time =
+      pad(date.getUTCMonth() + 1) +
+      pad(date.getUTCDate()) +
+      pad(date.getUTCHours()) +
+      pad(date.getUTCMinutes()) +
+      pad(date.getUTCSeconds());
+    if (!this.generalized) {
+      return `${pad(year % 100)}${time}Z`;
+    }
+
+    const fraction = pad(date.getUTCMilliseconds(), 3).replace(/0+$/, '');
+    return `${pad(year, 4)}${time}${fraction ? `.${fraction}` : ''}Z`;
+  }
+
+  /**
+   * Parse the text of a value. Times without a UTC offset are local times;
+   * two-digit UTCTime years from 50 are in the 1900s. Fractions beyond
+   * milliseconds are truncated.
+   */
+  fromText(text: string, offset?: number): Date {
+    const invalid = () => new DecodeError(`${this.kind} ${this.name}: invalid value '${text}'`, offset);
+    const match = (this.generalized ? GENERALIZED_TIME_PATTERN : UTC_TIME_PATTERN).exec(text);
+    if (!match) {
+      throw invalid();
+    }
+
+    const { month, day, hour, minute, second, mark, fraction, zone } = match.groups!;
+    let year = Number(match.groups!.year);
+    if (!this.generalized) {
+      year += year < 50 ? 2000 : 1900;
+    }
+
+    const minimalFraction = fraction === undefined || (mark === '.' && !fraction.endsWith('0'));
+    if (this.canonical && (zone !== 'Z' || second === undefined || !minimalFraction)) {
+      throw new DecodeError(
+        `${this.kind} ${this.name}: ${this.rules.toUpperCase()} requires UTC with seconds and a minimal fraction, got '${text}'`,
+        offset
+      );
+    }
+
+    const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][Number(month) - 1] ?? 0;
+    if (
+      Number(day) < 1 ||
+      Number(day) > daysInMonth ||
+      Number(hour) > 23 ||
+      Number(minute ?? 0) > 59 ||
+      Number(second ?? 0) > 59
+    ) {
+      throw invalid();
+    }
+
+    const date = new Date(0);
+    if (zone === undefined) {
+      date.setFullYear(year, Number(month) - 1, Number(day));
+      date.setHours(Number(hour), Number(minute ?? 0), Number(second ?? 0), 0);
+    } else {
+      date.setUTCFullYear(year, Number(month) - 1, Number(day));
+      date.setUTCHours(Number(hour), Number(minute ?? 0), Number(second ?? 0), 0);
+    }
+
+    // A fraction belongs to the last time element given
+    let time = date.getTime();
+    if (fraction !== undefined) {
+      if (second !== undefined) {
+        time += Number(fraction.padEnd(3, '0').substring(0, 3));
+      } else {
+        time += Math.floor(Number(`0.${fraction}`) * (minute !== undefined ? 60000 : 3600000));
+      }
+    }
+    if (zone !== undefined && zone !== 'Z') {
+      const sign = zone[0] === '-' ? -1 : 1;
+      const [zoneHours, zoneMinutes] = [Number(zone.substring(1, 3)), Number(zone.substring(3, 5) || 0)];
+      if (zoneHours > 23 || zoneMinutes > 59) {
+        throw invalid();
+      }
+      time -= sign * (zoneHours * 60 + zoneMinutes) * 60000;
+    }
+    return new Date(time);
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: Date; length: number } {
+    const { content, totalLength } = this.decodeStringWithTag(data, offset);
+    return { value: this.fromText(String.fromCharCode(...content), offset), length: totalLength };
+  }
+
+  protected get segmentable(): boolean {
+    return true;
+  }
+
+  protected get segmentTag(): number {
+    return BER.TAG.OCTET_STRING;
+  }
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Names of the X.680 time types
+ */
+export type TimeKind = 'TIME' | 'DATE' | 'TIME-OF-DAY' | 'DATE-TIME' | 'DURATION';
+
+const TIME_TAGS: Record<TimeKind, number> = {
+  'TIME': BER.TAG.TIME,
+  'DATE': BER.TAG.DATE,
+  'TIME-OF-DAY': BER.TAG.TIME_OF_DAY,
+  'DATE-TIME': BER.TAG.DATE_TIME,
+  'DURATION': BER.TAG.DURATION
+};
+
+const DATE_PATTERN = /^(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})$/;
+const TIME_OF_DAY_PATTERN = /^(?<hours>\d{2}):(?<minutes>\d{2}):(?<seconds>\d{2})$/;
+const DURATION_PATTERN = new RegExp(
+  '^P(?:(?<years>[\\d.,]+)Y)?(?:(?<months>[\\d.,]+)M)?(?:(?<weeks>[\\d.,]+)W)?(?:(?<days>[\\d.,]+)D)?' +
+    '(?:T(?:(?<hours>[\\d.,]+)H)?(?:(?<minutes>[\\d.,]+)M)?(?:(?<seconds>[\\d.,]+)S)?)?$'
+);
+const DURATION_COMPONENTS = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'] as const;
+
+/**
+ * ASN.1 time types of X.680 38, encoded as their ISO 8601 text. DATE,
+ * TIME-OF-DAY and DATE-TIME values are CalendarDate, TimeOfDay and DateTime
+ * objects, DURATION values Duration objects. TIME values are the ISO 8601
+ * text itself, as the property settings of the type allow many forms.
+ */
+export class TimeType extends BaseType {
+  public readonly kind: TimeKind;
+  public readonly settings: string | undefined;
+
+  constructor(name: string, kind: TimeKind, settings?: string) {
+    super(name, TIME_TAGS[kind]);
+    this.kind = kind;
+    this.settings = settings;
+  }
+
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    return this.encodeWithTag(new TextEncoder().encode(this.toText(value)), options);
+  }
+
+  /**
+   * ISO 8601 text of a value. The text itself is also accepted as a value.
+   */
+  toText(value: any): string {
+    if (typeof value === 'string') {
+      this.checkText(value);
+      return value;
+    }
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${this.kind} ${this.name}: expected object or ISO 8601 string, got ${typeof value}`);
+    }
+
+    const pad = (number: any, width: number = 2) => {
+      if (!Number.isInteger(number) || number < 0) {
+        throw new EncodeError(`${this.kind} ${this.name}: invalid value ${JSON.stringify(value)}`);
+      }
+      return String(number).padStart(width, '0');
+    };
+
+    let text: string;
+    switch (this.kind) {
+      case 'DATE':
+        text = `${pad(value.year, 4)}-${pad(value.month)}-${pad(value.day)}`;
+        break;
+      case 'TIME-OF-DAY':
+        text = `${pad(value.hours)}:${pad(value.minutes)}:${pad(value.seconds)}`;
+        break;
+      case 'DATE-TIME':
+        text = `${pad(value.year, 4)}-${pad(value.month)}-${pad(value.day)}T${pad(value.hours)}:${pad(value.minutes)}:${pad(value.seconds)}`;
+        break;
+      case 'DURATION':
+        text = this.toDurationText(value);
+        break;
+      default:
+        throw new EncodeError(`TIME ${this.name}: expected ISO 8601 string, got ${typeof value}`);
+    }
+
+    // Check the ranges of the fields
+    this.checkText(text);
+    return text;
+  }
+
+  /**
+   * Check the ISO 8601 text of a value that is being encoded
+   */
+  private checkText(text: string): void {
+    try {
+      this.fromText(text);
+    } catch (error) {
+      if (error instanceof DecodeError) {
+        throw new EncodeError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse the ISO 8601 text of a value
+   */
+  fromText(text: string, offset?: number): any {
+    const invalid = () => new DecodeError(`${this.kind} ${this.name}: invalid value '${text}'`, offset);
+
+    if (this.kind === 'TIME') {
+      if (!/^[0-9A-Z:+\-.,/]+$/.test(text)) {
+        throw invalid();
+      }
+      return text;
+    }
+    if (this.kind === 'DURATION') {
+      return this.fromDurationText(text, invalid);
+    }
+
+    const [datePart, timePart] = this.kind === 'DATE' ? [text] : this.kind === 'TIME-OF-DAY' ? [undefined, text] : text.split('T');
+    const value: any = {};
+
+    if (this.kind !== 'TIME-OF-DAY') {
+      const date = DATE_PATTERN.exec(datePart ?? '');
+      if (!date) {
+        throw invalid();
+      }
+      const [year, month, day] = [Number(date.groups!.year), Number(date.groups!.month), Number(date.groups!.day)];
+      const daysInMonth = [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1] ?? 0;
+      // Basic years of the Gregorian calendar (X.680 38.4.1)
+      if (year < 1582 || day < 1 || day > daysInMonth) {
+        throw invalid();
+      }
+      Object.assign(value, { year, month, day });
+    }
+
+    if (this.kind !== 'DATE') {
+      const time = TIME_OF_DAY_PATTERN.exec(timePart ?? '');
+      if (!time) {
+        throw invalid();
+      }
+      const [hours, minutes, seconds] = [Number(time.groups!.hours), Number(time.groups!.minutes), Number(time.groups!.seconds)];
+      if (hours > 23 || minutes > 59 || seconds > 59) {
+        throw invalid();
+      }
+      Object.assign(value, { hours, minutes, seconds });
+    }
+
+    return value;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: any; length: number } {
+    const { content, totalLength } = this.decodeWithTag(data, offset);
+    return { value: this.fromText(String.fromCharCode(...content), offset), length: totalLength };
+  }
+
+  private toDurationText(value: any): string {
+    const present = DURATION_COMPONENTS.filter(component => value[component] !== undefined);
+    let text = 'P';
+    for (const component of present) {
+      const number = value[component];
+      const last = component === present[present.length - 1];
+      if (typeof number !== 'number' || !Number.isFinite(number) || number < 0 || (!last && !Number.isInteger(number))) {
+        throw new EncodeError(`${this.kind} ${this.name}: invalid ${component} ${JSON.stringify(number)}`);
+      }
+      if (['hours', 'minutes', 'seconds'].includes(component) && !text.includes('T')) {
+        text += 'T';
+      }
+      text += `${number}${component === 'months' || component === 'minutes' ? 'M' : component[0]!.toUpperCase()}`;
+    }
+    return text;
+  }
+
+  private fromDurationText(text: string, invalid: () => DecodeError): Duration {
+    const match = DURATION_PATTERN.exec(text);
+    if (!match || text.endsWith('T')) {
+      throw invalid();
+    }
+
+    const present = DURATION_COMPONENTS.filter(component => match.groups![component] !== undefined);
+    if (present.length === 0 || (present.includes('weeks') && present.length > 1)) {
+      throw invalid();
+    }
+
+    const duration: Duration = {};
+    for (const component of present) {
+      const digits = match.groups![component]!;
+      const last = component === present[present.length - 1];
+      if (!(last ? /^\d+(?:[.,]\d+)?$/ : /^\d+$/).test(digits)) {
+        throw invalid();
+      }
+      duration[component] = Number(digits.replace(',', '.'));
+    }
+    return duration;
+  }
+}
+
 /**
  * ASN.1 ENUMERATED type
  */
 export class EnumeratedType extends BaseType {
+  public readonly values: Array<[string, number]>;
+  public readonly additions: Array<[string, number]>;
+  public readonly extensible: boolean;
   private valueMap: Map<string, number>;
   private nameMap: Map<number, string>;
 
-  constructor(name: string, values: Array<[string, number]>) {
+  /**
+   * @param values Root values followed by the extension additions
+   * @param additions Extension additions of extensible types, which decode
+   * values they do not know to their numbers
+   */
+  constructor(name: string, values: Array<[string, number]>, additions?: Array<[string, number]>) {
     super(name, BER.TAG.ENUMERATED);
     
+    this.values = values;
+    this.additions = additions ?? [];
+    this.extensible = additions !== undefined;
     this.valueMap = new Map();
     this.nameMap = new Map();
     
@@ -228,7 +1429,15 @@ export class EnumeratedType extends BaseType {
     }
   }
 
-  encode(value: any): Uint8Array {
+  encode(value: any, options?: EncodeOptions): Uint8Array {
+    const content = encodeSignedInteger(this.toNumber(value));
+    return this.encodeWithTag(content, options);
+  }
+
+  /**
+   * Map an identifier or numeric value to its enumeration number
+   */
+  toNumber(value: any): number {
     let enumValue: number;
 
     if (typeof value === 'string') {
@@ -238,7 +1447,7 @@ export class EnumeratedType extends BaseType {
       }
       enumValue = mappedValue;
     } else if (typeof value === 'number') {
-      if (!this.nameMap.has(value)) {
+      if (!this.nameMap.has(value) && !(this.extensible && Number.isInteger(value))) {
         throw new EncodeError(`ENUMERATED ${this.name}: unknown numeric value ${value}`);
       }
       enumValue = value;
@@ -246,25 +1455,129 @@ export class EnumeratedType extends BaseType {
       throw new EncodeError(`ENUMERATED ${this.name}: expected string or number, got ${typeof value}`);
     }
 
-    const content = encodeSignedInteger(enumValue);
-    return this.encodeWithTag(content);
+    return enumValue;
   }
 
-  decode(data: Uint8Array, offset: number = 0): { value: string; length: number } {
+  /**
+   * The identifier of a value, which unknown extension additions decoded
+   * from binary encodings lack
+   */
+  toIdentifier(value: any): string {
+    if (this.extensible && typeof value?.[UNKNOWN_EXTENSIONS] === 'string') {
+      return value[UNKNOWN_EXTENSIONS];
+    }
+    const number = this.toNumber(value);
+    const name = this.nameMap.get(number);
+    if (name === undefined) {
+      throw new EncodeError(`ENUMERATED ${this.name}: unknown value ${number} has no identifier`);
+    }
+    return name;
+  }
+
+  /**
+   * The value for an enumeration number: its identifier, or the number
+   * itself for an unknown extension addition
+   */
+  fromNumber(number: number, offset: number): string | number {
+    const name = this.nameMap.get(number);
+    if (name !== undefined) {
+      return name;
+    }
+    if (!this.extensible) {
+      throw new DecodeError(`ENUMERATED ${this.name}: unknown value ${number}`, offset);
+    }
+    return number;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: string | number; length: number } {
     const { content, totalLength } = this.decodeWithTag(data, offset);
 
     if (content.length === 0) {
       throw new DecodeError(`ENUMERATED ${this.name}: empty content`, offset);
     }
 
+    if (this.canonical && !isMinimalSignedInteger(content)) {
+      throw new DecodeError(`ENUMERATED ${this.name}: ${this.rules.toUpperCase()} requires minimal encoding`, offset);
+    }
+
     const bigintValue = decodeSignedInteger(content);
     const numericValue = Number(bigintValue);
 
-    const name = this.nameMap.get(numericValue);
-    if (name === undefined) {
-      throw new DecodeError(`ENUMERATED ${this.name}: unknown value ${numericValue}`, offset);
+    return { value: this.fromNumber(numericValue, offset), length: totalLength };
+  }
+} 
+/**
+ * ASN.1 open type, ANY and ANY DEFINED BY. Values are complete encodings
+ * in the rules in use, which are sent as they are. Members DEFINED BY a
+ * governing member whose value identifies a known type take values of that
+ * type instead.
+ */
+export class AnyType extends BaseType {
+  public readonly definedBy: string | undefined;
+  private readonly openTypes: Map<string, Asn1Type>;
+
+  /**
+   * @param openTypes Types by governing value, shared by all open types of
+   * a specification and filled in once its types are compiled
+   */
+  constructor(name: string, definedBy?: string, openTypes: Map<string, Asn1Type> = new Map()) {
+    super(name, BER.TAG.ANY);
+    this.definedBy = definedBy;
+    this.openTypes = openTypes;
+  }
+
+  /**
+   * The type identified by the governing member of the enclosing SEQUENCE
+   * or SET value, when it is known
+   */
+  typeFor(container: any): Asn1Type | undefined {
+    if (this.definedBy === undefined || !container || typeof container !== 'object') {
+      return undefined;
     }
+    const governing = container[this.definedBy];
+    return governing === undefined ? undefined : this.openTypes.get(String(governing));
+  }
 
-    return { value: name, length: totalLength };
+  /**
+   * Check the type of an encoding given as a value
+   */
+  toBytes(value: any): Uint8Array {
+    if (!(value instanceof Uint8Array)) {
+      throw new EncodeError(`ANY ${this.name}: expected Uint8Array encoding, got ${typeof value}`);
+    }
+    return value;
   }
-} 
\ No newline at end of file
+
+  encode(value: any, _options?: EncodeOptions): Uint8Array {
+    this.toBytes(value);
+
+    let length: number | undefined;
+    try {
+      length = this.decode(value).length;
+    } catch {
+      // Reported below
+    }
+    if (length !== value.length) {
+      throw new EncodeError(`ANY ${this.name}: value is not a single complete encoding`);
+    }
+    return value;
+  }
+
+  decode(data: Uint8Array, offset: number = 0): { value: Uint8Array; length: number } {
+    if (offset >= data.length) {
+      throw new DecodeError(`Unexpected end of data while decoding ${this.name}`, offset);
+    }
+
+    const tagInfo = decodeTag(data, offset);
+    const lengthInfo = decodeLength(data, offset + tagInfo.length, this.rules !== 'der');
+    if (lengthInfo.indefinite && !tagInfo.constructed) {
+      throw new DecodeError(`${this.name}: indefinite length requires a constructed encoding`, offset);
+    }
+
+    const length = tagInfo.length + lengthInfo.octets + lengthInfo.length + (lengthInfo.indefinite ? 2 : 0);
+    if (offset + length > data.length) {
+      throw new DecodeError(`Not enough data for ${this.name}: expected ${length} bytes`, offset);
+    }
+    return { value: data.slice(offset, offset + length), length };
+  }
+}
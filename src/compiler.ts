@@ -2,49 +2,190 @@
  * ASN.1 compiler - converts parsed types into executable type objects
  */
 
-import { Asn1Type, Asn1Specification, Asn1Module, ParsedType, ParsedModule, CompileError } from './types';
 import { 
+  Asn1Type, 
+  Asn1Specification, 
+  Asn1Module, 
+  BER, 
+  ParsedType, 
+  ParsedTag, 
+  ParsedModule, 
+  ParsedBracedValue, 
+  ParsedBinaryValue,
+  CompileOptions, 
+  EncodingRules, 
+  ValueRange, 
+  Codec, 
+  EncodeOptions, 
+  CompileError, 
+  EncodeError 
+} from './types';
+import { 
+  BaseType, 
   IntegerType, 
   BooleanType, 
+  BitStringType, 
   OctetStringType, 
   NullType, 
-  EnumeratedType 
+  RealType, 
+  ObjectIdentifierType, 
+  RestrictedStringType, 
+  UsefulTimeType, 
+  TimeType,
+  EnumeratedType, 
+  AnyType, 
+  isRestrictedStringKind 
 } from './ber/types';
 import { 
   SequenceType, 
   SequenceOfType, 
-  ChoiceType 
+  SetType, 
+  SetOfType, 
+  ChoiceType, 
+  ReferenceType, 
+  TaggedType, 
+  outermostTags 
 } from './ber/complex-types';
+import { formatTag } from './ber/encoding';
+import { fromBinary } from './xer/encoding';
+import { BerCodec } from './ber/codec';
+import { PerCodec } from './per/codec';
+import { OerCodec } from './oer/codec';
+import { XerCodec } from './xer/codec';
+import { JerCodec } from './jer/codec';
+import { GserCodec } from './gser/codec';
+import { Asn1Parser } from './parser';
+
+/**
+ * Arc names that may stand without their numbers at the top of OID value
+ * notation (X.660 A.2-A.4)
+ */
+const ROOT_ARCS: Record<string, number> = {
+  'itu-t': 0,
+  'ccitt': 0,
+  'iso': 1,
+  'joint-iso-itu-t': 2,
+  'joint-iso-ccitt': 2
+};
+
+const SECOND_ARCS: Record<number, Record<string, number>> = {
+  0: { 'recommendation': 0, 'question': 1, 'administration': 2, 'network-operator': 3, 'identified-organization': 4 },
+  1: { 'standard': 0, 'registration-authority': 1, 'member-body': 2, 'identified-organization': 3 }
+};
+
+/**
+ * Special REAL values of value notation
+ */
+const REAL_SPECIAL_VALUES: Record<string, number> = {
+  'PLUS-INFINITY': Infinity,
+  'MINUS-INFINITY': -Infinity,
+  'NOT-A-NUMBER': NaN
+};
+
+/**
+ * Tag class octet bits by the class keyword of a tag
+ */
+const TAG_CLASSES: Record<ParsedTag['tagClass'], number> = {
+  UNIVERSAL: BER.CLASS.UNIVERSAL,
+  APPLICATION: BER.CLASS.APPLICATION,
+  CONTEXT: BER.CLASS.CONTEXT_SPECIFIC,
+  PRIVATE: BER.CLASS.PRIVATE
+};
+
+/**
+ * Associated types of EXTERNAL, EMBEDDED PDV and CHARACTER STRING, compiled
+ * in place of those types. EXTERNAL is the form X.690 8.18 encodes; the
+ * tags of the other two are those AUTOMATIC TAGS gives them.
+ */
+const ASSOCIATED_TYPES = `Associated DEFINITIONS ::= BEGIN
+  EXTERNAL ::= [UNIVERSAL 8] IMPLICIT SEQUENCE {
+    direct-reference OBJECT IDENTIFIER OPTIONAL,
+    indirect-reference INTEGER OPTIONAL,
+    data-value-descriptor ObjectDescriptor OPTIONAL,
+    encoding CHOICE {
+      single-ASN1-type [0] EXPLICIT ANY,
+      octet-aligned [1] IMPLICIT OCTET STRING,
+      arbitrary [2] IMPLICIT BIT STRING
+    }
+  }
+
+  EMBEDDED-PDV ::= [UNIVERSAL 11] IMPLICIT SEQUENCE {
+    identification [0] EXPLICIT CHOICE {
+      syntaxes [0] IMPLICIT SEQUENCE { abstract [0] IMPLICIT OBJECT IDENTIFIER, transfer [1] IMPLICIT OBJECT IDENTIFIER },
+      syntax [1] IMPLICIT OBJECT IDENTIFIER,
+      presentation-context-id [2] IMPLICIT INTEGER,
+      context-negotiation [3] IMPLICIT SEQUENCE {
+        presentation-context-id [0] IMPLICIT INTEGER,
+        transfer-syntax [1] IMPLICIT OBJECT IDENTIFIER
+      },
+      transfer-syntax [4] IMPLICIT OBJECT IDENTIFIER,
+      fixed [5] IMPLICIT NULL
+    },
+    data-value [2] IMPLICIT OCTET STRING
+  }
+
+  CHARACTER-STRING ::= [UNIVERSAL 29] IMPLICIT SEQUENCE {
+    identification [0] EXPLICIT CHOICE {
+      syntaxes [0] IMPLICIT SEQUENCE { abstract [0] IMPLICIT OBJECT IDENTIFIER, transfer [1] IMPLICIT OBJECT IDENTIFIER },
+      syntax [1] IMPLICIT OBJECT IDENTIFIER,
+      presentation-context-id [2] IMPLICIT INTEGER,
+      context-negotiation [3] IMPLICIT SEQUENCE {
+        presentation-context-id [0] IMPLICIT INTEGER,
+        transfer-syntax [1] IMPLICIT OBJECT IDENTIFIER
+      },
+      transfer-syntax [4] IMPLICIT OBJECT IDENTIFIER,
+      fixed [5] IMPLICIT NULL
+    },
+    string-value [2] IMPLICIT OCTET STRING
+  }
+END`;
+
+let associatedTypes: Map<string, ParsedType> | undefined;
 
 export class Asn1Compiler {
   private modules: Map<string, Asn1Module> = new Map();
+  private parsedModules: Map<string, ParsedModule> = new Map();
   private globalTypes: Map<string, Asn1Type> = new Map();
-  private resolving: Set<string> = new Set(); // For circular reference detection
+  private resolving: Map<string, ReferenceType[]> = new Map(); // Assignments being compiled, with references to them
+  private resolvingValues: Set<string> = new Set(); // For circular value reference detection
+  private distinctTags: Array<SetType | ChoiceType> = []; // Types whose component tags are checked once references are resolved
+  private openTypes: Map<string, Asn1Type> = new Map(); // Shared by all open types, filled once types are compiled
+  private rules: EncodingRules;
+  private openTypeNames: Record<string, string>;
+
+  constructor(options: CompileOptions = {}) {
+    this.rules = options.codec === 'der' || options.codec === 'cer' ? options.codec : 'ber';
+    this.openTypeNames = options.openTypes ?? {};
+  }
 
   compile(parsedModules: ParsedModule[]): Asn1Specification {
     this.modules.clear();
+    this.parsedModules.clear();
     this.globalTypes.clear();
     this.resolving.clear();
+    this.resolvingValues.clear();
+    this.distinctTags = [];
+    this.openTypes = new Map();
 
     // First pass: create all modules and collect type names
     for (const parsedModule of parsedModules) {
       const module: Asn1Module = {
         name: parsedModule.name,
-        types: new Map()
+        types: new Map(),
+        values: new Map()
       };
       this.modules.set(parsedModule.name, module);
+      this.parsedModules.set(parsedModule.name, parsedModule);
     }
 
-    // Second pass: compile all types
     for (const parsedModule of parsedModules) {
-      const module = this.modules.get(parsedModule.name);
-      if (!module) {
-        throw new CompileError(`Module ${parsedModule.name} not found`);
-      }
+      this.checkImportsAndExports(parsedModule);
+    }
 
-      for (const [typeName, parsedType] of parsedModule.types) {
-        const compiledType = this.compileType(parsedType, parsedModule.name);
-        module.types.set(typeName, compiledType);
+    // Second pass: compile all types, referenced types first
+    for (const parsedModule of parsedModules) {
+      for (const typeName of parsedModule.types.keys()) {
+        const compiledType = this.compileAssignment(parsedModule.name, typeName);
         
         // Add to global types if unique
         if (this.globalTypes.has(typeName)) {
@@ -56,57 +197,437 @@ export class Asn1Compiler {
       }
     }
 
+    for (const type of this.distinctTags) {
+      this.checkDistinctTags(type);
+    }
+
+    // References through tags or constraints may leave a type without values
+    const finite = new Set<Asn1Type>();
+    for (const [moduleName, module] of this.modules) {
+      for (const [typeName, type] of module.types) {
+        if (!hasFiniteValue(type, new Set(), finite)) {
+          throw new CompileError(`Circular reference detected for type ${moduleName}.${typeName}: it has no finite value`);
+        }
+      }
+    }
+
+    for (const [governing, typeName] of Object.entries(this.openTypeNames)) {
+      const type = this.globalTypes.get(typeName);
+      if (!type) {
+        throw new CompileError(`Undefined type reference: ${typeName} in open types for '${governing}'`);
+      }
+      this.openTypes.set(governing, type);
+    }
+
+    // Third pass: compile value assignments
+    for (const parsedModule of parsedModules) {
+      for (const valueName of parsedModule.values.keys()) {
+        this.compileValueAssignment(parsedModule.name, valueName);
+      }
+    }
+
     return {
       modules: this.modules,
       types: this.globalTypes
     };
   }
 
-  private compileType(parsedType: ParsedType, moduleName: string): Asn1Type {
-    const typeName = parsedType.name || 'Anonymous';
-    const fullName = `${moduleName}.${typeName}`;
+  /**
+   * Compile a type assignment, once. Referring back to an assignment that is
+   * still being compiled yields a ReferenceType, resolved when it completes.
+   */
+  private compileAssignment(moduleName: string, typeName: string): Asn1Type {
+    const module = this.modules.get(moduleName)!;
+    const compiled = module.types.get(typeName);
+    if (compiled) {
+      return compiled;
+    }
 
-    // Detect circular references
-    if (this.resolving.has(fullName)) {
-      throw new CompileError(`Circular reference detected for type ${fullName}`);
+    const fullName = `${moduleName}.${typeName}`;
+    const references = this.resolving.get(fullName);
+    if (references) {
+      const reference = new ReferenceType(typeName);
+      reference.rules = this.rules;
+      references.push(reference);
+      return reference;
     }
 
+    this.resolving.set(fullName, []);
     try {
-      this.resolving.add(fullName);
-      return this.compileTypeInternal(parsedType, moduleName);
+      const parsedType = this.parsedModules.get(moduleName)!.types.get(typeName)!;
+      const compiledType = this.compileType(parsedType, moduleName);
+      for (const reference of this.resolving.get(fullName)!) {
+        // Only an assignment that is nothing but references refers to itself
+        if (reference === compiledType) {
+          throw new CompileError(`Circular reference detected for type ${fullName}`);
+        }
+        reference.resolve(compiledType);
+      }
+      module.types.set(typeName, compiledType);
+      return compiledType;
     } finally {
       this.resolving.delete(fullName);
     }
   }
 
+  /**
+   * The module and name of the type or value assignment a reference denotes:
+   * the current module first, then its imports
+   */
+  private findAssignment(
+    name: string,
+    moduleName: string,
+    kind: 'types' | 'values' = 'types'
+  ): [string, string] | undefined {
+    const module = this.parsedModules.get(moduleName);
+    if (module?.[kind].has(name)) {
+      return [moduleName, name];
+    }
+
+    const source = module?.imports?.get(name);
+    return source === undefined ? undefined : this.findImport(name, source, moduleName);
+  }
+
+  /**
+   * The assignment a symbol imported from a module denotes, following
+   * symbols the module itself imports and exports again
+   */
+  private findImport(
+    name: string,
+    sourceName: string,
+    moduleName: string,
+    visited: Set<string> = new Set()
+  ): [string, string] {
+    const source = this.parsedModules.get(sourceName);
+    if (!source) {
+      throw new CompileError(`Module ${sourceName} imported by ${moduleName} is not defined`);
+    }
+
+    const kind = symbolKind(name);
+    const reexported = source[kind].has(name) ? undefined : source.imports?.get(name);
+    if (!source[kind].has(name) && (reexported === undefined || visited.has(sourceName))) {
+      throw new CompileError(`${name} imported by ${moduleName} is not defined in module ${sourceName}`);
+    }
+    if (source.exports && !source.exports.includes(name)) {
+      throw new CompileError(`${name} imported by ${moduleName} is not exported by module ${sourceName}`);
+    }
+
+    if (reexported !== undefined) {
+      visited.add(sourceName);
+      return this.findImport(name, reexported, sourceName, visited);
+    }
+    return [sourceName, name];
+  }
+
+  /**
+   * Check that every imported symbol can be found and every exported
+   * symbol is defined or imported
+   */
+  private checkImportsAndExports(module: ParsedModule): void {
+    for (const [name, sourceName] of module.imports ?? []) {
+      this.findImport(name, sourceName, module.name);
+    }
+    for (const name of module.exports ?? []) {
+      if (!module[symbolKind(name)].has(name) && !module.imports?.has(name)) {
+        throw new CompileError(`${name} exported by module ${module.name} is not defined`);
+      }
+    }
+  }
+
+  /**
+   * Compile a value assignment, once
+   */
+  private compileValueAssignment(moduleName: string, valueName: string): any {
+    const module = this.modules.get(moduleName)!;
+    if (module.values.has(valueName)) {
+      return module.values.get(valueName);
+    }
+
+    const fullName = `${moduleName}.${valueName}`;
+    if (this.resolvingValues.has(fullName)) {
+      throw new CompileError(`Circular reference detected for value ${fullName}`);
+    }
+
+    try {
+      this.resolvingValues.add(fullName);
+      const assignment = this.parsedModules.get(moduleName)!.values.get(valueName)!;
+      const type = this.compileType(assignment.type, moduleName);
+      const value = this.compileValue(assignment.value, type, moduleName, valueName);
+      module.values.set(valueName, value);
+      return value;
+    } finally {
+      this.resolvingValues.delete(fullName);
+    }
+  }
+
+  /**
+   * Interpret parsed value notation for a compiled type. Names of value
+   * assignments stand for their values.
+   */
+  private compileValue(value: any, type: Asn1Type, moduleName: string, context: string): any {
+    if (type instanceof TaggedType) {
+      return this.compileValue(value, type.type, moduleName, context);
+    }
+    if (type instanceof ObjectIdentifierType) {
+      return this.compileObjectIdentifierValue(value, type, moduleName, context);
+    }
+    if (type instanceof RealType) {
+      return this.compileRealValue(value, type, moduleName, context);
+    }
+
+    // Values of DURATION start with 'P', which a value reference never does
+    if (
+      typeof value === 'string' &&
+      ((type instanceof UsefulTimeType && /^[0-9]/.test(value)) || (type instanceof TimeType && /^[0-9A-Z]/.test(value)))
+    ) {
+      try {
+        return type.fromText(value);
+      } catch {
+        throw new CompileError(`Invalid ${type.kind} value '${value}' in ${context}`);
+      }
+    }
+
+    if (isBinaryValue(value)) {
+      return this.compileBinaryValue(value, type, context);
+    }
+
+    if (isBracedValue(value)) {
+      // A list of named bits, such as DEFAULT { flagA, flagB }
+      if (type instanceof BitStringType && value.components.every(component => component.number === undefined)) {
+        return value.components.map(component => component.name!);
+      }
+      throw new CompileError(`Unsupported value notation for ${type.name} in ${context}`);
+    }
+
+    if (typeof value === 'string' && !(type instanceof EnumeratedType)) {
+      const assignment = this.findAssignment(value, moduleName, 'values');
+      if (assignment) {
+        return this.compileValueAssignment(assignment[0], assignment[1]);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * BIT STRING or OCTET STRING value for a bstring or hstring. Bits that do
+   * not fill the last octet of an OCTET STRING are padded with zeros.
+   */
+  private compileBinaryValue(value: ParsedBinaryValue, type: Asn1Type, context: string): any {
+    const binary =
+      value.radix === 'B'
+        ? value.digits
+        : Array.from(value.digits, digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join('');
+    const bits = fromBinary(binary);
+
+    if (type instanceof OctetStringType) {
+      return bits.data;
+    }
+    if (type instanceof BitStringType) {
+      try {
+        return type.fromBitString(bits);
+      } catch (error) {
+        throw new CompileError(`Invalid BIT STRING value in ${context}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    throw new CompileError(`Unsupported value notation '${value.digits}'${value.radix} for ${type.name} in ${context}`);
+  }
+
+  /**
+   * Number for a REAL value given as a number, in { mantissa, base, exponent }
+   * notation, as a special value such as PLUS-INFINITY, or as a value reference
+   */
+  private compileRealValue(value: any, type: RealType, moduleName: string, context: string): number {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return Number(value);
+    }
+
+    if (isBracedValue(value)) {
+      // Each name is followed by its number, as in { mantissa 314, base 10, exponent -2 }
+      const fields: Record<string, number> = {};
+      const components = value.components;
+      for (let i = 0; i + 1 < components.length; i += 2) {
+        const name = components[i]!.name;
+        const number = components[i + 1]!.number;
+        if (name !== undefined && components[i]!.number === undefined && number !== undefined) {
+          fields[name] = Number(number);
+        }
+      }
+
+      const { mantissa, base, exponent } = fields;
+      if (
+        components.length !== 6 ||
+        mantissa === undefined ||
+        exponent === undefined ||
+        (base !== 2 && base !== 10)
+      ) {
+        throw new CompileError(`Invalid REAL value for ${type.name} in ${context}: expected { mantissa, base 2 or 10, exponent }`);
+      }
+      // Decimal values are read from their text to avoid rounding twice
+      return base === 10 ? Number(`${mantissa}e${exponent}`) : mantissa * 2 ** exponent;
+    }
+
+    const special = REAL_SPECIAL_VALUES[value];
+    if (special !== undefined) {
+      return special;
+    }
+
+    const assignment = typeof value === 'string' ? this.findAssignment(value, moduleName, 'values') : undefined;
+    if (!assignment) {
+      throw new CompileError(`Invalid REAL value '${String(value)}' for ${type.name} in ${context}`);
+    }
+    return this.compileValueAssignment(assignment[0], assignment[1]);
+  }
+
+  /**
+   * Dotted form of an OBJECT IDENTIFIER or RELATIVE-OID value given in
+   * braced notation, as a dotted string, or as a value reference
+   */
+  private compileObjectIdentifierValue(
+    value: any,
+    type: ObjectIdentifierType,
+    moduleName: string,
+    context: string
+  ): string {
+    let arcs: string[];
+
+    if (isBracedValue(value)) {
+      arcs = [];
+      for (const component of value.components) {
+        if (component.number !== undefined) {
+          arcs.push(String(component.number));
+          continue;
+        }
+
+        const name = component.name!;
+        const assignment = this.findAssignment(name, moduleName, 'values');
+        if (assignment) {
+          // The first component may be an OID value to extend, later ones INTEGER values
+          const referenced = this.compileValueAssignment(assignment[0], assignment[1]);
+          if (arcs.length > 0 && typeof referenced !== 'number' && typeof referenced !== 'bigint') {
+            throw new CompileError(`${type.kind} component '${name}' in ${context} is not an INTEGER value`);
+          }
+          arcs.push(String(referenced));
+          continue;
+        }
+
+        const wellKnown = arcs.length === 0 ? ROOT_ARCS[name] : SECOND_ARCS[Number(arcs[0])]?.[name];
+        if (wellKnown === undefined || arcs.length > 1) {
+          throw new CompileError(`Unknown ${type.kind} component '${name}' in ${context}`);
+        }
+        arcs.push(String(wellKnown));
+      }
+    } else if (typeof value === 'string' && type.parseArcs(value) === undefined) {
+      const assignment = this.findAssignment(value, moduleName, 'values');
+      if (!assignment) {
+        throw new CompileError(`Invalid ${type.kind} value '${value}' in ${context}`);
+      }
+      arcs = [String(this.compileValueAssignment(assignment[0], assignment[1]))];
+    } else {
+      arcs = [String(value)];
+    }
+
+    const dotted = arcs.join('.');
+    if (type.parseArcs(dotted) === undefined) {
+      throw new CompileError(`Invalid ${type.kind} value '${dotted}' in ${context}`);
+    }
+    return dotted;
+  }
+
+  private compileType(parsedType: ParsedType, moduleName: string): Asn1Type {
+    const compiledType = this.compileTypeInternal(parsedType, moduleName);
+    if (compiledType instanceof BaseType) {
+      compiledType.rules = this.rules;
+    }
+    return compiledType;
+  }
+
   private compileTypeInternal(parsedType: ParsedType, moduleName: string): Asn1Type {
     const typeName = parsedType.name || 'Anonymous';
 
     switch (parsedType.type) {
       case 'INTEGER':
-        return this.compileIntegerType(typeName);
+        return this.compileIntegerType(typeName, parsedType);
       
       case 'BOOLEAN':
         return new BooleanType(typeName);
       
+      case 'BIT_STRING':
+        return this.compileBitStringType(typeName, parsedType);
+      
       case 'OCTET_STRING':
-        return this.compileOctetStringType(typeName);
+        return this.compileOctetStringType(typeName, parsedType);
       
       case 'NULL':
         return new NullType(typeName);
       
+      case 'REAL':
+        return new RealType(typeName);
+      
       case 'ENUMERATED':
-        return this.compileEnumeratedType(typeName, parsedType);
+        return this.compileEnumeratedType(typeName, parsedType, moduleName);
+      
+      case 'OBJECT_IDENTIFIER':
+        return new ObjectIdentifierType(typeName);
+      
+      case 'RELATIVE_OID':
+        return new ObjectIdentifierType(typeName, true);
+      
+      case 'RESTRICTED_STRING':
+        return this.compileRestrictedStringType(typeName, parsedType);
+      
+      case 'UTC_TIME':
+        return new UsefulTimeType(typeName);
+      
+      case 'GENERALIZED_TIME':
+        return new UsefulTimeType(typeName, true);
+      
+      case 'TIME':
+        return new TimeType(typeName, 'TIME', parsedType.constraints?.settings);
+      
+      case 'DATE':
+        return new TimeType(typeName, 'DATE');
+      
+      case 'TIME_OF_DAY':
+        return new TimeType(typeName, 'TIME-OF-DAY');
+      
+      case 'DATE_TIME':
+        return new TimeType(typeName, 'DATE-TIME');
+      
+      case 'DURATION':
+        return new TimeType(typeName, 'DURATION');
+      
+      case 'OBJECT_DESCRIPTOR': {
+        const descriptor = new RestrictedStringType(typeName, 'GraphicString');
+        descriptor.tag = BER.TAG.OBJECT_DESCRIPTOR;
+        return descriptor;
+      }
+      
+      case 'ANY':
+        return new AnyType(typeName, parsedType.constraints?.definedBy, this.openTypes);
+      
+      case 'EXTERNAL':
+        return this.compileAssociatedType(typeName, 'EXTERNAL');
+      
+      case 'EMBEDDED_PDV':
+        return this.compileAssociatedType(typeName, 'EMBEDDED-PDV');
+      
+      case 'CHARACTER_STRING':
+        return this.compileAssociatedType(typeName, 'CHARACTER-STRING');
       
       case 'SEQUENCE':
+      case 'SET':
         return this.compileSequenceType(typeName, parsedType, moduleName);
       
       case 'SEQUENCE_OF':
+      case 'SET_OF':
         return this.compileSequenceOfType(typeName, parsedType, moduleName);
       
       case 'CHOICE':
         return this.compileChoiceType(typeName, parsedType, moduleName);
       
+      case 'TAGGED':
+        return this.compileTaggedType(typeName, parsedType, moduleName);
+      
       case 'DEFINED':
         return this.resolveDefinedType(typeName, parsedType, moduleName);
       
@@ -115,32 +636,93 @@ export class Asn1Compiler {
     }
   }
 
-  private compileIntegerType(typeName: string): Asn1Type {
-    // For now, just create a basic integer type
-    // TODO: Add range constraint validation
-    return new IntegerType(typeName);
+  private compileIntegerType(typeName: string, parsedType: ParsedType): Asn1Type {
+    return new IntegerType(typeName, this.compileRange(parsedType.constraints));
   }
 
-  private compileOctetStringType(typeName: string): Asn1Type {
-    // For now, just create a basic octet string type
-    // TODO: Add size constraint validation
-    return new OctetStringType(typeName);
+  private compileBitStringType(typeName: string, parsedType: ParsedType): Asn1Type {
+    const namedBits: Array<[string, number]> = parsedType.constraints?.namedBits ?? [];
+    for (const [name, bit] of namedBits) {
+      if (bit < 0) {
+        throw new CompileError(`BIT STRING type ${typeName}: negative bit number for '${name}'`);
+      }
+    }
+    return new BitStringType(typeName, this.compileSize(parsedType.constraints), namedBits);
+  }
+
+  private compileOctetStringType(typeName: string, parsedType: ParsedType): Asn1Type {
+    return new OctetStringType(typeName, this.compileSize(parsedType.constraints));
+  }
+
+  private compileRestrictedStringType(typeName: string, parsedType: ParsedType): Asn1Type {
+    const kind = parsedType.constraints?.stringType;
+    if (!isRestrictedStringKind(kind)) {
+      throw new CompileError(`Unsupported character string type ${kind} for ${typeName}`);
+    }
+    return new RestrictedStringType(typeName, kind, this.compileSize(parsedType.constraints));
+  }
+
+  /**
+   * Effective value range of a range or single value constraint
+   */
+  private compileRange(constraints: any): ValueRange | undefined {
+    if (constraints?.range) {
+      return { min: constraints.range[0], max: constraints.range[1], extensible: constraints.extensible };
+    }
+    if (constraints?.value !== undefined) {
+      return { min: constraints.value, max: constraints.value, extensible: constraints.extensible };
+    }
+    return undefined;
   }
 
-  private compileEnumeratedType(typeName: string, parsedType: ParsedType): Asn1Type {
+  /**
+   * Effective SIZE constraint, extensible if either the size or the whole constraint is
+   */
+  private compileSize(constraints: any): ValueRange | undefined {
+    if (!constraints?.size) {
+      return undefined;
+    }
+    return {
+      min: constraints.size[0],
+      max: constraints.size[1],
+      extensible: constraints.sizeExtensible || constraints.extensible
+    };
+  }
+
+  private compileEnumeratedType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
     if (!parsedType.constraints?.values) {
       throw new CompileError(`ENUMERATED type ${typeName} missing values`);
     }
 
-    return new EnumeratedType(typeName, parsedType.constraints.values);
+    const values: Array<[string, number]> = parsedType.constraints.values;
+    if (!this.isExtensible(parsedType, moduleName)) {
+      return new EnumeratedType(typeName, values);
+    }
+
+    const additions: Array<[string, number]> = parsedType.constraints.additions ?? [];
+    additions.forEach(([name, number], index) => {
+      const previous = index > 0 ? additions[index - 1]![1] : undefined;
+      if (values.some(([, value]) => value === number) || (previous !== undefined && number <= previous)) {
+        throw new CompileError(`ENUMERATED type ${typeName}: extension addition '${name}' must have a new, increasing number`);
+      }
+    });
+    return new EnumeratedType(typeName, [...values, ...additions], additions);
+  }
+
+  /**
+   * Whether a SEQUENCE, SET, CHOICE or ENUMERATED type has an extension
+   * marker, which a module with EXTENSIBILITY IMPLIED gives all of them
+   */
+  private isExtensible(parsedType: ParsedType, moduleName: string): boolean {
+    return parsedType.extensible === true || this.parsedModules.get(moduleName)?.extensibilityImplied === true;
   }
 
   private compileSequenceType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
     if (!parsedType.members) {
-      throw new CompileError(`SEQUENCE type ${typeName} missing members`);
+      throw new CompileError(`${parsedType.type} type ${typeName} missing members`);
     }
 
-    const members = parsedType.members.map(member => {
+    const members = this.automaticTags(parsedType.members, moduleName).map(member => {
       const memberObj: any = {
         name: member.name,
         type: this.compileType(member, moduleName)
@@ -149,24 +731,45 @@ export class Asn1Compiler {
       if (member.optional !== undefined) {
         memberObj.optional = member.optional;
       }
+
+      if (member.addition !== undefined) {
+        memberObj.addition = member.addition;
+        memberObj.group = member.group;
+      }
       
       if (member.default !== undefined) {
-        memberObj.defaultValue = member.default;
+        memberObj.defaultValue = this.compileValue(member.default, memberObj.type, moduleName, `${typeName}.${member.name}`);
       }
       
       return memberObj;
     });
 
-    return new SequenceType(typeName, members);
+    parsedType.members.forEach((member, index) => {
+      const definedBy = governingMember(member);
+      if (definedBy !== undefined && !members.slice(0, index).some(previous => previous.name === definedBy)) {
+        throw new CompileError(`${parsedType.type} type ${typeName}: member '${member.name}' is defined by unknown member '${definedBy}'`);
+      }
+    });
+
+    const extensible = this.isExtensible(parsedType, moduleName);
+    if (parsedType.type === 'SET') {
+      const set = new SetType(typeName, members, extensible);
+      this.distinctTags.push(set);
+      return set;
+    }
+    return new SequenceType(typeName, members, extensible, parsedType.extensionEnd);
   }
 
   private compileSequenceOfType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
     if (!parsedType.elementType) {
-      throw new CompileError(`SEQUENCE OF type ${typeName} missing element type`);
+      throw new CompileError(`${parsedType.type.replace('_', ' ')} type ${typeName} missing element type`);
     }
 
     const elementType = this.compileType(parsedType.elementType, moduleName);
-    return new SequenceOfType(typeName, elementType);
+    const size = this.compileSize(parsedType.constraints);
+    return parsedType.type === 'SET_OF'
+      ? new SetOfType(typeName, elementType, size)
+      : new SequenceOfType(typeName, elementType, size);
   }
 
   private compileChoiceType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
@@ -174,20 +777,102 @@ export class Asn1Compiler {
       throw new CompileError(`CHOICE type ${typeName} missing choices`);
     }
 
-    const choices = parsedType.choices.map(choice => {
-      const choiceObj: any = {
-        name: choice.name,
-        type: this.compileType(choice, moduleName)
-      };
-      
-      if (choice.tag !== undefined) {
-        choiceObj.tag = choice.tag;
-      }
-      
-      return choiceObj;
-    });
+    const choices = this.automaticTags(parsedType.choices, moduleName).map(choice => ({
+      name: choice.name,
+      type: this.compileType(choice, moduleName),
+      addition: choice.addition
+    }));
+
+    const choice = new ChoiceType(typeName, choices, this.isExtensible(parsedType, moduleName));
+    this.distinctTags.push(choice);
+    return choice;
+  }
+
+  /**
+   * Tag the components of a SEQUENCE, SET or CHOICE [0], [1], ... in a
+   * module with AUTOMATIC TAGS, unless one of its root components is tagged
+   * already. Root components are numbered first and extension additions
+   * after them, so that adding extensions keeps the tags of the root.
+   */
+  private automaticTags(components: ParsedType[], moduleName: string): ParsedType[] {
+    if (
+      this.parsedModules.get(moduleName)?.tagDefault !== 'AUTOMATIC' ||
+      components.some(component => component.addition === undefined && component.type === 'TAGGED')
+    ) {
+      return components;
+    }
+
+    const numbered = [
+      ...components.filter(component => component.addition === undefined),
+      ...components.filter(component => component.addition !== undefined)
+    ];
+    return components.map(component => ({
+      name: component.name,
+      type: 'TAGGED',
+      tag: { tagClass: 'CONTEXT', number: numbered.indexOf(component) },
+      elementType: component,
+      optional: component.optional,
+      default: component.default,
+      addition: component.addition,
+      group: component.group
+    }));
+  }
 
-    return new ChoiceType(typeName, choices);
+  /**
+   * Compile a tagged type. Tags without IMPLICIT or EXPLICIT follow the tag
+   * default of the module, which AUTOMATIC TAGS makes implicit.
+   */
+  private compileTaggedType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
+    const { tag, elementType } = parsedType;
+    if (!tag || !elementType) {
+      throw new CompileError(`Tagged type ${typeName} missing type`);
+    }
+
+    const type = this.compileType({ ...elementType, name: parsedType.name }, moduleName);
+    if (tag.mode === 'IMPLICIT' && (type instanceof ChoiceType || type instanceof AnyType)) {
+      throw new CompileError(`Tagged type ${typeName}: CHOICE and open types cannot be tagged implicitly`);
+    }
+
+    const tagDefault = this.parsedModules.get(moduleName)?.tagDefault ?? 'EXPLICIT';
+    const implicit = tag.mode !== undefined ? tag.mode === 'IMPLICIT' : tagDefault !== 'EXPLICIT';
+    return new TaggedType(typeName, type, tag.number, TAG_CLASSES[tag.tagClass], implicit);
+  }
+
+  /**
+   * Compile the associated SEQUENCE type of EXTERNAL, EMBEDDED PDV or
+   * CHARACTER STRING, tagged as the type it stands for
+   */
+  private compileAssociatedType(typeName: string, associatedName: string): Asn1Type {
+    if (!associatedTypes) {
+      associatedTypes = new Asn1Parser().parse(ASSOCIATED_TYPES)[0]!.types;
+    }
+
+    return this.compileType({ ...associatedTypes.get(associatedName)!, name: typeName }, 'Associated');
+  }
+
+  /**
+   * Check that the members of a SET or the alternatives of a CHOICE can be
+   * told apart by their tags, class included
+   */
+  private checkDistinctTags(type: SetType | ChoiceType): void {
+    const components = type instanceof SetType
+      ? type.members
+      : Array.from(type.choices, ([name, choice]) => ({ name, type: choice.type }));
+    const description = type instanceof SetType ? 'SET type' : 'CHOICE type';
+    const plural = type instanceof SetType ? 'members' : 'alternatives';
+
+    const owners = new Map<number, string>();
+    for (const component of components) {
+      for (const key of outermostTags(component.type)) {
+        const owner = owners.get(key);
+        if (owner !== undefined) {
+          throw new CompileError(
+            `${description} ${type.name}: ${plural} '${owner}' and '${component.name}' have the same tag ${formatTag(key)}`
+          );
+        }
+        owners.set(key, component.name);
+      }
+    }
   }
 
   private resolveDefinedType(typeName: string, parsedType: ParsedType, moduleName: string): Asn1Type {
@@ -196,49 +881,164 @@ export class Asn1Compiler {
       throw new CompileError(`Defined type ${typeName} missing reference`);
     }
 
-    // First try to find in current module
-    const currentModule = this.modules.get(moduleName);
-    if (currentModule) {
-      const typeInModule = currentModule.types.get(definedTypeName);
-      if (typeInModule) {
-        return typeInModule;
-      }
-    }
-
-    // Then try global types
-    const globalType = this.globalTypes.get(definedTypeName);
-    if (globalType) {
-      return globalType;
+    const assignment = this.findAssignment(definedTypeName, moduleName);
+    if (assignment) {
+      return this.compileAssignment(assignment[0], assignment[1]);
     }
 
-    // Try to find the parsed type and compile it
-    // Note: This is simplified - a full implementation would need better resolution
     throw new CompileError(`Undefined type reference: ${definedTypeName} in ${typeName}`);
   }
 }
 
+/**
+ * The member an ANY DEFINED BY member names, if it is one
+ */
+function governingMember(member: ParsedType): string | undefined {
+  while (member.type === 'TAGGED' && member.elementType) {
+    member = member.elementType;
+  }
+  return member.type === 'ANY' ? member.constraints?.definedBy : undefined;
+}
+
+/**
+ * Where a symbol is assigned: type references start with an uppercase
+ * letter, value references with a lowercase one
+ */
+function symbolKind(name: string): 'types' | 'values' {
+  return /^[a-z]/.test(name) ? 'values' : 'types';
+}
+
+/**
+ * Whether a type has a value that does not contain itself. Types on the
+ * path being checked are assumed to have none; types found to have one are
+ * remembered in finite.
+ */
+function hasFiniteValue(type: Asn1Type, visiting: Set<Asn1Type>, finite: Set<Asn1Type>): boolean {
+  if (finite.has(type)) {
+    return true;
+  }
+  if (visiting.has(type)) {
+    return false;
+  }
+
+  visiting.add(type);
+  let result = true;
+  if (type instanceof ReferenceType || type instanceof TaggedType) {
+    result = hasFiniteValue(type.type, visiting, finite);
+  } else if (type instanceof SequenceType) {
+    result = type.members.every(
+      member =>
+        member.optional ||
+        member.defaultValue !== undefined ||
+        member.addition !== undefined ||
+        hasFiniteValue(member.type, visiting, finite)
+    );
+  } else if (type instanceof SequenceOfType) {
+    result = Number(type.size?.min ?? 0) === 0 || hasFiniteValue(type.elementType, visiting, finite);
+  } else if (type instanceof ChoiceType) {
+    result = Array.from(type.choices.values()).some(choice => hasFiniteValue(choice.type, visiting, finite));
+  }
+  visiting.delete(type);
+
+  if (result) {
+    finite.add(type);
+  }
+  return result;
+}
+
+/**
+ * Whether a parsed value is a bstring or hstring
+ */
+function isBinaryValue(value: any): value is ParsedBinaryValue {
+  return typeof value === 'object' && value !== null && typeof value.digits === 'string';
+}
+
+/**
+ * Whether a parsed value is braced value notation
+ */
+function isBracedValue(value: any): value is ParsedBracedValue {
+  return typeof value === 'object' && value !== null && Array.isArray(value.components);
+}
+
+/**
+ * Create the codec for the encoding rules selected in the compile options
+ */
+function createCodec(options: CompileOptions): Codec {
+  const codec = options.codec ?? 'ber';
+
+  switch (codec) {
+    case 'ber':
+    case 'der':
+    case 'cer':
+      return new BerCodec();
+
+    case 'per':
+      return new PerCodec(true);
+
+    case 'uper':
+      return new PerCodec(false);
+
+    case 'oer':
+      return new OerCodec(false);
+
+    case 'coer':
+      return new OerCodec(true);
+
+    case 'xer':
+      return new XerCodec();
+
+    case 'jer':
+      return new JerCodec();
+
+    case 'gser':
+      return new GserCodec();
+
+    default:
+      throw new CompileError(`Unsupported codec: ${codec}`);
+  }
+}
+
 /**
  * Specification class that provides the main API
  */
 export class Specification {
   private modules: Map<string, Asn1Module>;
   private types: Map<string, Asn1Type>;
+  private codec: Codec;
+  private codecName: string;
 
-  constructor(specification: Asn1Specification) {
+  constructor(specification: Asn1Specification, options: CompileOptions = {}) {
     this.modules = specification.modules;
     this.types = specification.types;
+    this.codec = createCodec(options);
+    this.codecName = options.codec ?? 'ber';
   }
 
   /**
-   * Encode a value using the specified type
+   * Encode a value using the specified type. The options select non-default
+   * BER output forms and are only accepted by the BER codec.
    */
-  encode(typeName: string, value: any): Uint8Array {
+  encode(typeName: string, value: any, options: EncodeOptions = {}): Uint8Array {
     const type = this.types.get(typeName);
     if (!type) {
       throw new CompileError(`Type '${typeName}' not found`);
     }
 
-    return type.encode(value);
+    const { indefiniteLength, lengthOctets, segmentSize, realBase } = options;
+    if (indefiniteLength === undefined && lengthOctets === undefined && segmentSize === undefined && realBase === undefined) {
+      return this.codec.encode(type, value);
+    }
+    if (this.codecName !== 'ber') {
+      throw new EncodeError(`Encode options are not supported by the ${this.codecName.toUpperCase()} codec`);
+    }
+    if (lengthOctets !== undefined && (!Number.isInteger(lengthOctets) || lengthOctets < 1 || lengthOctets > 126)) {
+      throw new EncodeError('Length octets must be an integer from 1 to 126');
+    }
+    if (realBase !== undefined && ![2, 8, 10, 16].includes(realBase)) {
+      throw new EncodeError('REAL base must be 2, 8, 10 or 16');
+    }
+
+    return this.codec.encode(type, value, options);
   }
 
   /**
@@ -250,8 +1050,7 @@ export class Specification {
       throw new CompileError(`Type '${typeName}' not found`);
     }
 
-    const result = type.decode(data, 0);
-    return result.value;
+    return this.codec.decode(type, data);
   }
 
   /**
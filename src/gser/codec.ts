@@ -0,0 +1,344 @@
+/**
+ * GSER (Generic String Encoding Rules, RFC 3641) codec
+ */
+
+import { Asn1Type, Codec, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import { toSafeNumber } from '../ber/encoding';
+import {
+  IntegerType,
+  BooleanType,
+  BitStringType,
+  OctetStringType,
+  NullType,
+  RealType,
+  ObjectIdentifierType,
+  RestrictedStringType,
+  UsefulTimeType,
+  TimeType,
+  EnumeratedType,
+  AnyType
+} from '../ber/types';
+import {
+  SequenceType,
+  SequenceMember,
+  SequenceOfType,
+  SetType,
+  ChoiceType,
+  ReferenceType,
+  TaggedType,
+  memberType
+} from '../ber/complex-types';
+import { toHex, fromHex, toBinary, fromBinary } from '../xer/encoding';
+import { GserReader } from './encoding';
+
+/**
+ * Special REAL values. NOT-A-NUMBER and -0 follow the ASN.1
+ * value notation, as RFC 3641 has no form for them.
+ */
+const REAL_SPECIAL_VALUES: Array<[string, number]> = [
+  ['PLUS-INFINITY', Infinity],
+  ['MINUS-INFINITY', -Infinity],
+  ['NOT-A-NUMBER', NaN],
+  ['-0', -0]
+];
+
+/**
+ * GSER codec producing UTF-8 text such as `{ messageId 123, status 0 }`
+ */
+export class GserCodec implements Codec {
+  encode(type: Asn1Type, value: any): Uint8Array {
+    return new TextEncoder().encode(this.encodeValue(type, value));
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      throw new DecodeError('GSER: data is not valid UTF-8', 0);
+    }
+
+    const reader = new GserReader(text);
+    const value = this.decodeValue(reader, type);
+    reader.expectEnd();
+    return value;
+  }
+
+  private encodeValue(type: Asn1Type, value: any): string {
+    if (type instanceof IntegerType) {
+      if (typeof value !== 'number' && typeof value !== 'bigint') {
+        throw new EncodeError(`INTEGER ${type.name}: expected number or bigint, got ${typeof value}`);
+      }
+      if (typeof value === 'number' && !Number.isInteger(value)) {
+        throw new EncodeError(`INTEGER ${type.name}: value must be an integer`);
+      }
+      return BigInt(value).toString();
+    } else if (type instanceof BooleanType) {
+      if (typeof value !== 'boolean') {
+        throw new EncodeError(`BOOLEAN ${type.name}: expected boolean, got ${typeof value}`);
+      }
+      return value ? 'TRUE' : 'FALSE';
+    } else if (type instanceof NullType) {
+      if (value !== null && value !== undefined) {
+        throw new EncodeError(`NULL ${type.name}: expected null or undefined, got ${typeof value}`);
+      }
+      return 'NULL';
+    } else if (type instanceof RealType) {
+      if (typeof value !== 'number') {
+        throw new EncodeError(`REAL ${type.name}: expected number, got ${typeof value}`);
+      }
+      const special = REAL_SPECIAL_VALUES.find(([, number]) => Object.is(number, value));
+      if (special) {
+        return special[0];
+      }
+      return value === 0 ? '0' : value.toExponential().replace('e+', 'E').replace('e', 'E');
+    } else if (type instanceof BitStringType) {
+      const bits = type.toBitString(value);
+      return type.namedBits.length > 0 ? this.braces(type.fromBitString(bits) as string[]) : `'${toBinary(bits)}'B`;
+    } else if (type instanceof OctetStringType) {
+      return `'${toHex(type.toBytes(value))}'H`;
+    } else if (type instanceof AnyType) {
+      // Encodings of unknown open types are sent as hstrings, like OCTET STRINGs
+      return `'${toHex(type.toBytes(value))}'H`;
+    } else if (type instanceof ObjectIdentifierType) {
+      type.toContents(value);
+      return value;
+    } else if (type instanceof RestrictedStringType) {
+      type.toCodePoints(value);
+      return `"${value.replace(/"/g, '""')}"`;
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      return `"${type.toText(value)}"`;
+    } else if (type instanceof EnumeratedType) {
+      return type.toIdentifier(value);
+    } else if (type instanceof SequenceType) {
+      return this.encodeSequence(type, value);
+    } else if (type instanceof SequenceOfType) {
+      if (!Array.isArray(value)) {
+        throw new EncodeError(`${type.kind} ${type.name}: expected array, got ${typeof value}`);
+      }
+      return this.braces(value.map(element => this.encodeValue(type.elementType, element)));
+    } else if (type instanceof ChoiceType) {
+      return this.encodeChoice(type, value);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.encodeValue(type.type, value);
+    }
+    throw new EncodeError(`GSER: unsupported type ${type.name}`);
+  }
+
+  private decodeValue(reader: GserReader, type: Asn1Type): any {
+    const offset = reader.offset;
+
+    if (type instanceof IntegerType) {
+      return toSafeNumber(BigInt(reader.readNumber()));
+    } else if (type instanceof BooleanType) {
+      const keyword = reader.readKeyword();
+      if (keyword !== 'TRUE' && keyword !== 'FALSE') {
+        throw new DecodeError(`BOOLEAN ${type.name}: expected TRUE or FALSE`, offset);
+      }
+      return keyword === 'TRUE';
+    } else if (type instanceof NullType) {
+      if (reader.readKeyword() !== 'NULL') {
+        throw new DecodeError(`NULL ${type.name}: expected NULL`, offset);
+      }
+      return null;
+    } else if (type instanceof RealType) {
+      if (!reader.check('P') && !reader.check('M') && !reader.check('N')) {
+        return Number(reader.readReal());
+      }
+      const keyword = reader.readKeyword();
+      const special = REAL_SPECIAL_VALUES.find(([name]) => name === keyword);
+      if (!special) {
+        throw new DecodeError(`REAL ${type.name}: unknown value '${keyword}'`, offset);
+      }
+      return special[1];
+    } else if (type instanceof BitStringType) {
+      return this.decodeBitString(reader, type);
+    } else if (type instanceof OctetStringType || type instanceof AnyType) {
+      return fromHex(reader.readHexString(), offset);
+    } else if (type instanceof ObjectIdentifierType) {
+      const text = reader.readObjectIdentifier();
+      if (type.parseArcs(text) === undefined) {
+        throw new DecodeError(`${type.kind} ${type.name}: invalid value '${text}'`, offset);
+      }
+      return text;
+    } else if (type instanceof RestrictedStringType) {
+      return reader.readString();
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      return type.fromText(reader.readString(), offset);
+    } else if (type instanceof EnumeratedType) {
+      const identifier = reader.readIdentifier();
+      if (!type.values.some(([name]) => name === identifier)) {
+        if (type.extensible) {
+          return { [UNKNOWN_EXTENSIONS]: identifier };
+        }
+        throw new DecodeError(`ENUMERATED ${type.name}: unknown value '${identifier}'`, offset);
+      }
+      return identifier;
+    } else if (type instanceof SequenceType) {
+      return this.decodeSequence(reader, type);
+    } else if (type instanceof SequenceOfType) {
+      const result: any[] = [];
+      this.decodeBraces(reader, () => result.push(this.decodeValue(reader, type.elementType)));
+      return result;
+    } else if (type instanceof ChoiceType) {
+      const choiceName = reader.readIdentifier();
+      const choice = type.choices.get(choiceName);
+      if (!choice && type.extensible) {
+        reader.expect(':');
+        reader.skipValue();
+        return { [UNKNOWN_EXTENSIONS]: choiceName };
+      }
+      if (!choice) {
+        throw new DecodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`, offset);
+      }
+      reader.expect(':');
+      return { [choiceName]: this.decodeValue(reader, choice.type) };
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.decodeValue(reader, type.type);
+    }
+    throw new DecodeError(`GSER: unsupported type ${type.name}`, offset);
+  }
+
+  /**
+   * A bstring, an hstring, or for types with named bits a list of names
+   */
+  private decodeBitString(reader: GserReader, type: BitStringType): any {
+    const offset = reader.offset;
+
+    if (type.namedBits.length > 0 && reader.check('{')) {
+      const names: string[] = [];
+      this.decodeBraces(reader, () => {
+        const nameOffset = reader.offset;
+        const name = reader.readIdentifier();
+        if (!type.namedBits.some(([identifier]) => identifier === name)) {
+          throw new DecodeError(`BIT STRING ${type.name}: unknown named bit '${name}'`, nameOffset);
+        }
+        names.push(name);
+      });
+      return type.fromBitString(type.toBitString(names), offset);
+    }
+
+    const { digits, radix } = reader.readBitString();
+    const bits = radix === 'B'
+      ? fromBinary(digits, offset)
+      : { data: fromHex(digits.length % 2 === 0 ? digits : `${digits}0`, offset), length: digits.length * 4 };
+    return type.fromBitString(type.toBitString(bits), offset);
+  }
+
+  private encodeSequence(type: SequenceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${type.kind} ${type.name}: expected object, got ${typeof value}`);
+    }
+
+    const members: string[] = [];
+    for (const member of type.members) {
+      const memberValue = value[member.name];
+      if (memberValue === undefined || memberValue === null) {
+        if (member.optional || member.defaultValue !== undefined || member.addition !== undefined) {
+          continue;
+        }
+        throw new EncodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+      }
+      members.push(`${member.name} ${this.encodeValue(memberType(member, value), memberValue)}`);
+    }
+    return this.braces(members);
+  }
+
+  private decodeSequence(reader: GserReader, type: SequenceType): any {
+    const result: any = {};
+    let index = 0;
+
+    this.decodeBraces(reader, () => {
+      const offset = reader.offset;
+      const name = reader.readIdentifier();
+
+      // Extensible types ignore the members of unknown extension additions
+      if (type.extensible && !type.members.some(member => member.name === name)) {
+        reader.skipValue();
+        return;
+      }
+
+      // SET members may appear in any order
+      if (type instanceof SetType) {
+        const member = type.members.find(candidate => candidate.name === name);
+        if (!member || name in result) {
+          throw new DecodeError(`SET ${type.name}: ${member ? 'duplicate' : 'unexpected'} member '${name}'`, offset);
+        }
+        result[name] = this.decodeValue(reader, memberType(member, result));
+        return;
+      }
+
+      // Members appear in definition order; skipped ones must be OPTIONAL or DEFAULT
+      while (index < type.members.length && type.members[index]!.name !== name) {
+        this.fillAbsentMember(type, type.members[index]!, result, offset);
+        index++;
+      }
+      const member = type.members[index];
+      if (!member) {
+        throw new DecodeError(`${type.kind} ${type.name}: unexpected member '${name}'`, offset);
+      }
+      result[member.name] = this.decodeValue(reader, memberType(member, result));
+      index++;
+    });
+
+    for (const member of type.members.slice(index)) {
+      if (!(member.name in result)) {
+        this.fillAbsentMember(type, member, result, reader.offset);
+      }
+    }
+    return result;
+  }
+
+  private fillAbsentMember(type: SequenceType, member: SequenceMember, result: any, offset: number): void {
+    if (member.defaultValue !== undefined) {
+      result[member.name] = member.defaultValue;
+    } else if (!member.optional && member.addition === undefined) {
+      throw new DecodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`, offset);
+    }
+  }
+
+  private encodeChoice(type: ChoiceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with single property, got ${typeof value}`);
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length !== 1) {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one property, got ${keys.length}`);
+    }
+
+    const choiceName = keys[0]!;
+    if (choiceName === UNKNOWN_EXTENSIONS) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown extension alternatives cannot be encoded in GSER`);
+    }
+    const choice = type.choices.get(choiceName);
+    if (!choice) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+    return `${choiceName} : ${this.encodeValue(choice.type, value[choiceName])}`;
+  }
+
+  /**
+   * A brace-enclosed, comma-separated list: `{ a, b }`, or `{ }` when empty
+   */
+  private braces(items: string[]): string {
+    return items.length > 0 ? `{ ${items.join(', ')} }` : '{ }';
+  }
+
+  private decodeBraces(reader: GserReader, readItem: () => void): void {
+    reader.expect('{');
+    if (reader.check('}')) {
+      reader.expect('}');
+      return;
+    }
+
+    while (true) {
+      readItem();
+      if (reader.check('}')) {
+        reader.expect('}');
+        return;
+      }
+      reader.expect(',');
+    }
+  }
+}
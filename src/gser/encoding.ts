@@ -0,0 +1,172 @@
+/**
+ * GSER (Generic String Encoding Rules, RFC 3641) text utilities
+ */
+
+import { DecodeError } from '../types';
+
+const IDENTIFIER_PATTERN = /[a-z][A-Za-z0-9]*(?:-[A-Za-z0-9]+)*/y;
+const NUMBER_PATTERN = /-?(?:0|[1-9][0-9]*)/y;
+const REAL_PATTERN = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]*)?(?:E-?(?:0|[1-9][0-9]*))?/y;
+const OID_PATTERN = /[0-9]+(?:\.[0-9]+)*/y;
+const STRING_PATTERN = /"((?:[^"]|"")*)"/y;
+const HSTRING_PATTERN = /'([0-9A-Fa-f]*)'H/y;
+const BIT_STRING_PATTERN = /'([0-9A-Fa-f]*)'([BH])/y;
+
+/**
+ * Reads GSER text. Spaces are allowed around every separator.
+ */
+export class GserReader {
+  private input: string;
+  private position: number = 0;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  get offset(): number {
+    return this.position;
+  }
+
+  /**
+   * Whether the next non-space character is the given one, without consuming it
+   */
+  check(char: string): boolean {
+    this.skipSpace();
+    return this.input[this.position] === char;
+  }
+
+  expect(char: string): void {
+    if (!this.check(char)) {
+      throw new DecodeError(`GSER: expected '${char}'`, this.position);
+    }
+    this.position++;
+  }
+
+  readIdentifier(): string {
+    return this.read(IDENTIFIER_PATTERN, 'identifier');
+  }
+
+  readNumber(): string {
+    return this.read(NUMBER_PATTERN, 'number');
+  }
+
+  /**
+   * Read a realnumber such as 3.14E0
+   */
+  readReal(): string {
+    return this.read(REAL_PATTERN, 'real number');
+  }
+
+  /**
+   * Read the dotted numbers of an OBJECT IDENTIFIER or RELATIVE-OID
+   */
+  readObjectIdentifier(): string {
+    return this.read(OID_PATTERN, 'object identifier');
+  }
+
+  /**
+   * Read a quoted StringValue, in which "" stands for a quotation mark
+   */
+  readString(): string {
+    this.skipSpace();
+    STRING_PATTERN.lastIndex = this.position;
+    const match = STRING_PATTERN.exec(this.input);
+    if (!match) {
+      throw new DecodeError('GSER: expected quoted string', this.position);
+    }
+    this.position += match[0].length;
+    return match[1]!.replace(/""/g, '"');
+  }
+
+  /**
+   * Read a keyword such as TRUE or NULL
+   */
+  readKeyword(): string {
+    return this.read(/[A-Z][A-Z0-9-]*/y, 'keyword');
+  }
+
+  /**
+   * Read the hexadecimal digits of an hstring ('0A0B'H)
+   */
+  readHexString(): string {
+    this.skipSpace();
+    HSTRING_PATTERN.lastIndex = this.position;
+    const match = HSTRING_PATTERN.exec(this.input);
+    if (!match) {
+      throw new DecodeError("GSER: expected hstring '...'H", this.position);
+    }
+    this.position += match[0].length;
+    return match[1]!;
+  }
+
+  /**
+   * Read a bstring ('0101'B) or an hstring, as its digits and radix letter
+   */
+  readBitString(): { digits: string; radix: string } {
+    this.skipSpace();
+    BIT_STRING_PATTERN.lastIndex = this.position;
+    const match = BIT_STRING_PATTERN.exec(this.input);
+    if (!match) {
+      throw new DecodeError("GSER: expected bstring '...'B or hstring '...'H", this.position);
+    }
+    this.position += match[0].length;
+    return { digits: match[1]!, radix: match[2]! };
+  }
+
+  /**
+   * Skip a value of unknown type, up to the comma or closing brace after it
+   */
+  skipValue(): void {
+    this.skipSpace();
+    const start = this.position;
+    let depth = 0;
+
+    while (this.position < this.input.length) {
+      const char = this.input[this.position];
+      if (char === '"') {
+        this.readString();
+        continue;
+      }
+      if (depth === 0 && (char === ',' || char === '}')) {
+        break;
+      }
+      if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      }
+      this.position++;
+    }
+
+    if (this.position === start) {
+      throw new DecodeError('GSER: expected value', this.position);
+    }
+  }
+
+  /**
+   * Check that only trailing spaces remain
+   */
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.position < this.input.length) {
+      throw new DecodeError('GSER: unexpected content after the value', this.position);
+    }
+  }
+
+  private read(pattern: RegExp, kind: string): string {
+    this.skipSpace();
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.input);
+    if (!match) {
+      throw new DecodeError(`GSER: expected ${kind}`, this.position);
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace(): void {
+    while (this.input[this.position] === ' ') {
+      this.position++;
+    }
+  }
+}
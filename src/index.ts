@@ -28,9 +28,6 @@ export { Specification } from './compiler';
  * ```
  */
 export function compileFiles(filenames: string[], options: CompileOptions = {}): Specification {
-  // Suppress unused parameter warning for now - options will be used in future versions
-  void options;
-  
   if (filenames.length === 0) {
     throw new CompileError('No files provided');
   }
@@ -50,7 +47,7 @@ export function compileFiles(filenames: string[], options: CompileOptions = {}):
     }
   }
 
-  return compileString(contents.join('\n\n'));
+  return compileString(contents.join('\n\n'), options);
 }
 
 /**
@@ -61,17 +58,14 @@ export function compileFiles(filenames: string[], options: CompileOptions = {}):
  * @returns Compiled specification object
  */
 export function compileString(content: string, options: CompileOptions = {}): Specification {
-  // Suppress unused parameter warning for now - options will be used in future versions
-  void options;
-  
   try {
     const parser = new Asn1Parser();
     const parsedModules = parser.parse(content);
     
-    const compiler = new Asn1Compiler();
+    const compiler = new Asn1Compiler(options);
     const specification = compiler.compile(parsedModules);
     
-    return new Specification(specification);
+    return new Specification(specification, options);
   } catch (error) {
     if (error instanceof CompileError) {
       throw error;
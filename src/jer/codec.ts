@@ -0,0 +1,322 @@
+/**
+ * JER (JSON Encoding Rules, X.697) codec
+ */
+
+import { Asn1Type, Codec, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import { toSafeNumber } from '../ber/encoding';
+import {
+  IntegerType,
+  BooleanType,
+  BitStringType,
+  OctetStringType,
+  NullType,
+  RealType,
+  ObjectIdentifierType,
+  RestrictedStringType,
+  UsefulTimeType,
+  TimeType,
+  EnumeratedType,
+  AnyType
+} from '../ber/types';
+import { SequenceType, SequenceOfType, ChoiceType, ReferenceType, TaggedType, memberType } from '../ber/complex-types';
+import { toHex, fromHex } from '../xer/encoding';
+import { JsonValue, JsonNumber, parseJson } from './encoding';
+
+/**
+ * REAL values written as JSON strings
+ */
+const REAL_SPECIAL_VALUES: Array<[string, number]> = [
+  ['INF', Infinity],
+  ['-INF', -Infinity],
+  ['NaN', NaN],
+  ['-0', -0]
+];
+
+/**
+ * JER codec producing compact UTF-8 JSON text. INTEGERs are written as
+ * exact JSON numbers of any magnitude and decode to bigint beyond 2^53.
+ */
+export class JerCodec implements Codec {
+  encode(type: Asn1Type, value: any): Uint8Array {
+    return new TextEncoder().encode(this.encodeValue(type, value));
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      throw new DecodeError('JER: data is not valid UTF-8', 0);
+    }
+    return this.decodeValue(parseJson(text), type);
+  }
+
+  private encodeValue(type: Asn1Type, value: any): string {
+    if (type instanceof IntegerType) {
+      if (typeof value !== 'number' && typeof value !== 'bigint') {
+        throw new EncodeError(`INTEGER ${type.name}: expected number or bigint, got ${typeof value}`);
+      }
+      if (typeof value === 'number' && !Number.isInteger(value)) {
+        throw new EncodeError(`INTEGER ${type.name}: value must be an integer`);
+      }
+      return BigInt(value).toString();
+    } else if (type instanceof BooleanType) {
+      if (typeof value !== 'boolean') {
+        throw new EncodeError(`BOOLEAN ${type.name}: expected boolean, got ${typeof value}`);
+      }
+      return value ? 'true' : 'false';
+    } else if (type instanceof NullType) {
+      if (value !== null && value !== undefined) {
+        throw new EncodeError(`NULL ${type.name}: expected null or undefined, got ${typeof value}`);
+      }
+      return 'null';
+    } else if (type instanceof RealType) {
+      if (typeof value !== 'number') {
+        throw new EncodeError(`REAL ${type.name}: expected number, got ${typeof value}`);
+      }
+      const special = REAL_SPECIAL_VALUES.find(([, number]) => Object.is(number, value));
+      return special ? JSON.stringify(special[0]) : String(value);
+    } else if (type instanceof BitStringType) {
+      return this.encodeBitString(type, value);
+    } else if (type instanceof OctetStringType) {
+      return JSON.stringify(toHex(type.toBytes(value)));
+    } else if (type instanceof AnyType) {
+      // Encodings of unknown open types are sent in hexadecimal, like OCTET STRINGs
+      return JSON.stringify(toHex(type.toBytes(value)));
+    } else if (type instanceof ObjectIdentifierType) {
+      type.toContents(value);
+      return JSON.stringify(value);
+    } else if (type instanceof RestrictedStringType) {
+      type.toCodePoints(value);
+      return JSON.stringify(value);
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      return JSON.stringify(type.toText(value));
+    } else if (type instanceof EnumeratedType) {
+      return JSON.stringify(type.toIdentifier(value));
+    } else if (type instanceof SequenceType) {
+      return this.encodeSequence(type, value);
+    } else if (type instanceof SequenceOfType) {
+      if (!Array.isArray(value)) {
+        throw new EncodeError(`${type.kind} ${type.name}: expected array, got ${typeof value}`);
+      }
+      return `[${value.map(element => this.encodeValue(type.elementType, element)).join(',')}]`;
+    } else if (type instanceof ChoiceType) {
+      return this.encodeChoice(type, value);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.encodeValue(type.type, value);
+    }
+    throw new EncodeError(`JER: unsupported type ${type.name}`);
+  }
+
+  private decodeValue(json: JsonValue, type: Asn1Type): any {
+    if (type instanceof IntegerType) {
+      if (!(json instanceof JsonNumber) || !/^-?[0-9]+$/.test(json.text)) {
+        throw new DecodeError(`INTEGER ${type.name}: expected an integer number`);
+      }
+      return toSafeNumber(BigInt(json.text));
+    } else if (type instanceof BooleanType) {
+      if (typeof json !== 'boolean') {
+        throw new DecodeError(`BOOLEAN ${type.name}: expected true or false`);
+      }
+      return json;
+    } else if (type instanceof NullType) {
+      if (json !== null) {
+        throw new DecodeError(`NULL ${type.name}: expected null`);
+      }
+      return null;
+    } else if (type instanceof RealType) {
+      if (json instanceof JsonNumber) {
+        return Number(json.text);
+      }
+      const special = REAL_SPECIAL_VALUES.find(([text]) => text === json);
+      if (!special) {
+        throw new DecodeError(`REAL ${type.name}: expected a number, "INF", "-INF", "NaN" or "-0"`);
+      }
+      return special[1];
+    } else if (type instanceof BitStringType) {
+      return this.decodeBitString(json, type);
+    } else if (type instanceof OctetStringType || type instanceof AnyType) {
+      if (typeof json !== 'string') {
+        const kind = type instanceof AnyType ? 'ANY' : 'OCTET STRING';
+        throw new DecodeError(`${kind} ${type.name}: expected a hexadecimal string`);
+      }
+      return fromHex(json);
+    } else if (type instanceof ObjectIdentifierType) {
+      if (type.parseArcs(json) === undefined) {
+        throw new DecodeError(`${type.kind} ${type.name}: expected a dotted string`);
+      }
+      return json;
+    } else if (type instanceof RestrictedStringType) {
+      if (typeof json !== 'string') {
+        throw new DecodeError(`${type.kind} ${type.name}: expected a string`);
+      }
+      return json;
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      if (typeof json !== 'string') {
+        throw new DecodeError(`${type.kind} ${type.name}: expected a string`);
+      }
+      return type.fromText(json);
+    } else if (type instanceof EnumeratedType) {
+      if (typeof json === 'string' && type.extensible && !type.values.some(([identifier]) => identifier === json)) {
+        return { [UNKNOWN_EXTENSIONS]: json };
+      }
+      if (typeof json !== 'string' || !type.values.some(([identifier]) => identifier === json)) {
+        throw new DecodeError(`ENUMERATED ${type.name}: unknown value ${String(json)}`);
+      }
+      return json;
+    } else if (type instanceof SequenceType) {
+      return this.decodeSequence(json, type);
+    } else if (type instanceof SequenceOfType) {
+      if (!Array.isArray(json)) {
+        throw new DecodeError(`${type.kind} ${type.name}: expected an array`);
+      }
+      return json.map(element => this.decodeValue(element, type.elementType));
+    } else if (type instanceof ChoiceType) {
+      return this.decodeChoice(json, type);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.decodeValue(json, type.type);
+    }
+    throw new DecodeError(`JER: unsupported type ${type.name}`);
+  }
+
+  /**
+   * Fixed-size bit strings are a hexadecimal string, others an object with
+   * the hexadecimal value and the length in bits
+   */
+  private encodeBitString(type: BitStringType, value: any): string {
+    const bits = type.toBitString(value);
+    const fixedSize = this.fixedBitStringSize(type);
+    if (fixedSize === undefined) {
+      return `{"value":${JSON.stringify(toHex(bits.data))},"length":${bits.length}}`;
+    }
+
+    if (bits.length > fixedSize || (bits.length < fixedSize && type.namedBits.length === 0)) {
+      throw new EncodeError(`BIT STRING ${type.name}: expected ${fixedSize} bits, got ${bits.length}`);
+    }
+    const data = new Uint8Array(Math.ceil(fixedSize / 8));
+    data.set(bits.data);
+    return JSON.stringify(toHex(data));
+  }
+
+  private decodeBitString(json: JsonValue, type: BitStringType): any {
+    const fixedSize = this.fixedBitStringSize(type);
+    let hex: JsonValue | undefined = json;
+    let length: number;
+
+    if (fixedSize !== undefined) {
+      length = fixedSize;
+    } else {
+      if (!(json instanceof Map) || json.size !== 2) {
+        throw new DecodeError(`BIT STRING ${type.name}: expected an object with value and length`);
+      }
+      const lengthJson = json.get('length');
+      if (!(lengthJson instanceof JsonNumber) || !/^[0-9]+$/.test(lengthJson.text)) {
+        throw new DecodeError(`BIT STRING ${type.name}: expected a length in bits`);
+      }
+      hex = json.get('value');
+      length = Number(lengthJson.text);
+    }
+
+    if (typeof hex !== 'string') {
+      throw new DecodeError(`BIT STRING ${type.name}: expected a hexadecimal string`);
+    }
+    const data = fromHex(hex);
+    if (data.length !== Math.ceil(length / 8)) {
+      throw new DecodeError(`BIT STRING ${type.name}: ${data.length} octets do not hold ${length} bits`);
+    }
+    return type.fromBitString(type.toBitString({ data, length }));
+  }
+
+  /**
+   * Length of a BIT STRING with an inextensible fixed SIZE
+   */
+  private fixedBitStringSize(type: BitStringType): number | undefined {
+    const size = type.size;
+    if (!size || size.extensible || size.min === undefined || size.min !== size.max) {
+      return undefined;
+    }
+    return Number(size.min);
+  }
+
+  private encodeSequence(type: SequenceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${type.kind} ${type.name}: expected object, got ${typeof value}`);
+    }
+
+    const members: string[] = [];
+    for (const member of type.members) {
+      const memberValue = value[member.name];
+      if (memberValue === undefined || memberValue === null) {
+        if (member.optional || member.defaultValue !== undefined || member.addition !== undefined) {
+          continue;
+        }
+        throw new EncodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+      }
+      members.push(`${JSON.stringify(member.name)}:${this.encodeValue(memberType(member, value), memberValue)}`);
+    }
+    return `{${members.join(',')}}`;
+  }
+
+  private decodeSequence(json: JsonValue, type: SequenceType): any {
+    if (!(json instanceof Map)) {
+      throw new DecodeError(`${type.kind} ${type.name}: expected an object`);
+    }
+
+    const result: any = {};
+    for (const member of type.members) {
+      const memberJson = json.get(member.name);
+      if (memberJson !== undefined) {
+        result[member.name] = this.decodeValue(memberJson, memberType(member, result));
+      } else if (member.defaultValue !== undefined) {
+        result[member.name] = member.defaultValue;
+      } else if (!member.optional && member.addition === undefined) {
+        throw new DecodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+      }
+    }
+
+    // Extensible types ignore the members of unknown extension additions
+    for (const name of json.keys()) {
+      if (!type.extensible && !type.members.some(member => member.name === name)) {
+        throw new DecodeError(`${type.kind} ${type.name}: unexpected member '${name}'`);
+      }
+    }
+    return result;
+  }
+
+  private encodeChoice(type: ChoiceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with single property, got ${typeof value}`);
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length !== 1) {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one property, got ${keys.length}`);
+    }
+
+    const choiceName = keys[0]!;
+    if (choiceName === UNKNOWN_EXTENSIONS) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown extension alternatives cannot be encoded in JER`);
+    }
+    const choice = type.choices.get(choiceName);
+    if (!choice) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+    return `{${JSON.stringify(choiceName)}:${this.encodeValue(choice.type, value[choiceName])}}`;
+  }
+
+  private decodeChoice(json: JsonValue, type: ChoiceType): any {
+    if (!(json instanceof Map) || json.size !== 1) {
+      throw new DecodeError(`CHOICE ${type.name}: expected an object with exactly one member`);
+    }
+
+    const [choiceName, choiceJson] = json.entries().next().value as [string, JsonValue];
+    const choice = type.choices.get(choiceName);
+    if (!choice && type.extensible) {
+      return { [UNKNOWN_EXTENSIONS]: choiceName };
+    }
+    if (!choice) {
+      throw new DecodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+    return { [choiceName]: this.decodeValue(choiceJson, choice.type) };
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * JER (JSON Encoding Rules, X.697) text utilities: a JSON reader that keeps
+ * numbers as their source text so large integers stay exact
+ */
+
+import { DecodeError } from '../types';
+
+/**
+ * A JSON number as written in the source text
+ */
+export class JsonNumber {
+  public readonly text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+/**
+ * Parsed JSON value. Objects are Maps to keep member names out of the
+ * prototype chain.
+ */
+export type JsonValue = null | boolean | string | JsonNumber | JsonValue[] | Map<string, JsonValue>;
+
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const NUMBER_PATTERN = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+
+/**
+ * Parse JSON text
+ */
+export function parseJson(text: string): JsonValue {
+  const parser = new JsonParser(text);
+  return parser.parseDocument();
+}
+
+class JsonParser {
+  private input: string;
+  private position: number = 0;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  parseDocument(): JsonValue {
+    const value = this.parseValue();
+    this.skipWhitespace();
+    if (this.position < this.input.length) {
+      throw new DecodeError('Unexpected content after the JSON value', this.position);
+    }
+    return value;
+  }
+
+  private parseValue(): JsonValue {
+    this.skipWhitespace();
+    const char = this.input[this.position];
+
+    if (char === '{') {
+      return this.parseObject();
+    } else if (char === '[') {
+      return this.parseArray();
+    } else if (char === '"') {
+      return this.parseString();
+    } else if (char === '-' || (char !== undefined && char >= '0' && char <= '9')) {
+      return this.parseNumber();
+    }
+
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.input.startsWith(literal, this.position)) {
+        this.position += literal.length;
+        return value;
+      }
+    }
+    throw new DecodeError('Invalid JSON value', this.position);
+  }
+
+  private parseObject(): Map<string, JsonValue> {
+    const result = new Map<string, JsonValue>();
+    this.position++;
+    this.skipWhitespace();
+    if (this.input[this.position] === '}') {
+      this.position++;
+      return result;
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.input[this.position] !== '"') {
+        throw new DecodeError('Expected JSON object member name', this.position);
+      }
+      const name = this.parseString();
+      this.expect(':');
+      if (result.has(name)) {
+        throw new DecodeError(`Duplicate JSON object member "${name}"`, this.position);
+      }
+      result.set(name, this.parseValue());
+
+      this.skipWhitespace();
+      if (this.input[this.position] === '}') {
+        this.position++;
+        return result;
+      }
+      this.expect(',');
+    }
+  }
+
+  private parseArray(): JsonValue[] {
+    const result: JsonValue[] = [];
+    this.position++;
+    this.skipWhitespace();
+    if (this.input[this.position] === ']') {
+      this.position++;
+      return result;
+    }
+
+    while (true) {
+      result.push(this.parseValue());
+      this.skipWhitespace();
+      if (this.input[this.position] === ']') {
+        this.position++;
+        return result;
+      }
+      this.expect(',');
+    }
+  }
+
+  private parseString(): string {
+    const match = this.match(STRING_PATTERN);
+    if (!match) {
+      throw new DecodeError('Invalid JSON string', this.position);
+    }
+    this.position += match[0].length;
+    return JSON.parse(match[0]) as string;
+  }
+
+  private parseNumber(): JsonNumber {
+    const match = this.match(NUMBER_PATTERN);
+    if (!match) {
+      throw new DecodeError('Invalid JSON number', this.position);
+    }
+    this.position += match[0].length;
+    return new JsonNumber(match[0]);
+  }
+
+  private match(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.position;
+    return pattern.exec(this.input);
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.input[this.position] !== char) {
+      throw new DecodeError(`Expected '${char}' in JSON`, this.position);
+    }
+    this.position++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.input.length && ' \t\n\r'.includes(this.input[this.position]!)) {
+      this.position++;
+    }
+  }
+}
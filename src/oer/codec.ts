@@ -0,0 +1,658 @@
+/**
+ * OER (Octet Encoding Rules, X.696) codec
+ */
+
+import { Asn1Type, Codec, ValueRange, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import {
+  encodeSignedInteger,
+  decodeSignedInteger,
+  isMinimalSignedInteger,
+  toSafeNumber,
+  tagKey,
+  formatTag
+} from '../ber/encoding';
+import {
+  IntegerType,
+  BooleanType,
+  BitStringType,
+  OctetStringType,
+  NullType,
+  RealType,
+  ObjectIdentifierType,
+  RestrictedStringType,
+  UsefulTimeType,
+  EnumeratedType,
+  AnyType,
+  copyBits
+} from '../ber/types';
+import {
+  SequenceType,
+  SequenceOfType,
+  SetType,
+  ChoiceType,
+  ReferenceType,
+  TaggedType,
+  SequenceMember,
+  isDefaultValue,
+  memberType,
+  outermostTags,
+  unknownExtensions
+} from '../ber/complex-types';
+import { isWithinSize, sizeError } from '../per/encoding';
+import {
+  OctetWriter,
+  OctetReader,
+  fixedIntegerWidth,
+  encodeUnsignedInteger,
+  decodeUnsignedInteger,
+  isMinimalUnsignedInteger,
+  encodeOerTag,
+  decodeOerTag
+} from './encoding';
+
+/**
+ * OER codec driven by the constraints of the compiled types. The encoder
+ * always produces canonical (COER) output; the canonical decoder
+ * additionally rejects every non-canonical encoding.
+ */
+export class OerCodec implements Codec {
+  private canonical: boolean;
+
+  constructor(canonical: boolean = false) {
+    this.canonical = canonical;
+  }
+
+  encode(type: Asn1Type, value: any): Uint8Array {
+    const writer = new OctetWriter();
+    this.encodeValue(writer, type, value);
+    return writer.toBytes();
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    return this.decodeValue(new OctetReader(data, this.canonical), type);
+  }
+
+  private encodeValue(writer: OctetWriter, type: Asn1Type, value: any): void {
+    if (type instanceof IntegerType) {
+      this.encodeInteger(writer, type, value);
+    } else if (type instanceof BooleanType) {
+      if (typeof value !== 'boolean') {
+        throw new EncodeError(`BOOLEAN ${type.name}: expected boolean, got ${typeof value}`);
+      }
+      writer.writeByte(value ? 0xff : 0x00);
+    } else if (type instanceof NullType) {
+      if (value !== null && value !== undefined) {
+        throw new EncodeError(`NULL ${type.name}: expected null or undefined, got ${typeof value}`);
+      }
+    } else if (type instanceof BitStringType) {
+      this.encodeBitString(writer, type, value);
+    } else if (type instanceof OctetStringType) {
+      this.encodeOctetString(writer, type, value);
+    } else if (type instanceof ObjectIdentifierType || type instanceof RealType) {
+      // The BER contents octets after a length (X.696 12, 23)
+      const bytes = type.toContents(value);
+      writer.writeLength(bytes.length);
+      writer.writeBytes(bytes);
+    } else if (type instanceof RestrictedStringType) {
+      this.encodeRestrictedString(writer, type, value);
+    } else if (type instanceof UsefulTimeType) {
+      // The characters of the value as a VisibleString (X.696 29)
+      const bytes = new TextEncoder().encode(type.toText(value));
+      writer.writeLength(bytes.length);
+      writer.writeBytes(bytes);
+    } else if (type instanceof EnumeratedType) {
+      this.encodeEnumerated(writer, type, value);
+    } else if (type instanceof SequenceType) {
+      this.encodeSequence(writer, type, value);
+    } else if (type instanceof SequenceOfType) {
+      this.encodeSequenceOf(writer, type, value);
+    } else if (type instanceof ChoiceType) {
+      this.encodeChoice(writer, type, value);
+    } else if (type instanceof AnyType) {
+      // An open type holding an encoding of an unknown type, after a length
+      const bytes = type.toBytes(value);
+      writer.writeLength(bytes.length);
+      writer.writeBytes(bytes);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      this.encodeValue(writer, type.type, value);
+    } else {
+      throw new EncodeError(`OER: unsupported type ${type.name}`);
+    }
+  }
+
+  private decodeValue(reader: OctetReader, type: Asn1Type): any {
+    if (type instanceof IntegerType) {
+      return this.decodeInteger(reader, type);
+    } else if (type instanceof BooleanType) {
+      const offset = reader.offset;
+      const byte = reader.readByte();
+      if (this.canonical && byte !== 0x00 && byte !== 0xff) {
+        throw new DecodeError(`BOOLEAN ${type.name}: COER requires 0x00 or 0xFF`, offset);
+      }
+      return byte !== 0;
+    } else if (type instanceof NullType) {
+      return null;
+    } else if (type instanceof BitStringType) {
+      return this.decodeBitString(reader, type);
+    } else if (type instanceof OctetStringType) {
+      return this.decodeOctetString(reader, type);
+    } else if (type instanceof ObjectIdentifierType || type instanceof RealType) {
+      const offset = reader.offset;
+      return type.fromContents(reader.readBytes(reader.readLength()), offset);
+    } else if (type instanceof RestrictedStringType) {
+      const offset = reader.offset;
+      const fixedSize = type.knownMultiplier ? this.fixedSize(type.size) : undefined;
+      const length = fixedSize !== undefined ? fixedSize * type.width : reader.readLength();
+      return type.fromBytes(reader.readBytes(length), offset);
+    } else if (type instanceof UsefulTimeType) {
+      const offset = reader.offset;
+      return type.fromText(String.fromCharCode(...reader.readBytes(reader.readLength())), offset);
+    } else if (type instanceof EnumeratedType) {
+      return this.decodeEnumerated(reader, type);
+    } else if (type instanceof SequenceType) {
+      return this.decodeSequence(reader, type);
+    } else if (type instanceof SequenceOfType) {
+      return this.decodeSequenceOf(reader, type);
+    } else if (type instanceof ChoiceType) {
+      return this.decodeChoice(reader, type);
+    } else if (type instanceof AnyType) {
+      return reader.readBytes(reader.readLength());
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.decodeValue(reader, type.type);
+    }
+    throw new DecodeError(`OER: unsupported type ${type.name}`, reader.offset);
+  }
+
+  /**
+   * Root bounds of an INTEGER. Extensible constraints are not OER-visible.
+   */
+  private integerBounds(type: IntegerType): { min?: bigint; max?: bigint } {
+    if (!type.range || type.range.extensible) {
+      return {};
+    }
+    return {
+      ...(type.range.min !== undefined ? { min: BigInt(type.range.min) } : {}),
+      ...(type.range.max !== undefined ? { max: BigInt(type.range.max) } : {})
+    };
+  }
+
+  private encodeInteger(writer: OctetWriter, type: IntegerType, value: any): void {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      throw new EncodeError(`INTEGER ${type.name}: expected number or bigint, got ${typeof value}`);
+    }
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      throw new EncodeError(`INTEGER ${type.name}: value must be an integer`);
+    }
+
+    const integer = BigInt(value);
+    const { min, max } = this.integerBounds(type);
+    if ((min !== undefined && integer < min) || (max !== undefined && integer > max)) {
+      throw new EncodeError(`INTEGER ${type.name}: value ${integer} outside range ${min ?? 'MIN'}..${max ?? 'MAX'}`);
+    }
+
+    const width = min !== undefined && max !== undefined ? fixedIntegerWidth(min, max) : undefined;
+    if (width !== undefined) {
+      writer.writeBytes(encodeUnsignedInteger(BigInt.asUintN(width * 8, integer), width));
+      return;
+    }
+
+    const octets = min !== undefined && min >= 0n ? encodeUnsignedInteger(integer) : encodeSignedInteger(integer);
+    writer.writeLength(octets.length);
+    writer.writeBytes(octets);
+  }
+
+  private decodeInteger(reader: OctetReader, type: IntegerType): number | bigint {
+    const offset = reader.offset;
+    const { min, max } = this.integerBounds(type);
+    const unsigned = min !== undefined && min >= 0n;
+
+    let integer: bigint;
+    const width = min !== undefined && max !== undefined ? fixedIntegerWidth(min, max) : undefined;
+    if (width !== undefined) {
+      const raw = decodeUnsignedInteger(reader.readBytes(width));
+      integer = unsigned ? raw : BigInt.asIntN(width * 8, raw);
+    } else {
+      const octets = reader.readBytes(reader.readLength());
+      if (octets.length === 0) {
+        throw new DecodeError(`INTEGER ${type.name}: empty contents`, offset);
+      }
+      if (this.canonical && !(unsigned ? isMinimalUnsignedInteger(octets) : isMinimalSignedInteger(octets))) {
+        throw new DecodeError(`INTEGER ${type.name}: COER requires minimal encoding`, offset);
+      }
+      integer = unsigned ? decodeUnsignedInteger(octets) : decodeSignedInteger(octets);
+    }
+
+    if ((min !== undefined && integer < min) || (max !== undefined && integer > max)) {
+      throw new DecodeError(`INTEGER ${type.name}: value ${integer} outside range ${min ?? 'MIN'}..${max ?? 'MAX'}`, offset);
+    }
+    return toSafeNumber(integer);
+  }
+
+  /**
+   * Fixed size of a string type, which is then encoded without a length
+   */
+  private fixedSize(size: ValueRange | undefined): number | undefined {
+    if (size && !size.extensible && size.min !== undefined && size.min === size.max) {
+      return Number(size.max);
+    }
+    return undefined;
+  }
+
+  /**
+   * Fixed-size bit strings are just their octets; others carry a length and
+   * an unused bits octet. Named bits are padded to the SIZE lower bound.
+   */
+  private encodeBitString(writer: OctetWriter, type: BitStringType, value: any): void {
+    let bits = type.toBitString(value);
+    const min = Number(type.size?.min ?? 0);
+    if (type.namedBits.length > 0 && bits.length < min) {
+      bits = copyBits(bits.data, min);
+    }
+    if (!type.size?.extensible && !isWithinSize(bits.length, type.size)) {
+      throw sizeError('BIT STRING', type.name, bits.length, type.size);
+    }
+
+    if (this.fixedSize(type.size) === undefined) {
+      writer.writeLength(bits.data.length + 1);
+      writer.writeByte(bits.data.length * 8 - bits.length);
+    }
+    writer.writeBytes(bits.data);
+  }
+
+  private decodeBitString(reader: OctetReader, type: BitStringType): any {
+    const offset = reader.offset;
+    let length = this.fixedSize(type.size);
+    let data: Uint8Array;
+
+    if (length !== undefined) {
+      data = reader.readBytes(Math.ceil(length / 8));
+    } else {
+      const octets = reader.readLength();
+      const unused = octets > 0 ? reader.readByte() : 0;
+      if (octets === 0 || unused > 7 || (octets === 1 && unused !== 0)) {
+        throw new DecodeError(`BIT STRING ${type.name}: invalid unused bits octet`, offset);
+      }
+      data = reader.readBytes(octets - 1);
+      length = data.length * 8 - unused;
+    }
+
+    const bits = copyBits(data, length);
+    if (this.canonical && data.length > 0 && bits.data[data.length - 1] !== data[data.length - 1]) {
+      throw new DecodeError(`BIT STRING ${type.name}: COER requires zero unused bits`, offset);
+    }
+    return type.fromBitString(type.toBitString(bits), offset);
+  }
+
+  private encodeOctetString(writer: OctetWriter, type: OctetStringType, value: any): void {
+    const bytes = type.toBytes(value);
+    if (!type.size?.extensible && !isWithinSize(bytes.length, type.size)) {
+      throw sizeError('OCTET STRING', type.name, bytes.length, type.size);
+    }
+
+    if (this.fixedSize(type.size) === undefined) {
+      writer.writeLength(bytes.length);
+    }
+    writer.writeBytes(bytes);
+  }
+
+  private decodeOctetString(reader: OctetReader, type: OctetStringType): Uint8Array {
+    return reader.readBytes(this.fixedSize(type.size) ?? reader.readLength());
+  }
+
+  /**
+   * Restricted character strings are their BER contents octets, after a
+   * length unless the type has a known multiplier and a fixed size (X.696 27)
+   */
+  private encodeRestrictedString(writer: OctetWriter, type: RestrictedStringType, value: any): void {
+    const count = type.toCodePoints(value).length;
+    if (type.knownMultiplier && !type.size?.extensible && !isWithinSize(count, type.size)) {
+      throw sizeError(type.kind, type.name, count, type.size);
+    }
+
+    const bytes = type.toBytes(value);
+    if (!type.knownMultiplier || this.fixedSize(type.size) === undefined) {
+      writer.writeLength(bytes.length);
+    }
+    writer.writeBytes(bytes);
+  }
+
+  private encodeEnumerated(writer: OctetWriter, type: EnumeratedType, value: any): void {
+    const number = type.toNumber(value);
+    if (number >= 0 && number <= 127) {
+      writer.writeByte(number);
+      return;
+    }
+
+    const octets = encodeSignedInteger(number);
+    writer.writeByte(0x80 | octets.length);
+    writer.writeBytes(octets);
+  }
+
+  private decodeEnumerated(reader: OctetReader, type: EnumeratedType): string | number {
+    const offset = reader.offset;
+    const first = reader.readByte();
+
+    let number: number;
+    if ((first & 0x80) === 0) {
+      number = first;
+    } else {
+      const octets = reader.readBytes(first & 0x7f);
+      number = Number(decodeSignedInteger(octets));
+      if (this.canonical && ((number >= 0 && number <= 127) || !isMinimalSignedInteger(octets))) {
+        throw new DecodeError(`ENUMERATED ${type.name}: COER requires the shortest form`, offset);
+      }
+    }
+
+    return type.fromNumber(number, offset);
+  }
+
+  /**
+   * SEQUENCE and SET (X.696 16, 18). Extension additions follow the root
+   * members as open types, after a bitmap of those present.
+   */
+  private encodeSequence(writer: OctetWriter, type: SequenceType, value: any): void {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${type.kind} ${type.name}: expected object, got ${typeof value}`);
+    }
+
+    const members = this.rootMembers(type);
+    const extensions = type.extensible ? this.encodeExtensionAdditions(type, value) : [];
+    const extended = extensions.some(extension => extension !== null);
+
+    const present = members.map(member => {
+      const memberValue = value[member.name];
+      if (memberValue === undefined || memberValue === null) {
+        if (member.optional || member.defaultValue !== undefined) {
+          return false;
+        }
+        throw new EncodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+      }
+      return member.defaultValue === undefined || !isDefaultValue(memberValue, member.defaultValue);
+    });
+
+    // Preamble: the extension bit and one presence bit per OPTIONAL or DEFAULT member
+    const bits = members
+      .map((member, index) => (member.optional || member.defaultValue !== undefined ? [present[index]!] : []))
+      .flat();
+    writer.writeBytes(this.packBits(type.extensible ? [extended, ...bits] : bits));
+
+    members.forEach((member, index) => {
+      if (!present[index]) {
+        return;
+      }
+      // A known type of an open type is sent as its complete encoding
+      const valueType = memberType(member, value);
+      if (valueType !== member.type) {
+        const bytes = this.encode(valueType, value[member.name]);
+        writer.writeLength(bytes.length);
+        writer.writeBytes(bytes);
+      } else {
+        this.encodeValue(writer, valueType, value[member.name]);
+      }
+    });
+
+    if (extended) {
+      // The bitmap is sent as a BIT STRING: its length, the unused bit count and the bits
+      const bitmap = this.packBits(extensions.map(extension => extension !== null));
+      writer.writeLength(bitmap.length + 1);
+      writer.writeByte(bitmap.length * 8 - extensions.length);
+      writer.writeBytes(bitmap);
+      for (const extension of extensions) {
+        if (extension) {
+          writer.writeLength(extension.length);
+          writer.writeBytes(extension);
+        }
+      }
+    }
+  }
+
+  /**
+   * Bits packed into octets, most significant bit first and zero-padded
+   */
+  private packBits(bits: boolean[]): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+    bits.forEach((bit, index) => {
+      if (bit) {
+        bytes[index >> 3] = bytes[index >> 3]! | (0x80 >> (index & 7));
+      }
+    });
+    return bytes;
+  }
+
+  /**
+   * Root members in the order they are sent, SET members in the canonical
+   * order of their tags
+   */
+  private rootMembers(type: SequenceType): SequenceMember[] {
+    const members = type instanceof SetType ? type.canonicalMembers : type.members;
+    return members.filter(member => member.addition === undefined);
+  }
+
+  /**
+   * Complete encodings of the extension additions of a value, known ones
+   * followed by unknown ones, null for those absent. A version group is
+   * present when any of its members is.
+   */
+  private encodeExtensionAdditions(type: SequenceType, value: any): Array<Uint8Array | null> {
+    const isPresent = (member: SequenceMember) => {
+      const memberValue = value[member.name];
+      return (
+        memberValue !== undefined &&
+        memberValue !== null &&
+        (member.defaultValue === undefined || !isDefaultValue(memberValue, member.defaultValue))
+      );
+    };
+
+    const known = type.extensionAdditions.map(addition => {
+      if (addition instanceof SequenceType) {
+        return addition.members.some(isPresent) ? this.encode(addition, value) : null;
+      }
+      return isPresent(addition) ? this.encode(memberType(addition, value), value[addition.name]) : null;
+    });
+    return [...known, ...unknownExtensions(type.kind, type.name, value)];
+  }
+
+  private decodeSequence(reader: OctetReader, type: SequenceType): any {
+    const members = this.rootMembers(type);
+
+    const optionalCount = members.filter(member => member.optional || member.defaultValue !== undefined).length;
+    const extensionBits = type.extensible ? 1 : 0;
+    const preamble = reader.readBytes(Math.ceil((extensionBits + optionalCount) / 8));
+    const extended = type.extensible && (preamble[0]! & 0x80) !== 0;
+
+    let bit = extensionBits;
+    const present = members.map(member => {
+      if (!member.optional && member.defaultValue === undefined) {
+        return true;
+      }
+      const index = bit++;
+      return ((preamble[index >> 3]! >> (7 - (index & 7))) & 1) === 1;
+    });
+
+    const result: any = {};
+    members.forEach((member, index) => {
+      if (present[index]) {
+        const offset = reader.offset;
+        const valueType = memberType(member, result);
+        result[member.name] = valueType !== member.type
+          ? this.decode(valueType, reader.readBytes(reader.readLength()))
+          : this.decodeValue(reader, valueType);
+        if (
+          this.canonical &&
+          member.defaultValue !== undefined &&
+          isDefaultValue(result[member.name], member.defaultValue)
+        ) {
+          throw new DecodeError(`${type.kind} ${type.name}: COER forbids encoding DEFAULT value of '${member.name}'`, offset);
+        }
+      } else if (member.defaultValue !== undefined) {
+        result[member.name] = member.defaultValue;
+      }
+    });
+
+    if (extended) {
+      this.decodeExtensionAdditions(reader, type, result);
+    }
+    for (const member of type.members) {
+      if (member.addition !== undefined && member.defaultValue !== undefined && !(member.name in result)) {
+        result[member.name] = member.defaultValue;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decode the extension additions present into a value, keeping unknown
+   * ones with null for those absent
+   */
+  private decodeExtensionAdditions(reader: OctetReader, type: SequenceType, result: any): void {
+    const offset = reader.offset;
+    const length = reader.readLength();
+    const unused = length >= 2 ? reader.readByte() : 8;
+    if (unused > 7) {
+      throw new DecodeError(`${type.kind} ${type.name}: invalid extension addition bitmap`, offset);
+    }
+    const bitmap = reader.readBytes(length - 1);
+    const count = bitmap.length * 8 - unused;
+
+    const additions = type.extensionAdditions;
+    const unknown: Array<Uint8Array | null> = [];
+    for (let index = 0; index < count; index++) {
+      const addition = additions[index];
+      const present = ((bitmap[index >> 3]! >> (7 - (index & 7))) & 1) === 1;
+      const encoding = present ? reader.readBytes(reader.readLength()) : null;
+      if (!addition) {
+        unknown.push(encoding);
+      } else if (!encoding) {
+        continue;
+      } else if (addition instanceof SequenceType) {
+        Object.assign(result, this.decode(addition, encoding));
+      } else {
+        result[addition.name] = this.decode(memberType(addition, result), encoding);
+      }
+    }
+
+    if (unknown.length > 0) {
+      result[UNKNOWN_EXTENSIONS] = unknown;
+    }
+  }
+
+  private encodeSequenceOf(writer: OctetWriter, type: SequenceOfType, value: any): void {
+    if (!Array.isArray(value)) {
+      throw new EncodeError(`${type.kind} ${type.name}: expected array, got ${typeof value}`);
+    }
+    if (!type.size?.extensible && !isWithinSize(value.length, type.size)) {
+      throw sizeError(type.kind, type.name, value.length, type.size);
+    }
+
+    // Quantity field: a length-prefixed unsigned element count
+    const quantity = encodeUnsignedInteger(BigInt(value.length));
+    writer.writeLength(quantity.length);
+    writer.writeBytes(quantity);
+
+    value.forEach((element, i) => {
+      try {
+        this.encodeValue(writer, type.elementType, element);
+      } catch (error) {
+        throw new EncodeError(
+          `${type.kind} ${type.name}: failed to encode element ${i}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  private decodeSequenceOf(reader: OctetReader, type: SequenceOfType): any[] {
+    const offset = reader.offset;
+    const quantity = reader.readBytes(reader.readLength());
+    if (quantity.length === 0 || (this.canonical && !isMinimalUnsignedInteger(quantity))) {
+      throw new DecodeError(`${type.kind} ${type.name}: invalid quantity field`, offset);
+    }
+
+    const count = Number(decodeUnsignedInteger(quantity));
+    const result: any[] = [];
+    for (let i = 0; i < count; i++) {
+      result.push(this.decodeValue(reader, type.elementType));
+    }
+    return result;
+  }
+
+  private encodeChoice(writer: OctetWriter, type: ChoiceType, value: any): void {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with single property, got ${typeof value}`);
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length !== 1) {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one property, got ${keys.length}`);
+    }
+
+    const choiceName = keys[0]!;
+    if (choiceName === UNKNOWN_EXTENSIONS && type.extensible) {
+      if (!(value[choiceName] instanceof Uint8Array)) {
+        throw new EncodeError(`CHOICE ${type.name}: expected unknown extension as a Uint8Array encoding`);
+      }
+      writer.writeBytes(value[choiceName]);
+      return;
+    }
+
+    const choice = type.choices.get(choiceName);
+    if (!choice) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+
+    const { tagClass, tagNumber } = this.outermostTag(choice.type, value[choiceName]);
+    writer.writeBytes(encodeOerTag(tagClass, tagNumber));
+    if (choice.addition !== undefined) {
+      // Extension additions are sent as open types
+      const bytes = this.encode(choice.type, value[choiceName]);
+      writer.writeLength(bytes.length);
+      writer.writeBytes(bytes);
+    } else {
+      this.encodeValue(writer, choice.type, value[choiceName]);
+    }
+  }
+
+  /**
+   * Unknown alternatives of extensible types decode to
+   * { [UNKNOWN_EXTENSIONS]: encoding } with their tag and open type
+   */
+  private decodeChoice(reader: OctetReader, type: ChoiceType): any {
+    const offset = reader.offset;
+    const { tagClass, tagNumber } = decodeOerTag(reader);
+    const key = tagKey(tagClass, tagNumber);
+
+    for (const [choiceName, choice] of type.choices) {
+      if (!outermostTags(choice.type).includes(key)) {
+        continue;
+      }
+      if (choice.addition !== undefined) {
+        return { [choiceName]: this.decode(choice.type, reader.readBytes(reader.readLength())) };
+      }
+      return { [choiceName]: this.decodeValue(reader, choice.type) };
+    }
+    if (type.extensible) {
+      reader.readBytes(reader.readLength());
+      return { [UNKNOWN_EXTENSIONS]: reader.readSince(offset) };
+    }
+    throw new DecodeError(`CHOICE ${type.name}: no alternative with tag ${formatTag(key)}`, offset);
+  }
+
+  /**
+   * Outermost tag of a CHOICE alternative. An untagged CHOICE alternative
+   * carries the tag of its own chosen alternative.
+   */
+  private outermostTag(type: Asn1Type, value: any): { tagClass: number; tagNumber: number } {
+    if (type instanceof ReferenceType) {
+      return this.outermostTag(type.type, value);
+    }
+    if (type instanceof ChoiceType) {
+      const [choiceName] = Object.keys(value ?? {});
+      const choice = choiceName !== undefined ? type.choices.get(choiceName) : undefined;
+      if (!choice) {
+        throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one known property`);
+      }
+      return this.outermostTag(choice.type, value[choiceName!]);
+    }
+    return { tagClass: type.tagClass, tagNumber: type.tag };
+  }
+
+}
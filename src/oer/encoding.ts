@@ -0,0 +1,186 @@
+/**
+ * OER (Octet Encoding Rules, X.696) octet-level encoding utilities
+ */
+
+import { DecodeError } from '../types';
+import { encodeLength, decodeLength, isMinimalLength } from '../ber/encoding';
+
+/**
+ * Writes an OER octet stream
+ */
+export class OctetWriter {
+  private bytes: number[] = [];
+
+  writeByte(byte: number): void {
+    this.bytes.push(byte);
+  }
+
+  writeBytes(data: Uint8Array): void {
+    for (const byte of data) {
+      this.bytes.push(byte);
+    }
+  }
+
+  /**
+   * Write a length determinant (X.696 8.6), the same octets as a BER definite length
+   */
+  writeLength(length: number): void {
+    this.writeBytes(encodeLength(length));
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+/**
+ * Reads an OER octet stream. The canonical variant (COER) rejects
+ * length determinants that are not in their shortest form.
+ */
+export class OctetReader {
+  public readonly canonical: boolean;
+  private data: Uint8Array;
+  private position: number = 0;
+
+  constructor(data: Uint8Array, canonical: boolean = false) {
+    this.data = data;
+    this.canonical = canonical;
+  }
+
+  get offset(): number {
+    return this.position;
+  }
+
+  readByte(): number {
+    const byte = this.data[this.position];
+    if (byte === undefined) {
+      throw new DecodeError('Unexpected end of OER data', this.position);
+    }
+    this.position++;
+    return byte;
+  }
+
+  readBytes(count: number): Uint8Array {
+    if (this.position + count > this.data.length) {
+      throw new DecodeError('Unexpected end of OER data', this.position);
+    }
+    const result = this.data.slice(this.position, this.position + count);
+    this.position += count;
+    return result;
+  }
+
+  /**
+   * The octets read since an earlier offset
+   */
+  readSince(offset: number): Uint8Array {
+    return this.data.slice(offset, this.position);
+  }
+
+  readLength(): number {
+    const { length, octets } = decodeLength(this.data, this.position);
+    if (this.canonical && !isMinimalLength(length, octets)) {
+      throw new DecodeError('COER requires the shortest length determinant', this.position);
+    }
+    this.position += octets;
+    return length;
+  }
+}
+
+/**
+ * Width in octets of the fixed-size integer encoding for a range, if one
+ * applies (X.696 10.2 and 10.3)
+ */
+export function fixedIntegerWidth(min: bigint, max: bigint): number | undefined {
+  for (const octets of [1, 2, 4, 8]) {
+    const bits = BigInt(octets * 8);
+    if (min >= 0n ? max < 1n << bits : min >= -(1n << (bits - 1n)) && max < 1n << (bits - 1n)) {
+      return octets;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encode a non-negative integer as big-endian octets. Without an explicit
+ * width, the fewest octets (at least one) are used.
+ */
+export function encodeUnsignedInteger(value: bigint, octets?: number): Uint8Array {
+  let width = octets ?? 1;
+  if (octets === undefined) {
+    while (value >> BigInt(width * 8) > 0n) {
+      width++;
+    }
+  }
+
+  const result = new Uint8Array(width);
+  for (let i = width - 1; i >= 0; i--) {
+    result[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return result;
+}
+
+/**
+ * Decode big-endian octets as a non-negative integer
+ */
+export function decodeUnsignedInteger(data: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of data) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+/**
+ * Check that a variable-length unsigned integer has no redundant leading zero octet
+ */
+export function isMinimalUnsignedInteger(data: Uint8Array): boolean {
+  return data.length === 1 || data[0] !== 0;
+}
+
+/**
+ * Encode a tag as used by the OER CHOICE index: class in the two leading
+ * bits, then the number in six bits or in subsequent base-128 octets (X.696 8.7)
+ */
+export function encodeOerTag(tagClass: number, tagNumber: number): Uint8Array {
+  if (tagNumber < 63) {
+    return new Uint8Array([tagClass | tagNumber]);
+  }
+
+  const bytes: number[] = [tagNumber & 0x7f];
+  let temp = tagNumber >>> 7;
+  while (temp > 0) {
+    bytes.unshift(0x80 | (temp & 0x7f));
+    temp >>>= 7;
+  }
+  return new Uint8Array([tagClass | 0x3f, ...bytes]);
+}
+
+/**
+ * Decode an OER CHOICE index tag (X.696 8.7)
+ */
+export function decodeOerTag(reader: OctetReader): { tagClass: number; tagNumber: number } {
+  const start = reader.offset;
+  const first = reader.readByte();
+  const tagClass = first & 0xc0;
+  if ((first & 0x3f) !== 0x3f) {
+    return { tagClass, tagNumber: first & 0x3f };
+  }
+
+  let tagNumber = 0;
+  let byte: number;
+  let octets = 0;
+  do {
+    byte = reader.readByte();
+    if (octets === 0 && byte === 0x80) {
+      throw new DecodeError('Tag number has a redundant leading octet', start);
+    }
+    tagNumber = tagNumber * 128 + (byte & 0x7f);
+    octets++;
+  } while (byte & 0x80);
+
+  if (reader.canonical && tagNumber < 63) {
+    throw new DecodeError('COER requires tag numbers below 63 in the initial octet', start);
+  }
+  return { tagClass, tagNumber };
+}
@@ -2,7 +2,62 @@
  * ASN.1 grammar parser
  */
 
-import { ParsedType, ParsedModule, ParseError } from './types';
+import {
+  ParsedType,
+  ParsedTag,
+  ParsedModule,
+  ParsedValueAssignment,
+  ParsedValueComponent,
+  ParsedBinaryValue,
+  ParseError
+} from './types';
+
+/**
+ * Restricted character string type names, parsed as builtin types rather
+ * than type references
+ */
+const RESTRICTED_STRING_TYPES = [
+  'UTF8String',
+  'NumericString',
+  'PrintableString',
+  'TeletexString',
+  'T61String',
+  'IA5String',
+  'GraphicString',
+  'VisibleString',
+  'ISO646String',
+  'GeneralString',
+  'UniversalString',
+  'BMPString'
+];
+
+/**
+ * Useful types (X.680 45-47) with their parsed type names
+ */
+const USEFUL_TYPES: Record<string, string> = {
+  UTCTime: 'UTC_TIME',
+  GeneralizedTime: 'GENERALIZED_TIME',
+  ObjectDescriptor: 'OBJECT_DESCRIPTOR'
+};
+
+/**
+ * Time types (X.680 38) with their parsed type names
+ */
+const TIME_TYPES: Record<string, string> = {
+  TIME: 'TIME',
+  DATE: 'DATE',
+  'TIME-OF-DAY': 'TIME_OF_DAY',
+  'DATE-TIME': 'DATE_TIME',
+  DURATION: 'DURATION'
+};
+
+/**
+ * Alternative names of restricted character string types (X.680 41.1)
+ */
+const STRING_TYPE_SYNONYMS: Record<string, string> = {
+  T61String: 'TeletexString',
+  ISO646String: 'VisibleString'
+};
 
 export class Asn1Parser {
   private input: string = '';
@@ -29,29 +84,161 @@ export class Asn1Parser {
   }
 
   private parseModule(): ParsedModule {
-    // Parse module header: ModuleName DEFINITIONS ::= BEGIN
+    // Parse module header: ModuleName [{ oid }] DEFINITIONS [tag default] [EXTENSIBILITY IMPLIED] ::= BEGIN
     const moduleName = this.parseIdentifier();
+    this.skipWhitespaceAndComments();
+    const oid = this.check('{') ? this.parseBracedComponents() : undefined;
     this.expectKeyword('DEFINITIONS');
+    this.skipWhitespaceAndComments();
+    let tagDefault: ParsedModule['tagDefault'];
+    for (const mode of ['EXPLICIT', 'IMPLICIT', 'AUTOMATIC'] as const) {
+      if (this.checkKeyword(mode)) {
+        this.expectKeyword(mode);
+        this.skipWhitespaceAndComments();
+        this.expectKeyword('TAGS');
+        tagDefault = mode;
+      }
+    }
+    this.skipWhitespaceAndComments();
+    let extensibilityImplied = false;
+    if (this.checkKeyword('EXTENSIBILITY')) {
+      this.expectKeyword('EXTENSIBILITY');
+      this.expectKeyword('IMPLIED');
+      extensibilityImplied = true;
+    }
     this.expectToken('::=');
     this.expectKeyword('BEGIN');
 
     const types = new Map<string, ParsedType>();
+    const values = new Map<string, ParsedValueAssignment>();
+
+    this.skipWhitespaceAndComments();
+    const exports = this.checkKeyword('EXPORTS') ? this.parseExports() : undefined;
+    this.skipWhitespaceAndComments();
+    const imports = this.checkKeyword('IMPORTS') ? this.parseImports() : undefined;
 
     this.skipWhitespaceAndComments();
     while (!this.checkKeyword('END') && !this.isAtEnd()) {
       this.skipWhitespaceAndComments();
-      const parsedType = this.parseTypeAssignment();
-      types.set(parsedType.name, parsedType);
+      // Value references start with a lowercase letter, type references with an uppercase one
+      if (this.isLowerCase(this.peek())) {
+        const valueAssignment = this.parseValueAssignment();
+        values.set(valueAssignment.name, valueAssignment);
+      } else {
+        const parsedType = this.parseTypeAssignment();
+        types.set(parsedType.name, parsedType);
+      }
+      this.skipWhitespaceAndComments();
     }
 
     this.expectKeyword('END');
 
     return {
       name: moduleName,
-      types
+      tagDefault,
+      extensibilityImplied,
+      oid,
+      imports,
+      exports,
+      types,
+      values
     };
   }
 
+  /**
+   * Parse EXPORTS ALL; or the list of exported symbols, which may be empty
+   */
+  private parseExports(): string[] | undefined {
+    this.expectKeyword('EXPORTS');
+    this.skipWhitespaceAndComments();
+    if (this.checkKeyword('ALL')) {
+      this.expectKeyword('ALL');
+      this.expectToken(';');
+      return undefined;
+    }
+
+    const symbols = this.check(';') ? [] : this.parseSymbolList();
+    this.expectToken(';');
+    return symbols;
+  }
+
+  /**
+   * Parse IMPORTS Symbol, ... FROM Module [AssignedIdentifier] ... ; into the
+   * names of the modules imported symbols come from
+   */
+  private parseImports(): Map<string, string> {
+    this.expectKeyword('IMPORTS');
+    const imports = new Map<string, string>();
+
+    this.skipWhitespaceAndComments();
+    while (!this.check(';') && !this.isAtEnd()) {
+      const symbols = this.parseSymbolList();
+      this.expectKeyword('FROM');
+      const moduleName = this.parseIdentifier();
+      this.skipAssignedIdentifier();
+
+      for (const symbol of symbols) {
+        const previous = imports.get(symbol);
+        if (previous !== undefined && previous !== moduleName) {
+          this.error(`Symbol ${symbol} imported from both ${previous} and ${moduleName}`);
+        }
+        imports.set(symbol, moduleName);
+      }
+      this.skipWhitespaceAndComments();
+    }
+
+    this.expectToken(';');
+    return imports;
+  }
+
+  /**
+   * Parse a comma separated list of symbols. References to parameterized
+   * assignments, written with {}, stand for the assignment's name.
+   */
+  private parseSymbolList(): string[] {
+    const symbols: string[] = [];
+    while (true) {
+      symbols.push(this.parseIdentifier());
+      this.skipWhitespaceAndComments();
+      if (this.check('{')) {
+        this.expectToken('{');
+        this.expectToken('}');
+        this.skipWhitespaceAndComments();
+      }
+      if (!this.check(',')) {
+        return symbols;
+      }
+      this.expectToken(',');
+    }
+  }
+
+  /**
+   * Skip the OBJECT IDENTIFIER value or value reference that may follow the
+   * module name in IMPORTS. A value reference followed by a comma or FROM
+   * is the first symbol imported from the next module instead.
+   */
+  private skipAssignedIdentifier(): void {
+    this.skipWhitespaceAndComments();
+    if (this.check('{')) {
+      this.parseBracedComponents();
+      return;
+    }
+    if (!this.isLowerCase(this.peek())) {
+      return;
+    }
+
+    const savedPos = this.position;
+    const savedLine = this.line;
+    const savedCol = this.column;
+    this.parseIdentifier();
+    this.skipWhitespaceAndComments();
+    if (this.check(',') || this.check('{') || this.checkKeyword('FROM')) {
+      this.position = savedPos;
+      this.line = savedLine;
+      this.column = savedCol;
+    }
+  }
+
   private parseTypeAssignment(): ParsedType {
     const name = this.parseIdentifier();
     this.expectToken('::=');
@@ -59,40 +246,64 @@ export class Asn1Parser {
     return { ...type, name };
   }
 
+  private parseValueAssignment(): ParsedValueAssignment {
+    const name = this.parseIdentifier();
+    const type = this.parseType();
+    this.expectToken('::=');
+    const value = this.parseValue();
+    return { name, type, value };
+  }
+
   private parseType(): ParsedType {
     this.skipWhitespaceAndComments();
     let type: ParsedType;
-    if (this.checkKeyword('INTEGER')) {
+    if (this.check('[')) {
+      const tag = this.parseTag();
+      return { name: '', type: 'TAGGED', tag, elementType: this.parseType() };
+    } else if (this.checkKeyword('INTEGER')) {
       type = this.parseIntegerType();
     } else if (this.checkKeyword('BOOLEAN')) {
       type = this.parseBooleanType();
+    } else if (this.checkKeyword('BIT')) {
+      type = this.parseBitStringType();
     } else if (this.checkKeyword('OCTET')) {
       type = this.parseOctetStringType();
-    } else if (this.checkKeyword('SEQUENCE')) {
-      // Peek ahead to decide between "SEQUENCE {...}" and "SEQUENCE OF <Type>"
+    } else if (this.checkKeyword('SEQUENCE') || this.checkKeyword('SET')) {
+      // Peek ahead to decide between "SEQUENCE {...}" and "SEQUENCE OF <Type>", likewise for SET
+      const keyword = this.checkKeyword('SET') ? 'SET' : 'SEQUENCE';
       const savedPos = this.position;
       const savedLine = this.line;
       const savedCol = this.column;
 
-      // Consume the keyword 'SEQUENCE'
-      this.expectKeyword('SEQUENCE');
+      // Consume the keyword
+      this.expectKeyword(keyword);
       this.skipWhitespaceAndComments();
 
-      if (this.checkKeyword('OF')) {
+      // "SEQUENCE (SIZE(..)) OF" and "SEQUENCE SIZE(..) OF" constrain the element count
+      let sizeConstraints;
+      if (this.check('(')) {
+        sizeConstraints = this.parseConstraints();
+      } else if (this.checkKeyword('SIZE')) {
+        sizeConstraints = this.parseSizeConstraint();
+      }
+      this.skipWhitespaceAndComments();
+
+      if (sizeConstraints || this.checkKeyword('OF')) {
         // It's a SEQUENCE OF construct
         this.expectKeyword('OF');
         const elementType = this.parseType();
         type = {
           name: '',
-          type: 'SEQUENCE_OF',
-          elementType
+          type: `${keyword}_OF`,
+          elementType,
+          constraints: sizeConstraints
         } as ParsedType;
       } else {
         // Not a SEQUENCE OF – rewind and parse as a normal SEQUENCE
         this.position = savedPos;
         this.line = savedLine;
         this.column = savedCol;
-        type = this.parseSequenceType();
+        type = this.parseSequenceType(keyword);
       }
     } else if (this.checkKeyword('CHOICE')) {
       type = this.parseChoiceType();
@@ -100,6 +311,32 @@ export class Asn1Parser {
       type = this.parseEnumeratedType();
     } else if (this.checkKeyword('NULL')) {
       type = this.parseNullType();
+    } else if (this.checkKeyword('REAL')) {
+      this.expectKeyword('REAL');
+      type = { name: '', type: 'REAL' };
+    } else if (this.checkKeyword('OBJECT')) {
+      this.expectKeyword('OBJECT');
+      this.skipWhitespaceAndComments();
+      this.expectKeyword('IDENTIFIER');
+      type = { name: '', type: 'OBJECT_IDENTIFIER' };
+    } else if (this.checkKeyword('RELATIVE-OID')) {
+      this.expectKeyword('RELATIVE-OID');
+      type = { name: '', type: 'RELATIVE_OID' };
+    } else if (this.checkKeyword('ANY')) {
+      type = this.parseAnyType();
+    } else if (this.checkKeyword('EXTERNAL')) {
+      this.expectKeyword('EXTERNAL');
+      type = { name: '', type: 'EXTERNAL' };
+    } else if (this.checkKeyword('EMBEDDED')) {
+      this.expectKeyword('EMBEDDED');
+      this.skipWhitespaceAndComments();
+      this.expectKeyword('PDV');
+      type = { name: '', type: 'EMBEDDED_PDV' };
+    } else if (this.checkKeyword('CHARACTER')) {
+      this.expectKeyword('CHARACTER');
+      this.skipWhitespaceAndComments();
+      this.expectKeyword('STRING');
+      type = { name: '', type: 'CHARACTER_STRING' };
     } else {
       // Handle defined types (references to other types)
       this.skipWhitespaceAndComments();
@@ -107,11 +344,23 @@ export class Asn1Parser {
         this.error('Expected type reference (identifier)');
       }
       const typeName = this.parseIdentifier();
-      type = {
-        name: '',
-        type: 'DEFINED',
-        constraints: { definedType: typeName }
-      };
+      if (RESTRICTED_STRING_TYPES.includes(typeName)) {
+        type = {
+          name: '',
+          type: 'RESTRICTED_STRING',
+          constraints: { stringType: STRING_TYPE_SYNONYMS[typeName] ?? typeName }
+        };
+      } else if (USEFUL_TYPES[typeName]) {
+        type = { name: '', type: USEFUL_TYPES[typeName]! };
+      } else if (TIME_TYPES[typeName]) {
+        type = { name: '', type: TIME_TYPES[typeName]! };
+      } else {
+        type = {
+          name: '',
+          type: 'DEFINED',
+          constraints: { definedType: typeName }
+        };
+      }
     }
     // After parsing any type, check for constraints
     this.skipWhitespaceAndComments();
@@ -138,6 +387,45 @@ export class Asn1Parser {
     };
   }
 
+  private parseBitStringType(): ParsedType {
+    this.expectKeyword('BIT');
+    this.skipWhitespaceAndComments();
+    this.expectKeyword('STRING');
+    this.skipWhitespaceAndComments();
+    if (!this.check('{')) {
+      return {
+        name: '',
+        type: 'BIT_STRING'
+      };
+    }
+
+    this.expectToken('{');
+    const namedBits: Array<[string, number]> = [];
+    
+    this.skipWhitespaceAndComments();
+    while (!this.check('}') && !this.isAtEnd()) {
+      const name = this.parseIdentifier();
+      this.expectToken('(');
+      const bit = this.parseNumber();
+      this.expectToken(')');
+      namedBits.push([name, bit]);
+      
+      this.skipWhitespaceAndComments();
+      if (this.check(',')) {
+        this.expectToken(',');
+      }
+      this.skipWhitespaceAndComments();
+    }
+
+    this.expectToken('}');
+
+    return {
+      name: '',
+      type: 'BIT_STRING',
+      constraints: { namedBits }
+    };
+  }
+
   private parseOctetStringType(): ParsedType {
     this.expectKeyword('OCTET');
     this.skipWhitespaceAndComments();
@@ -156,19 +444,93 @@ export class Asn1Parser {
     };
   }
 
-  private parseSequenceType(): ParsedType {
-    this.expectKeyword('SEQUENCE');
+  /**
+   * Parse ANY, or ANY DEFINED BY naming the member that identifies the type
+   */
+  private parseAnyType(): ParsedType {
+    this.expectKeyword('ANY');
+    this.skipWhitespaceAndComments();
+    if (!this.checkKeyword('DEFINED')) {
+      return { name: '', type: 'ANY' };
+    }
+
+    this.expectKeyword('DEFINED');
+    this.skipWhitespaceAndComments();
+    this.expectKeyword('BY');
+    return { name: '', type: 'ANY', constraints: { definedBy: this.parseIdentifier() } };
+  }
+
+  /**
+   * Parse a SEQUENCE or SET type, which share their member syntax
+   */
+  private parseSequenceType(keyword: 'SEQUENCE' | 'SET'): ParsedType {
+    this.expectKeyword(keyword);
+    const { components, extensible, extensionEnd } = this.parseComponents(() => this.parseSequenceMember());
+
+    return {
+      name: '',
+      type: keyword,
+      members: components,
+      extensible,
+      extensionEnd
+    };
+  }
+
+  /**
+   * Parse the braced components of a SEQUENCE, SET or CHOICE. An extension
+   * marker may be followed by extension additions, alone or in version
+   * groups [[ ]], and a second marker by more root components.
+   */
+  private parseComponents(
+    parseComponent: () => ParsedType
+  ): { components: ParsedType[]; extensible: boolean; extensionEnd: number | undefined } {
     this.expectToken('{');
 
-    const members: ParsedType[] = [];
-    
+    const components: ParsedType[] = [];
+    let markers = 0;
+    let additions = 0;
+    let extensionEnd: number | undefined;
+
     while (true) {
       this.skipWhitespaceAndComments();
       if (this.check('}') || this.isAtEnd()) {
         break;
       }
-      const member = this.parseSequenceMember();
-      members.push(member);
+
+      if (this.check('...')) {
+        this.parseExtensionMarker();
+        markers++;
+        if (markers === 2) {
+          extensionEnd = components.length;
+        } else if (markers > 2) {
+          this.error('Expected at most two extension markers');
+        }
+      } else if (this.check('[[')) {
+        if (markers !== 1) {
+          this.error('Version groups [[ ]] must follow an extension marker');
+        }
+        this.expectToken('[[');
+        this.skipWhitespaceAndComments();
+        if (this.checkNumber()) {
+          // Version number, as in [[ 2: ... ]]
+          this.parseNumber();
+          this.expectToken(':');
+        }
+        while (true) {
+          components.push({ ...parseComponent(), addition: additions, group: true });
+          this.skipWhitespaceAndComments();
+          if (!this.check(',')) {
+            break;
+          }
+          this.expectToken(',');
+        }
+        this.expectToken(']]');
+        additions++;
+      } else {
+        const component = parseComponent();
+        components.push(markers === 1 ? { ...component, addition: additions++ } : component);
+      }
+
       this.skipWhitespaceAndComments();
       if (this.check(',')) {
         this.expectToken(',');
@@ -176,22 +538,25 @@ export class Asn1Parser {
     }
 
     this.expectToken('}');
-
-    return {
-      name: '',
-      type: 'SEQUENCE',
-      members
-    };
+    return { components, extensible: markers > 0, extensionEnd };
   }
 
-  private parseSequenceMember(): ParsedType {
-    const name = this.parseIdentifier();
-    let tag;
+  /**
+   * Parse an extension marker with its optional exception specification,
+   * as in ... ! 1, which is not used in encoding
+   */
+  private parseExtensionMarker(): void {
+    this.expectToken('...');
     this.skipWhitespaceAndComments();
-    if (this.check('[')) {
-      tag = this.parseTag();
+    if (this.check('!')) {
+      this.expectToken('!');
       this.skipWhitespaceAndComments();
+      this.parseValue();
     }
+  }
+
+  private parseSequenceMember(): ParsedType {
+    const name = this.parseIdentifier();
     let type = this.parseType();
     let optional = false;
     let defaultValue;
@@ -208,7 +573,6 @@ export class Asn1Parser {
     return {
       ...type,
       name,
-      tag,
       optional,
       default: defaultValue
     };
@@ -216,45 +580,22 @@ export class Asn1Parser {
 
   private parseChoiceType(): ParsedType {
     this.expectKeyword('CHOICE');
-    this.expectToken('{');
-
-    const choices: ParsedType[] = [];
-    
-    while (true) {
-      this.skipWhitespaceAndComments();
-      if (this.check('}') || this.isAtEnd()) {
-        break;
-      }
-      const choice = this.parseChoiceAlternative();
-      choices.push(choice);
-      this.skipWhitespaceAndComments();
-      if (this.check(',')) {
-        this.expectToken(',');
-      }
-    }
-
-    this.expectToken('}');
+    const { components, extensible } = this.parseComponents(() => this.parseChoiceAlternative());
 
     return {
       name: '',
       type: 'CHOICE',
-      choices
+      choices: components,
+      extensible
     };
   }
 
   private parseChoiceAlternative(): ParsedType {
     const name = this.parseIdentifier();
-    let tag;
-    this.skipWhitespaceAndComments();
-    if (this.check('[')) {
-      tag = this.parseTag();
-      this.skipWhitespaceAndComments();
-    }
-    let type = this.parseType();
+    const type = this.parseType();
     return {
       ...type,
-      name,
-      tag
+      name
     };
   }
 
@@ -263,25 +604,46 @@ export class Asn1Parser {
     this.expectToken('{');
 
     const values: Array<[string, number]> = [];
+    const additions: Array<[string, number]> = [];
     let autoValue = 0;
+    let extensible = false;
     
     this.skipWhitespaceAndComments();
     while (!this.check('}') && !this.isAtEnd()) {
+      if (this.check('...')) {
+        if (extensible) {
+          this.error('Expected at most one extension marker');
+        }
+        this.parseExtensionMarker();
+        extensible = true;
+        // Additions without a number follow every value before them
+        autoValue = Math.max(-1, ...values.map(([, number]) => number)) + 1;
+        this.skipWhitespaceAndComments();
+        if (this.check(',')) {
+          this.expectToken(',');
+        }
+        this.skipWhitespaceAndComments();
+        continue;
+      }
+
       const name = this.parseIdentifier();
       let value = autoValue;
       
+      this.skipWhitespaceAndComments();
       if (this.check('(')) {
         this.expectToken('(');
         value = this.parseNumber();
         this.expectToken(')');
       }
       
-      values.push([name, value]);
+      (extensible ? additions : values).push([name, value]);
       autoValue = value + 1;
       
+      this.skipWhitespaceAndComments();
       if (this.check(',')) {
         this.expectToken(',');
       }
+      this.skipWhitespaceAndComments();
     }
 
     this.expectToken('}');
@@ -289,55 +651,122 @@ export class Asn1Parser {
     return {
       name: '',
       type: 'ENUMERATED',
-      constraints: { values }
+      constraints: extensible ? { values, additions } : { values },
+      extensible
     };
   }
 
-  private parseTag(): number {
+  /**
+   * Parse a tag with its optional class and tagging mode, such as [0],
+   * [APPLICATION 5] IMPLICIT or [PRIVATE 1] EXPLICIT
+   */
+  private parseTag(): ParsedTag {
     this.expectToken('[');
-    const tagNumber = this.parseNumber();
+    this.skipWhitespaceAndComments();
+    let tagClass: ParsedTag['tagClass'] = 'CONTEXT';
+    for (const keyword of ['UNIVERSAL', 'APPLICATION', 'PRIVATE'] as const) {
+      if (this.checkKeyword(keyword)) {
+        this.expectKeyword(keyword);
+        tagClass = keyword;
+      }
+    }
+    const number = this.parseNumber();
+    if (number < 0) {
+      this.error('Tag number must not be negative');
+    }
     this.expectToken(']');
-    return tagNumber;
+
+    this.skipWhitespaceAndComments();
+    let mode: ParsedTag['mode'];
+    for (const keyword of ['IMPLICIT', 'EXPLICIT'] as const) {
+      if (this.checkKeyword(keyword)) {
+        this.expectKeyword(keyword);
+        mode = keyword;
+      }
+    }
+    return { tagClass, number, mode };
   }
 
   private parseConstraints(): any {
     this.expectToken('(');
     this.skipWhitespaceAndComments();
     
-    const constraints: any = {};
+    let constraints: any = {};
     
     if (this.checkKeyword('SIZE')) {
-      this.expectKeyword('SIZE');
-      this.expectToken('(');
-      const size = this.parseNumber();
-      this.expectToken(')');
-      constraints.size = size;
+      constraints = this.parseSizeConstraint();
+    } else if (this.checkKeyword('SETTINGS')) {
+      // Property settings of TIME, such as SETTINGS "Basic=Date Date=YMD"
+      this.expectKeyword('SETTINGS');
+      this.skipWhitespaceAndComments();
+      constraints.settings = this.parseString();
     } else {
-      // Range constraint
-      const min = this.parseNumber();
+      // Range constraint, MIN and MAX leave the bound open
+      const min = this.parseBound('MIN');
+      this.skipWhitespaceAndComments();
       if (this.check('.')) {
-        this.expectToken('.');
-        this.expectToken('.');
-        const max = this.parseNumber();
+        this.expectToken('..');
+        const max = this.parseBound('MAX');
         constraints.range = [min, max];
       } else {
         constraints.value = min;
       }
     }
     
+    this.skipWhitespaceAndComments();
+    if (this.check(',')) {
+      this.expectToken(',');
+      this.expectToken('...');
+      constraints.extensible = true;
+    }
+    
     this.expectToken(')');
     return constraints;
   }
 
+  private parseSizeConstraint(): any {
+    this.expectKeyword('SIZE');
+    const size = this.parseConstraints();
+    const constraints: any = {
+      size: size.range ?? [size.value, size.value]
+    };
+    if (size.extensible) {
+      constraints.sizeExtensible = true;
+    }
+    return constraints;
+  }
+
+  private parseBound(keyword: string): number | bigint | undefined {
+    this.skipWhitespaceAndComments();
+    if (this.checkKeyword(keyword)) {
+      this.expectKeyword(keyword);
+      return undefined;
+    }
+    return this.parseInteger();
+  }
+
   private parseValue(): any {
     this.skipWhitespaceAndComments();
     
     if (this.checkNumber()) {
-      return this.parseNumber();
+      // A realnumber such as 2.5 or 1e-3 (X.680 12.9), otherwise an integer
+      const real = /^-?\d+(?:\.\d+)?(?:[eE]-?\d+)?/.exec(this.input.substring(this.position))![0];
+      if (!/[.eE]/.test(real)) {
+        return this.parseInteger();
+      }
+      this.position += real.length;
+      this.column += real.length;
+      return Number(real);
     }
     if (this.check('"')) {
       return this.parseString();
     }
+    if (this.check("'")) {
+      return this.parseBinaryString();
+    }
+    if (this.check('{')) {
+      return { components: this.parseBracedComponents() };
+    }
     if (this.checkKeyword('TRUE')) {
       this.expectKeyword('TRUE');
       return true;
@@ -354,13 +783,80 @@ export class Asn1Parser {
     return this.parseIdentifier();
   }
 
+  /**
+   * Parse a bstring such as '0101'B or an hstring such as '0A'H, in which
+   * spaces and line breaks are ignored
+   */
+  private parseBinaryString(): ParsedBinaryValue {
+    this.expectToken("'");
+    let digits = '';
+    while (!this.isAtEnd() && !this.check("'")) {
+      const char = this.advance();
+      if (char === '\n') {
+        this.line++;
+        this.column = 1;
+      } else if (!/\s/.test(char)) {
+        digits += char;
+      }
+    }
+    this.expectToken("'");
+
+    const radix = this.advance();
+    if ((radix === 'B' && /^[01]*$/.test(digits)) || (radix === 'H' && /^[0-9A-F]*$/.test(digits))) {
+      return { digits, radix };
+    }
+    this.error(`Invalid bstring or hstring '${digits}'${radix}`);
+  }
+
+  /**
+   * Parse the components of braced value notation such as
+   * { iso(1) member-body(2) 840 } or { flagA, flagB }
+   */
+  private parseBracedComponents(): ParsedValueComponent[] {
+    this.expectToken('{');
+    const components: ParsedValueComponent[] = [];
+
+    this.skipWhitespaceAndComments();
+    while (!this.check('}') && !this.isAtEnd()) {
+      if (this.checkNumber()) {
+        components.push({ number: this.parseInteger() });
+      } else {
+        const name = this.parseIdentifier();
+        this.skipWhitespaceAndComments();
+        if (this.check('(')) {
+          this.expectToken('(');
+          components.push({ name, number: this.parseInteger() });
+          this.expectToken(')');
+        } else {
+          components.push({ name });
+        }
+      }
+
+      this.skipWhitespaceAndComments();
+      if (this.check(',')) {
+        this.expectToken(',');
+      }
+      this.skipWhitespaceAndComments();
+    }
+
+    this.expectToken('}');
+    return components;
+  }
+
+  /**
+   * Parse an identifier. Single hyphens may join its parts, as in
+   * member-body; a double hyphen starts a comment.
+   */
   private parseIdentifier(): string {
     this.skipWhitespaceAndComments();
     if (!this.isAlpha(this.peek())) {
       this.error('Expected identifier');
     }
     const start = this.position;
-    while (this.isAlphaNumeric(this.peek())) {
+    while (
+      this.isAlphaNumeric(this.peek()) ||
+      (this.peek() === '-' && this.isAlphaNumeric(this.peekNext()))
+    ) {
       this.advance();
     }
     return this.input.substring(start, this.position);
@@ -388,15 +884,52 @@ export class Asn1Parser {
     return negative ? -value : value;
   }
 
-  private parseString(): string {
-    this.expectToken('"');
-    const start = this.position;
+  /**
+   * Parse an integer literal, keeping values beyond 2^53 exact as bigint
+   */
+  private parseInteger(): number | bigint {
+    this.skipWhitespaceAndComments();
+    
+    let negative = false;
+    if (this.check('-')) {
+      negative = true;
+      this.advance();
+    }
+    
+    if (!this.isDigit(this.peek())) {
+      this.error('Expected number');
+    }
     
-    while (!this.check('"') && !this.isAtEnd()) {
+    const start = this.position;
+    while (this.isDigit(this.peek())) {
       this.advance();
     }
     
-    const value = this.input.substring(start, this.position);
+    const magnitude = BigInt(this.input.substring(start, this.position));
+    const value = negative ? -magnitude : magnitude;
+    if (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  /**
+   * Parse a character string literal, in which "" stands for a quotation mark
+   */
+  private parseString(): string {
+    this.expectToken('"');
+    let value = '';
+
+    while (!this.isAtEnd()) {
+      if (this.check('"')) {
+        if (this.peekNext() !== '"') {
+          break;
+        }
+        this.advance();
+      }
+      value += this.advance();
+    }
+
     this.expectToken('"');
     return value;
   }
@@ -488,6 +1021,10 @@ export class Asn1Parser {
     return /[a-zA-Z]/.test(char);
   }
 
+  private isLowerCase(char: string): boolean {
+    return /[a-z]/.test(char);
+  }
+
   private isDigit(char: string): boolean {
     return /[0-9]/.test(char);
   }
@@ -0,0 +1,874 @@
+/**
+ * PER (Packed Encoding Rules, X.691) codec
+ */
+
+import { Asn1Type, Codec, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import { toSafeNumber, concatBytes } from '../ber/encoding';
+import {
+  IntegerType,
+  BooleanType,
+  BitStringType,
+  OctetStringType,
+  NullType,
+  RealType,
+  ObjectIdentifierType,
+  RestrictedStringType,
+  UsefulTimeType,
+  EnumeratedType,
+  AnyType,
+  copyBits,
+  getBit
+} from '../ber/types';
+import {
+  SequenceType,
+  SequenceOfType,
+  SetType,
+  ChoiceType,
+  ReferenceType,
+  TaggedType,
+  SequenceMember,
+  isDefaultValue,
+  memberType,
+  outermostTags,
+  unknownExtensions
+} from '../ber/complex-types';
+import {
+  BitWriter,
+  BitReader,
+  bitLength,
+  encodeConstrainedWholeNumber,
+  decodeConstrainedWholeNumber,
+  encodeSemiConstrainedWholeNumber,
+  decodeSemiConstrainedWholeNumber,
+  encodeUnconstrainedWholeNumber,
+  decodeUnconstrainedWholeNumber,
+  encodeNormallySmallNumber,
+  decodeNormallySmallNumber,
+  encodeExtensionBitmap,
+  decodeExtensionBitmap,
+  encodeLengthPrefixed,
+  decodeLengthPrefixed,
+  isWithinSize,
+  sizeError
+} from './encoding';
+
+/**
+ * UTCTime and GeneralizedTime are sent as VisibleString values (X.691 32)
+ */
+const VISIBLE_STRING = new RestrictedStringType('VisibleString', 'VisibleString');
+
+/**
+ * PER codec driven by the constraints of the compiled types. The aligned
+ * (PER) and unaligned (UPER) variants differ only in octet alignment.
+ */
+export class PerCodec implements Codec {
+  private aligned: boolean;
+  private choiceOrder: WeakMap<ChoiceType, { root: string[]; additions: string[] }> = new WeakMap();
+
+  constructor(aligned: boolean = true) {
+    this.aligned = aligned;
+  }
+
+  encode(type: Asn1Type, value: any): Uint8Array {
+    const writer = new BitWriter(this.aligned);
+    this.encodeValue(writer, type, value);
+    const encoded = writer.toBytes();
+
+    // An empty complete encoding is replaced by a single zero octet
+    return encoded.length > 0 ? encoded : new Uint8Array([0]);
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    return this.decodeValue(new BitReader(data, this.aligned), type);
+  }
+
+  private encodeValue(writer: BitWriter, type: Asn1Type, value: any): void {
+    if (type instanceof IntegerType) {
+      this.encodeInteger(writer, type, value);
+    } else if (type instanceof BooleanType) {
+      if (typeof value !== 'boolean') {
+        throw new EncodeError(`BOOLEAN ${type.name}: expected boolean, got ${typeof value}`);
+      }
+      writer.writeBit(value ? 1 : 0);
+    } else if (type instanceof NullType) {
+      if (value !== null && value !== undefined) {
+        throw new EncodeError(`NULL ${type.name}: expected null or undefined, got ${typeof value}`);
+      }
+    } else if (type instanceof BitStringType) {
+      this.encodeBitString(writer, type, value);
+    } else if (type instanceof OctetStringType) {
+      this.encodeOctetString(writer, type, value);
+    } else if (type instanceof ObjectIdentifierType || type instanceof RealType) {
+      // The BER contents octets with an unconstrained length (X.691 15, 24)
+      this.encodeUnconstrainedOctets(writer, type.toContents(value));
+    } else if (type instanceof RestrictedStringType) {
+      this.encodeRestrictedString(writer, type, value);
+    } else if (type instanceof UsefulTimeType) {
+      this.encodeRestrictedString(writer, VISIBLE_STRING, type.toText(value));
+    } else if (type instanceof EnumeratedType) {
+      this.encodeEnumerated(writer, type, value);
+    } else if (type instanceof SequenceType) {
+      this.encodeSequence(writer, type, value);
+    } else if (type instanceof SequenceOfType) {
+      this.encodeSequenceOf(writer, type, value);
+    } else if (type instanceof ChoiceType) {
+      this.encodeChoice(writer, type, value);
+    } else if (type instanceof AnyType) {
+      // An open type field holding an encoding of an unknown type (X.691 11.2)
+      this.encodeUnconstrainedOctets(writer, type.toBytes(value));
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      this.encodeValue(writer, type.type, value);
+    } else {
+      throw new EncodeError(`PER: unsupported type ${type.name}`);
+    }
+  }
+
+  private decodeValue(reader: BitReader, type: Asn1Type): any {
+    if (type instanceof IntegerType) {
+      return this.decodeInteger(reader, type);
+    } else if (type instanceof BooleanType) {
+      return reader.readBit() === 1;
+    } else if (type instanceof NullType) {
+      return null;
+    } else if (type instanceof BitStringType) {
+      return this.decodeBitString(reader, type);
+    } else if (type instanceof OctetStringType) {
+      return this.decodeOctetString(reader, type);
+    } else if (type instanceof ObjectIdentifierType || type instanceof RealType) {
+      const offset = reader.offset;
+      return type.fromContents(this.decodeUnconstrainedOctets(reader), offset);
+    } else if (type instanceof RestrictedStringType) {
+      return this.decodeRestrictedString(reader, type);
+    } else if (type instanceof UsefulTimeType) {
+      const offset = reader.offset;
+      return type.fromText(this.decodeRestrictedString(reader, VISIBLE_STRING), offset);
+    } else if (type instanceof EnumeratedType) {
+      return this.decodeEnumerated(reader, type);
+    } else if (type instanceof SequenceType) {
+      return this.decodeSequence(reader, type);
+    } else if (type instanceof SequenceOfType) {
+      return this.decodeSequenceOf(reader, type);
+    } else if (type instanceof ChoiceType) {
+      return this.decodeChoice(reader, type);
+    } else if (type instanceof AnyType) {
+      return this.decodeUnconstrainedOctets(reader);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.decodeValue(reader, type.type);
+    }
+    throw new DecodeError(`PER: unsupported type ${type.name}`, reader.offset);
+  }
+
+  /**
+   * Octets with an unconstrained length, each fragment octet-aligned
+   */
+  private encodeUnconstrainedOctets(writer: BitWriter, bytes: Uint8Array): void {
+    encodeLengthPrefixed(writer, bytes.length, undefined, (start, end) => {
+      writer.align();
+      writer.writeBytes(bytes.subarray(start, end));
+    });
+  }
+
+  private decodeUnconstrainedOctets(reader: BitReader): Uint8Array {
+    const parts: Uint8Array[] = [];
+    decodeLengthPrefixed(reader, undefined, count => {
+      reader.align();
+      parts.push(reader.readBytes(count));
+    });
+    return concatBytes(parts);
+  }
+
+  private encodeInteger(writer: BitWriter, type: IntegerType, value: any): void {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      throw new EncodeError(`INTEGER ${type.name}: expected number or bigint, got ${typeof value}`);
+    }
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      throw new EncodeError(`INTEGER ${type.name}: value must be an integer`);
+    }
+
+    const integer = BigInt(value);
+    const min = type.range?.min !== undefined ? BigInt(type.range.min) : undefined;
+    const max = type.range?.max !== undefined ? BigInt(type.range.max) : undefined;
+    const inRoot = (min === undefined || integer >= min) && (max === undefined || integer <= max);
+
+    if (type.range?.extensible) {
+      writer.writeBit(inRoot ? 0 : 1);
+      if (!inRoot) {
+        encodeUnconstrainedWholeNumber(writer, integer);
+        return;
+      }
+    } else if (!inRoot) {
+      throw new EncodeError(`INTEGER ${type.name}: value ${integer} outside range ${min ?? 'MIN'}..${max ?? 'MAX'}`);
+    }
+
+    if (min !== undefined && max !== undefined) {
+      encodeConstrainedWholeNumber(writer, integer, min, max);
+    } else if (min !== undefined) {
+      encodeSemiConstrainedWholeNumber(writer, integer, min);
+    } else {
+      encodeUnconstrainedWholeNumber(writer, integer);
+    }
+  }
+
+  private decodeInteger(reader: BitReader, type: IntegerType): number | bigint {
+    const min = type.range?.min !== undefined ? BigInt(type.range.min) : undefined;
+    const max = type.range?.max !== undefined ? BigInt(type.range.max) : undefined;
+
+    if (type.range?.extensible && reader.readBit() === 1) {
+      return toSafeNumber(decodeUnconstrainedWholeNumber(reader));
+    }
+
+    if (min !== undefined && max !== undefined) {
+      return toSafeNumber(decodeConstrainedWholeNumber(reader, min, max));
+    } else if (min !== undefined) {
+      return toSafeNumber(decodeSemiConstrainedWholeNumber(reader, min));
+    }
+    return toSafeNumber(decodeUnconstrainedWholeNumber(reader));
+  }
+
+  /**
+   * BIT STRING (X.691 16). Named bits are padded to the SIZE lower bound.
+   */
+  private encodeBitString(writer: BitWriter, type: BitStringType, value: any): void {
+    let bits = type.toBitString(value);
+    let size = type.size;
+    const lowerBound = Number(size?.min ?? 0);
+    if (type.namedBits.length > 0 && bits.length < lowerBound) {
+      bits = copyBits(bits.data, lowerBound);
+    }
+
+    if (size?.extensible) {
+      const inRoot = isWithinSize(bits.length, size);
+      writer.writeBit(inRoot ? 0 : 1);
+      if (!inRoot) {
+        size = undefined;
+      }
+    } else if (!isWithinSize(bits.length, size)) {
+      throw sizeError('BIT STRING', type.name, bits.length, size);
+    }
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+    const writeBits = (start: number, end: number) => {
+      for (let bit = start; bit < end; bit++) {
+        writer.writeBit(getBit(bits.data, bit) ? 1 : 0);
+      }
+    };
+
+    if (max === 0) {
+      return;
+    }
+    if (min === max && max <= 16) {
+      writeBits(0, max);
+      return;
+    }
+    if (min === max && max < 65536) {
+      writer.align();
+      writeBits(0, max);
+      return;
+    }
+
+    encodeLengthPrefixed(writer, bits.length, size, (start, end) => {
+      if (end > start) {
+        writer.align();
+        writeBits(start, end);
+      }
+    });
+  }
+
+  private decodeBitString(reader: BitReader, type: BitStringType): any {
+    const offset = reader.offset;
+    let size = type.size;
+    if (size?.extensible && reader.readBit() === 1) {
+      size = undefined;
+    }
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+    const bitValues: number[] = [];
+    const readBits = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        bitValues.push(reader.readBit());
+      }
+    };
+
+    if (min === max && max !== undefined && max <= 16) {
+      readBits(max);
+    } else if (min === max && max !== undefined && max < 65536) {
+      reader.align();
+      readBits(max);
+    } else {
+      decodeLengthPrefixed(reader, size, count => {
+        if (count > 0) {
+          reader.align();
+          readBits(count);
+        }
+      });
+    }
+
+    const data = new Uint8Array(Math.ceil(bitValues.length / 8));
+    bitValues.forEach((bit, index) => {
+      data[index >> 3] = data[index >> 3]! | (bit << (7 - (index & 7)));
+    });
+    return type.fromBitString(type.toBitString({ data, length: bitValues.length }), offset);
+  }
+
+  private encodeOctetString(writer: BitWriter, type: OctetStringType, value: any): void {
+    const bytes = type.toBytes(value);
+    let size = type.size;
+
+    if (size?.extensible) {
+      const inRoot = isWithinSize(bytes.length, size);
+      writer.writeBit(inRoot ? 0 : 1);
+      if (!inRoot) {
+        size = undefined;
+      }
+    } else if (!isWithinSize(bytes.length, size)) {
+      throw sizeError('OCTET STRING', type.name, bytes.length, size);
+    }
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+
+    if (max === 0) {
+      return;
+    }
+    if (min === max && max <= 2) {
+      writer.writeBytes(bytes);
+      return;
+    }
+    if (min === max && max < 65536) {
+      writer.align();
+      writer.writeBytes(bytes);
+      return;
+    }
+
+    encodeLengthPrefixed(writer, bytes.length, size, (start, end) => {
+      if (end > start) {
+        writer.align();
+        writer.writeBytes(bytes.subarray(start, end));
+      }
+    });
+  }
+
+  private decodeOctetString(reader: BitReader, type: OctetStringType): Uint8Array {
+    let size = type.size;
+    if (size?.extensible && reader.readBit() === 1) {
+      size = undefined;
+    }
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+
+    if (max === 0) {
+      return new Uint8Array(0);
+    }
+    if (min === max && max <= 2) {
+      return reader.readBytes(max);
+    }
+    if (min === max && max < 65536) {
+      reader.align();
+      return reader.readBytes(max);
+    }
+
+    const parts: Uint8Array[] = [];
+    decodeLengthPrefixed(reader, size, count => {
+      if (count > 0) {
+        reader.align();
+        parts.push(reader.readBytes(count));
+      }
+    });
+    return concatBytes(parts);
+  }
+
+  /**
+   * Restricted character strings (X.691 30). Known-multiplier types pack
+   * each character into a bit-field; the others are sent as their BER
+   * contents octets with an unconstrained length.
+   */
+  private encodeRestrictedString(writer: BitWriter, type: RestrictedStringType, value: any): void {
+    if (!type.knownMultiplier) {
+      const bytes = type.toBytes(value);
+      encodeLengthPrefixed(writer, bytes.length, undefined, (start, end) => {
+        if (end > start) {
+          writer.align();
+          writer.writeBytes(bytes.subarray(start, end));
+        }
+      });
+      return;
+    }
+
+    const codePoints = type.toCodePoints(value);
+    let size = type.size;
+    if (size?.extensible) {
+      const inRoot = isWithinSize(codePoints.length, size);
+      writer.writeBit(inRoot ? 0 : 1);
+      if (!inRoot) {
+        size = undefined;
+      }
+    } else if (!isWithinSize(codePoints.length, size)) {
+      throw sizeError(type.kind, type.name, codePoints.length, size);
+    }
+
+    const { bits, indexed } = this.characterEncoding(type);
+    const writeCharacters = (start: number, end: number) => {
+      for (let i = start; i < end; i++) {
+        writer.writeBits(BigInt(indexed ? this.characterIndex(type, codePoints[i]!) : codePoints[i]!), bits);
+      }
+    };
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+    if (max === 0) {
+      return;
+    }
+    if (min === max && max * bits <= 16) {
+      writeCharacters(0, max);
+      return;
+    }
+    if (min === max && max < 65536) {
+      writer.align();
+      writeCharacters(0, max);
+      return;
+    }
+
+    encodeLengthPrefixed(writer, codePoints.length, size, (start, end) => {
+      if (end > start && (max === undefined || max * bits > 16)) {
+        writer.align();
+      }
+      writeCharacters(start, end);
+    });
+  }
+
+  private decodeRestrictedString(reader: BitReader, type: RestrictedStringType): string {
+    const offset = reader.offset;
+    if (!type.knownMultiplier) {
+      const parts: Uint8Array[] = [];
+      decodeLengthPrefixed(reader, undefined, count => {
+        if (count > 0) {
+          reader.align();
+          parts.push(reader.readBytes(count));
+        }
+      });
+      return type.fromBytes(concatBytes(parts), offset);
+    }
+
+    let size = type.size;
+    if (size?.extensible && reader.readBit() === 1) {
+      size = undefined;
+    }
+
+    const { bits, indexed } = this.characterEncoding(type);
+    let text = '';
+    const readCharacters = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        const code = Number(reader.readBits(bits));
+        const codePoint = indexed ? this.indexedCharacter(type, code) : code;
+        if (codePoint === undefined || codePoint > 0x10ffff) {
+          throw new DecodeError(`${type.kind} ${type.name}: invalid character code ${code}`, reader.offset);
+        }
+        text += String.fromCodePoint(codePoint);
+      }
+    };
+
+    const min = Number(size?.min ?? 0);
+    const max = size?.max !== undefined ? Number(size.max) : undefined;
+    if (max === 0) {
+      return '';
+    }
+    if (min === max && max * bits <= 16) {
+      readCharacters(max);
+    } else if (min === max && max < 65536) {
+      reader.align();
+      readCharacters(max);
+    } else {
+      decodeLengthPrefixed(reader, size, count => {
+        if (count > 0 && (max === undefined || max * bits > 16)) {
+          reader.align();
+        }
+        readCharacters(count);
+      });
+    }
+    return text;
+  }
+
+  /**
+   * Bits per character of a known-multiplier string type, rounded up to a
+   * power of two in the aligned variant, and whether characters are sent as
+   * their index in the alphabet because their values do not fit (X.691 30.5.2-4)
+   */
+  private characterEncoding(type: RestrictedStringType): { bits: number; indexed: boolean } {
+    const count = type.alphabet.reduce((total, [from, to]) => total + (to - from + 1), 0);
+    let bits = bitLength(BigInt(count - 1));
+    if (this.aligned) {
+      bits = 2 ** Math.ceil(Math.log2(bits));
+    }
+    const largest = type.alphabet[type.alphabet.length - 1]![1];
+    return { bits, indexed: largest > 2 ** bits - 1 };
+  }
+
+  private characterIndex(type: RestrictedStringType, codePoint: number): number {
+    let index = 0;
+    for (const [from, to] of type.alphabet) {
+      if (codePoint <= to) {
+        return index + codePoint - from;
+      }
+      index += to - from + 1;
+    }
+    return index;
+  }
+
+  private indexedCharacter(type: RestrictedStringType, index: number): number | undefined {
+    for (const [from, to] of type.alphabet) {
+      if (index <= to - from) {
+        return from + index;
+      }
+      index -= to - from + 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * ENUMERATED (X.691 14). Extension additions are sent by their index
+   * among the additions, which is all that is kept of unknown ones, as
+   * { [UNKNOWN_EXTENSIONS]: index }.
+   */
+  private encodeEnumerated(writer: BitWriter, type: EnumeratedType, value: any): void {
+    if (type.extensible && value !== null && typeof value === 'object' && UNKNOWN_EXTENSIONS in value) {
+      const index = value[UNKNOWN_EXTENSIONS];
+      if (!Number.isInteger(index) || index < 0) {
+        throw new EncodeError(`ENUMERATED ${type.name}: expected unknown extension index, got ${index}`);
+      }
+      writer.writeBit(1);
+      encodeNormallySmallNumber(writer, index);
+      return;
+    }
+
+    const number = type.toNumber(value);
+    const root = this.sortedEnumeration(type.values.slice(0, type.values.length - type.additions.length));
+    const index = root.indexOf(number);
+    if (type.extensible) {
+      writer.writeBit(index < 0 ? 1 : 0);
+    }
+    if (index >= 0) {
+      encodeConstrainedWholeNumber(writer, BigInt(index), 0n, BigInt(root.length - 1));
+      return;
+    }
+
+    const additionIndex = this.sortedEnumeration(type.additions).indexOf(number);
+    if (additionIndex < 0) {
+      throw new EncodeError(`ENUMERATED ${type.name}: unknown numeric value ${number}`);
+    }
+    encodeNormallySmallNumber(writer, additionIndex);
+  }
+
+  private decodeEnumerated(reader: BitReader, type: EnumeratedType): any {
+    const offset = reader.offset;
+    if (type.extensible && reader.readBit() === 1) {
+      const index = decodeNormallySmallNumber(reader);
+      const number = this.sortedEnumeration(type.additions)[index];
+      return number === undefined ? { [UNKNOWN_EXTENSIONS]: index } : type.fromNumber(number, offset);
+    }
+
+    const root = this.sortedEnumeration(type.values.slice(0, type.values.length - type.additions.length));
+    const index = Number(decodeConstrainedWholeNumber(reader, 0n, BigInt(root.length - 1)));
+    const number = root[index];
+    if (number === undefined) {
+      throw new DecodeError(`ENUMERATED ${type.name}: unknown index ${index}`, reader.offset);
+    }
+    return type.fromNumber(number, offset);
+  }
+
+  /**
+   * Enumeration numbers in ascending order, the PER index order
+   */
+  private sortedEnumeration(values: Array<[string, number]>): number[] {
+    return values.map(([, number]) => number).sort((a, b) => a - b);
+  }
+
+  /**
+   * SEQUENCE and SET (X.691 19, 21). Extension additions follow the root
+   * members as open types, after a bitmap of those present.
+   */
+  private encodeSequence(writer: BitWriter, type: SequenceType, value: any): void {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${type.kind} ${type.name}: expected object, got ${typeof value}`);
+    }
+
+    const members = this.rootMembers(type);
+    const extensions = type.extensible ? this.encodeExtensionAdditions(type, value) : [];
+    const extended = extensions.some(extension => extension !== null);
+    if (type.extensible) {
+      writer.writeBit(extended ? 1 : 0);
+    }
+
+    const present = members.map(member => {
+      const memberValue = value[member.name];
+      if (memberValue === undefined || memberValue === null) {
+        if (member.optional || member.defaultValue !== undefined) {
+          return false;
+        }
+        throw new EncodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+      }
+      return member.defaultValue === undefined || !isDefaultValue(memberValue, member.defaultValue);
+    });
+
+    // Preamble: one presence bit per OPTIONAL or DEFAULT member
+    members.forEach((member, index) => {
+      if (member.optional || member.defaultValue !== undefined) {
+        writer.writeBit(present[index] ? 1 : 0);
+      }
+    });
+
+    members.forEach((member, index) => {
+      if (!present[index]) {
+        return;
+      }
+      // A known type of an open type is sent as its complete encoding
+      const valueType = memberType(member, value);
+      if (valueType !== member.type) {
+        this.encodeUnconstrainedOctets(writer, this.encode(valueType, value[member.name]));
+      } else {
+        this.encodeValue(writer, valueType, value[member.name]);
+      }
+    });
+
+    if (extended) {
+      encodeExtensionBitmap(writer, extensions.map(extension => extension !== null));
+      for (const extension of extensions) {
+        if (extension) {
+          this.encodeUnconstrainedOctets(writer, extension);
+        }
+      }
+    }
+  }
+
+  /**
+   * Root members in the order they are sent, SET members in the canonical
+   * order of their tags
+   */
+  private rootMembers(type: SequenceType): SequenceMember[] {
+    const members = type instanceof SetType ? type.canonicalMembers : type.members;
+    return members.filter(member => member.addition === undefined);
+  }
+
+  /**
+   * Complete encodings of the extension additions of a value, known ones
+   * followed by unknown ones, null for those absent. A version group is
+   * present when any of its members is.
+   */
+  private encodeExtensionAdditions(type: SequenceType, value: any): Array<Uint8Array | null> {
+    const isPresent = (member: SequenceMember) => {
+      const memberValue = value[member.name];
+      return (
+        memberValue !== undefined &&
+        memberValue !== null &&
+        (member.defaultValue === undefined || !isDefaultValue(memberValue, member.defaultValue))
+      );
+    };
+
+    const known = type.extensionAdditions.map(addition => {
+      if (addition instanceof SequenceType) {
+        return addition.members.some(isPresent) ? this.encode(addition, value) : null;
+      }
+      return isPresent(addition) ? this.encode(memberType(addition, value), value[addition.name]) : null;
+    });
+    return [...known, ...unknownExtensions(type.kind, type.name, value)];
+  }
+
+  private decodeSequence(reader: BitReader, type: SequenceType): any {
+    const members = this.rootMembers(type);
+    const extended = type.extensible && reader.readBit() === 1;
+
+    const present = members.map(member =>
+      member.optional || member.defaultValue !== undefined ? reader.readBit() === 1 : true
+    );
+
+    const result: any = {};
+    members.forEach((member, index) => {
+      const valueType = memberType(member, result);
+      if (present[index] && valueType !== member.type) {
+        result[member.name] = this.decode(valueType, this.decodeUnconstrainedOctets(reader));
+      } else if (present[index]) {
+        result[member.name] = this.decodeValue(reader, valueType);
+      } else if (member.defaultValue !== undefined) {
+        result[member.name] = member.defaultValue;
+      }
+    });
+
+    if (extended) {
+      this.decodeExtensionAdditions(reader, type, result);
+    }
+    for (const member of type.members) {
+      if (member.addition !== undefined && member.defaultValue !== undefined && !(member.name in result)) {
+        result[member.name] = member.defaultValue;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decode the extension additions present into a value, keeping unknown
+   * ones with null for those absent
+   */
+  private decodeExtensionAdditions(reader: BitReader, type: SequenceType, result: any): void {
+    const additions = type.extensionAdditions;
+    const unknown: Array<Uint8Array | null> = [];
+
+    decodeExtensionBitmap(reader).forEach((present, index) => {
+      const addition = additions[index];
+      const encoding = present ? this.decodeUnconstrainedOctets(reader) : null;
+      if (!addition) {
+        unknown.push(encoding);
+      } else if (!encoding) {
+        return;
+      } else if (addition instanceof SequenceType) {
+        Object.assign(result, this.decode(addition, encoding));
+      } else {
+        result[addition.name] = this.decode(memberType(addition, result), encoding);
+      }
+    });
+
+    if (unknown.length > 0) {
+      result[UNKNOWN_EXTENSIONS] = unknown;
+    }
+  }
+
+  private encodeSequenceOf(writer: BitWriter, type: SequenceOfType, value: any): void {
+    if (!Array.isArray(value)) {
+      throw new EncodeError(`${type.kind} ${type.name}: expected array, got ${typeof value}`);
+    }
+
+    let size = type.size;
+    if (size?.extensible) {
+      const inRoot = isWithinSize(value.length, size);
+      writer.writeBit(inRoot ? 0 : 1);
+      if (!inRoot) {
+        size = undefined;
+      }
+    } else if (!isWithinSize(value.length, size)) {
+      throw sizeError(type.kind, type.name, value.length, size);
+    }
+
+    const writeElements = (start: number, end: number) => {
+      for (let i = start; i < end; i++) {
+        try {
+          this.encodeValue(writer, type.elementType, value[i]);
+        } catch (error) {
+          throw new EncodeError(
+            `${type.kind} ${type.name}: failed to encode element ${i}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    };
+
+    if (size?.min !== undefined && size.min === size.max && Number(size.max) < 65536) {
+      writeElements(0, value.length);
+    } else {
+      encodeLengthPrefixed(writer, value.length, size, writeElements);
+    }
+  }
+
+  private decodeSequenceOf(reader: BitReader, type: SequenceOfType): any[] {
+    let size = type.size;
+    if (size?.extensible && reader.readBit() === 1) {
+      size = undefined;
+    }
+
+    const result: any[] = [];
+    const readElements = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        result.push(this.decodeValue(reader, type.elementType));
+      }
+    };
+
+    if (size?.min !== undefined && size.min === size.max && Number(size.max) < 65536) {
+      readElements(Number(size.max));
+    } else {
+      decodeLengthPrefixed(reader, size, readElements);
+    }
+    return result;
+  }
+
+  private encodeChoice(writer: BitWriter, type: ChoiceType, value: any): void {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with single property, got ${typeof value}`);
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length !== 1) {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one property, got ${keys.length}`);
+    }
+
+    const choiceName = keys[0]!;
+    if (choiceName === UNKNOWN_EXTENSIONS && type.extensible) {
+      const { index, encoding } = value[choiceName] ?? {};
+      if (!Number.isInteger(index) || index < 0 || !(encoding instanceof Uint8Array)) {
+        throw new EncodeError(`CHOICE ${type.name}: expected unknown extension as { index, encoding }`);
+      }
+      writer.writeBit(1);
+      encodeNormallySmallNumber(writer, index);
+      this.encodeUnconstrainedOctets(writer, encoding);
+      return;
+    }
+
+    const choice = type.choices.get(choiceName);
+    if (!choice) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+
+    const { root, additions } = this.alternativeOrder(type);
+    if (type.extensible) {
+      writer.writeBit(choice.addition !== undefined ? 1 : 0);
+    }
+    if (choice.addition !== undefined) {
+      // Extension additions are sent as open types after their index
+      encodeNormallySmallNumber(writer, additions.indexOf(choiceName));
+      this.encodeUnconstrainedOctets(writer, this.encode(choice.type, value[choiceName]));
+      return;
+    }
+    encodeConstrainedWholeNumber(writer, BigInt(root.indexOf(choiceName)), 0n, BigInt(root.length - 1));
+    this.encodeValue(writer, choice.type, value[choiceName]);
+  }
+
+  /**
+   * Unknown alternatives of extensible types decode to
+   * { [UNKNOWN_EXTENSIONS]: { index, encoding } }
+   */
+  private decodeChoice(reader: BitReader, type: ChoiceType): any {
+    const { root, additions } = this.alternativeOrder(type);
+    if (type.extensible && reader.readBit() === 1) {
+      const index = decodeNormallySmallNumber(reader);
+      const encoding = this.decodeUnconstrainedOctets(reader);
+      const choiceName = additions[index];
+      if (choiceName === undefined) {
+        return { [UNKNOWN_EXTENSIONS]: { index, encoding } };
+      }
+      return { [choiceName]: this.decode(type.choices.get(choiceName)!.type, encoding) };
+    }
+
+    const index = Number(decodeConstrainedWholeNumber(reader, 0n, BigInt(root.length - 1)));
+    const choiceName = root[index]!;
+    const choice = type.choices.get(choiceName)!;
+    return { [choiceName]: this.decodeValue(reader, choice.type) };
+  }
+
+  /**
+   * Root alternatives and extension additions of a CHOICE, each in
+   * canonical tag order, which defines their PER indexes
+   */
+  private alternativeOrder(type: ChoiceType): { root: string[]; additions: string[] } {
+    let order = this.choiceOrder.get(type);
+    if (!order) {
+      const sorted = Array.from(type.choices.entries()).sort(
+        ([, a], [, b]) => Math.min(...outermostTags(a.type)) - Math.min(...outermostTags(b.type))
+      );
+      order = {
+        root: sorted.filter(([, choice]) => choice.addition === undefined).map(([name]) => name),
+        additions: sorted.filter(([, choice]) => choice.addition !== undefined).map(([name]) => name)
+      };
+      this.choiceOrder.set(type, order);
+    }
+    return order;
+  }
+
+}
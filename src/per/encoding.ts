@@ -0,0 +1,411 @@
+/**
+ * PER (Packed Encoding Rules, X.691) bit-level encoding utilities
+ */
+
+import { ValueRange, EncodeError, DecodeError } from '../types';
+import { encodeSignedInteger, decodeSignedInteger, concatBytes } from '../ber/encoding';
+
+/**
+ * Number of items in one length determinant fragment (X.691 11.9.3.8)
+ */
+const FRAGMENT_SIZE = 16384;
+
+/**
+ * Writes a PER bit stream, most significant bit first. The unaligned
+ * variant (UPER) never pads to octet boundaries.
+ */
+export class BitWriter {
+  public readonly aligned: boolean;
+  private bytes: number[] = [];
+  private bitLength: number = 0;
+
+  constructor(aligned: boolean = true) {
+    this.aligned = aligned;
+  }
+
+  writeBit(bit: number): void {
+    const byteIndex = this.bitLength >> 3;
+    if (byteIndex === this.bytes.length) {
+      this.bytes.push(0);
+    }
+    if (bit) {
+      this.bytes[byteIndex] = this.bytes[byteIndex]! | (0x80 >> (this.bitLength & 7));
+    }
+    this.bitLength++;
+  }
+
+  writeBits(value: bigint, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit(Number((value >> BigInt(i)) & 1n));
+    }
+  }
+
+  writeBytes(data: Uint8Array): void {
+    if ((this.bitLength & 7) === 0) {
+      for (const byte of data) {
+        this.bytes.push(byte);
+      }
+      this.bitLength += data.length * 8;
+      return;
+    }
+
+    for (const byte of data) {
+      this.writeBits(BigInt(byte), 8);
+    }
+  }
+
+  /**
+   * Pad with zero bits up to the next octet boundary (aligned variant only)
+   */
+  align(): void {
+    const remainder = this.bitLength & 7;
+    if (this.aligned && remainder !== 0) {
+      this.bitLength += 8 - remainder;
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+/**
+ * Reads a PER bit stream, most significant bit first
+ */
+export class BitReader {
+  public readonly aligned: boolean;
+  private data: Uint8Array;
+  private bitOffset: number = 0;
+
+  constructor(data: Uint8Array, aligned: boolean = true) {
+    this.data = data;
+    this.aligned = aligned;
+  }
+
+  get offset(): number {
+    return this.bitOffset >> 3;
+  }
+
+  readBit(): number {
+    if (this.bitOffset >= this.data.length * 8) {
+      throw new DecodeError('Unexpected end of PER data', this.offset);
+    }
+    const byte = this.data[this.bitOffset >> 3]!;
+    const bit = (byte >> (7 - (this.bitOffset & 7))) & 1;
+    this.bitOffset++;
+    return bit;
+  }
+
+  readBits(count: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1n) | BigInt(this.readBit());
+    }
+    return value;
+  }
+
+  readBytes(count: number): Uint8Array {
+    if ((this.bitOffset & 7) === 0) {
+      const start = this.bitOffset >> 3;
+      if (start + count > this.data.length) {
+        throw new DecodeError('Unexpected end of PER data', this.offset);
+      }
+      this.bitOffset += count * 8;
+      return this.data.slice(start, start + count);
+    }
+
+    const result = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      result[i] = Number(this.readBits(8));
+    }
+    return result;
+  }
+
+  /**
+   * Skip padding bits up to the next octet boundary (aligned variant only)
+   */
+  align(): void {
+    const remainder = this.bitOffset & 7;
+    if (this.aligned && remainder !== 0) {
+      this.bitOffset += 8 - remainder;
+    }
+  }
+}
+
+/**
+ * Number of bits needed to represent a non-negative value
+ */
+export function bitLength(value: bigint): number {
+  let bits = 0;
+  while (value > 0n) {
+    value >>= 1n;
+    bits++;
+  }
+  return bits;
+}
+
+/**
+ * Minimum number of octets (at least one) holding a non-negative value
+ */
+export function octetLength(value: bigint): number {
+  return Math.max(1, Math.ceil(bitLength(value) / 8));
+}
+
+/**
+ * Encode a constrained whole number (X.691 11.5.7). The unaligned variant
+ * always uses a minimal bit-field.
+ */
+export function encodeConstrainedWholeNumber(writer: BitWriter, value: bigint, min: bigint, max: bigint): void {
+  const range = max - min + 1n;
+  const offset = value - min;
+
+  if (range === 1n) {
+    return;
+  }
+
+  if (!writer.aligned || range <= 255n) {
+    writer.writeBits(offset, bitLength(range - 1n));
+  } else if (range === 256n) {
+    writer.align();
+    writer.writeBits(offset, 8);
+  } else if (range <= 65536n) {
+    writer.align();
+    writer.writeBits(offset, 16);
+  } else {
+    // Indefinite length case: octet count as a constrained whole number, then the octets
+    const octets = octetLength(offset);
+    encodeConstrainedWholeNumber(writer, BigInt(octets), 1n, BigInt(octetLength(range - 1n)));
+    writer.align();
+    writer.writeBits(offset, octets * 8);
+  }
+}
+
+/**
+ * Decode a constrained whole number (X.691 11.5.7)
+ */
+export function decodeConstrainedWholeNumber(reader: BitReader, min: bigint, max: bigint): bigint {
+  const range = max - min + 1n;
+
+  if (range === 1n) {
+    return min;
+  }
+
+  let offset: bigint;
+  if (!reader.aligned || range <= 255n) {
+    offset = reader.readBits(bitLength(range - 1n));
+  } else if (range === 256n) {
+    reader.align();
+    offset = reader.readBits(8);
+  } else if (range <= 65536n) {
+    reader.align();
+    offset = reader.readBits(16);
+  } else {
+    const octets = decodeConstrainedWholeNumber(reader, 1n, BigInt(octetLength(range - 1n)));
+    reader.align();
+    offset = reader.readBits(Number(octets) * 8);
+  }
+
+  if (offset >= range) {
+    throw new DecodeError(`Constrained whole number ${min + offset} outside range ${min}..${max}`, reader.offset);
+  }
+  return min + offset;
+}
+
+/**
+ * Encode a semi-constrained whole number (X.691 11.7)
+ */
+export function encodeSemiConstrainedWholeNumber(writer: BitWriter, value: bigint, min: bigint): void {
+  const offset = value - min;
+  const octets = octetLength(offset);
+  encodeLengthPrefixed(writer, octets, undefined, () => writer.writeBits(offset, octets * 8));
+}
+
+/**
+ * Decode a semi-constrained whole number (X.691 11.7)
+ */
+export function decodeSemiConstrainedWholeNumber(reader: BitReader, min: bigint): bigint {
+  let offset = 0n;
+  decodeLengthPrefixed(reader, undefined, count => {
+    offset = (offset << BigInt(count * 8)) | reader.readBits(count * 8);
+  });
+  return min + offset;
+}
+
+/**
+ * Encode an unconstrained whole number in two's complement form (X.691 11.8)
+ */
+export function encodeUnconstrainedWholeNumber(writer: BitWriter, value: bigint): void {
+  const octets = encodeSignedInteger(value);
+  encodeLengthPrefixed(writer, octets.length, undefined, () => writer.writeBytes(octets));
+}
+
+/**
+ * Decode an unconstrained whole number in two's complement form (X.691 11.8)
+ */
+export function decodeUnconstrainedWholeNumber(reader: BitReader): bigint {
+  const parts: Uint8Array[] = [];
+  decodeLengthPrefixed(reader, undefined, count => parts.push(reader.readBytes(count)));
+  return decodeSignedInteger(concatBytes(parts));
+}
+
+/**
+ * Encode a normally small non-negative whole number (X.691 11.6), the
+ * index of an extension addition
+ */
+export function encodeNormallySmallNumber(writer: BitWriter, value: number): void {
+  if (value < 64) {
+    writer.writeBit(0);
+    writer.writeBits(BigInt(value), 6);
+    return;
+  }
+  writer.writeBit(1);
+  encodeSemiConstrainedWholeNumber(writer, BigInt(value), 0n);
+}
+
+/**
+ * Decode a normally small non-negative whole number (X.691 11.6)
+ */
+export function decodeNormallySmallNumber(reader: BitReader): number {
+  if (reader.readBit() === 0) {
+    return Number(reader.readBits(6));
+  }
+  return Number(decodeSemiConstrainedWholeNumber(reader, 0n));
+}
+
+/**
+ * Encode the presence bitmap of the extension additions of a SEQUENCE or
+ * SET, prefixed with its normally small length (X.691 11.9.3.4)
+ */
+export function encodeExtensionBitmap(writer: BitWriter, present: boolean[]): void {
+  const writeBits = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      writer.writeBit(present[i] ? 1 : 0);
+    }
+  };
+
+  if (present.length <= 64) {
+    writer.writeBit(0);
+    writer.writeBits(BigInt(present.length - 1), 6);
+    writeBits(0, present.length);
+  } else {
+    writer.writeBit(1);
+    encodeLengthPrefixed(writer, present.length, undefined, writeBits);
+  }
+}
+
+/**
+ * Decode the presence bitmap of the extension additions of a SEQUENCE or SET
+ */
+export function decodeExtensionBitmap(reader: BitReader): boolean[] {
+  const present: boolean[] = [];
+  const readBits = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      present.push(reader.readBit() === 1);
+    }
+  };
+
+  if (reader.readBit() === 0) {
+    readBits(Number(reader.readBits(6)) + 1);
+  } else {
+    decodeLengthPrefixed(reader, undefined, readBits);
+  }
+  return present;
+}
+
+/**
+ * Encode a length determinant followed by the items it counts (X.691 11.9).
+ * Unconstrained lengths of 16K items or more are split into fragments.
+ */
+export function encodeLengthPrefixed(
+  writer: BitWriter,
+  count: number,
+  size: ValueRange | undefined,
+  writeItems: (start: number, end: number) => void
+): void {
+  const min = Number(size?.min ?? 0);
+  const max = size?.max;
+
+  if (max !== undefined && Number(max) < 65536) {
+    encodeConstrainedWholeNumber(writer, BigInt(count), BigInt(min), BigInt(max));
+    writeItems(0, count);
+    return;
+  }
+
+  let start = 0;
+  while (true) {
+    const remaining = count - start;
+    writer.align();
+
+    if (remaining < 128) {
+      writer.writeBits(BigInt(remaining), 8);
+      writeItems(start, count);
+      return;
+    }
+    if (remaining < FRAGMENT_SIZE) {
+      writer.writeBits(BigInt(0x8000 | remaining), 16);
+      writeItems(start, count);
+      return;
+    }
+
+    const fragments = Math.min(4, Math.floor(remaining / FRAGMENT_SIZE));
+    writer.writeBits(BigInt(0xc0 | fragments), 8);
+    writeItems(start, start + fragments * FRAGMENT_SIZE);
+    start += fragments * FRAGMENT_SIZE;
+  }
+}
+
+/**
+ * Decode a length determinant and read the items it counts (X.691 11.9),
+ * reassembling fragments
+ */
+export function decodeLengthPrefixed(
+  reader: BitReader,
+  size: ValueRange | undefined,
+  readItems: (count: number) => void
+): void {
+  const min = Number(size?.min ?? 0);
+  const max = size?.max;
+
+  if (max !== undefined && Number(max) < 65536) {
+    readItems(Number(decodeConstrainedWholeNumber(reader, BigInt(min), BigInt(max))));
+    return;
+  }
+
+  while (true) {
+    reader.align();
+    const first = Number(reader.readBits(8));
+
+    if ((first & 0x80) === 0) {
+      readItems(first);
+      return;
+    }
+    if ((first & 0x40) === 0) {
+      readItems(((first & 0x3f) << 8) | Number(reader.readBits(8)));
+      return;
+    }
+
+    const fragments = first & 0x3f;
+    if (fragments < 1 || fragments > 4) {
+      throw new DecodeError(`Invalid length determinant fragment count ${fragments}`, reader.offset);
+    }
+    readItems(fragments * FRAGMENT_SIZE);
+  }
+}
+
+/**
+ * Check a length against a SIZE constraint, returning whether it is in the root
+ */
+export function isWithinSize(length: number, size: ValueRange | undefined): boolean {
+  const min = Number(size?.min ?? 0);
+  const max = size?.max;
+  return length >= min && (max === undefined || length <= Number(max));
+}
+
+/**
+ * Build the EncodeError for a length outside its SIZE constraint
+ */
+export function sizeError(kind: string, name: string, length: number, size: ValueRange | undefined): EncodeError {
+  return new EncodeError(
+    `${kind} ${name}: size ${length} outside SIZE(${size?.min ?? 0}..${size?.max ?? 'MAX'})`
+  );
+}
@@ -9,13 +9,92 @@ export interface Asn1Value {
 export interface Asn1Type {
   name: string;
   tag: number;
-  encode(value: any): Uint8Array;
+  tagClass: number;
+  encode(value: any, options?: EncodeOptions): Uint8Array;
   decode(data: Uint8Array, offset?: number): { value: any; length: number };
 }
 
+/**
+ * Codec that walks the compiled type tree to encode and decode values
+ */
+export interface Codec {
+  encode(type: Asn1Type, value: any, options?: EncodeOptions): Uint8Array;
+  decode(type: Asn1Type, data: Uint8Array): any;
+}
+
+/**
+ * Non-default BER output forms, for testing that peers accept every valid
+ * BER variant. Only the BER codec accepts them.
+ */
+export interface EncodeOptions {
+  /** Encode constructed values with the indefinite length form */
+  indefiniteLength?: boolean;
+  /** Encode definite lengths in the long form with at least this many length octets */
+  lengthOctets?: number;
+  /** Send OCTET STRINGs as constructed encodings of segments of at most this many octets */
+  segmentSize?: number;
+  /** Encode REAL values in base 8 or 16, or in ISO 6093 decimal form for base 10 */
+  realBase?: 2 | 8 | 10 | 16;
+}
+
+/**
+ * BIT STRING value: length bits, stored most significant bit first in data
+ */
+export interface BitString {
+  data: Uint8Array;
+  length: number;
+}
+
+/**
+ * DATE value, a day of the Gregorian calendar
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * TIME-OF-DAY value, a local time of day to the second
+ */
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * DATE-TIME value, a local date and time of day
+ */
+export interface DateTime extends CalendarDate, TimeOfDay {}
+
+/**
+ * DURATION value. Components may be omitted; only the last one given may
+ * have a fraction. Weeks cannot be combined with the other components.
+ */
+export interface Duration {
+  years?: number | undefined;
+  months?: number | undefined;
+  weeks?: number | undefined;
+  days?: number | undefined;
+  hours?: number | undefined;
+  minutes?: number | undefined;
+  seconds?: number | undefined;
+}
+
+/**
+ * Effective value range or SIZE constraint of a type, open ends are undefined
+ */
+export interface ValueRange {
+  min?: number | bigint | undefined;
+  max?: number | bigint | undefined;
+  extensible?: boolean | undefined;
+}
+
 export interface Asn1Module {
   name: string;
   types: Map<string, Asn1Type>;
+  values: Map<string, any>;
 }
 
 export interface Asn1Specification {
@@ -23,28 +102,100 @@ export interface Asn1Specification {
   types: Map<string, Asn1Type>;
 }
 
+/**
+ * Tag of a tagged type, such as [APPLICATION 5] IMPLICIT. Without a mode
+ * the tag default of the module applies.
+ */
+export interface ParsedTag {
+  tagClass: 'UNIVERSAL' | 'APPLICATION' | 'CONTEXT' | 'PRIVATE';
+  number: number;
+  mode?: 'IMPLICIT' | 'EXPLICIT' | undefined;
+}
+
 export interface ParsedType {
   name: string;
   type: string;
-  tag?: number | undefined;
+  tag?: ParsedTag | undefined; // Of TAGGED types, whose elementType is the type tagged
   optional?: boolean | undefined;
   default?: any;
   constraints?: any;
   members?: ParsedType[] | undefined;
   elementType?: ParsedType | undefined;
   choices?: ParsedType[] | undefined;
+  extensible?: boolean | undefined; // SEQUENCE, SET, CHOICE and ENUMERATED types with an extension marker
+  extensionEnd?: number | undefined; // Number of components before the root components after a second marker
+  addition?: number | undefined; // Of extension additions, their position, shared by the members of a version group
+  group?: boolean | undefined; // Of extension additions in a version group [[ ]]
+}
+
+/**
+ * Component of braced value notation: a number, a name, or a name with its
+ * number, as in { iso(1) member-body(2) 840 }
+ */
+export interface ParsedValueComponent {
+  name?: string | undefined;
+  number?: number | bigint | undefined;
+}
+
+/**
+ * Braced value notation, interpreted once the type of the value is known
+ */
+export interface ParsedBracedValue {
+  components: ParsedValueComponent[];
+}
+
+/**
+ * A bstring ('0101'B) or hstring ('0A'H), interpreted once the type of the
+ * value is known
+ */
+export interface ParsedBinaryValue {
+  digits: string;
+  radix: 'B' | 'H';
+}
+
+export interface ParsedValueAssignment {
+  name: string;
+  type: ParsedType;
+  value: any;
 }
 
 export interface ParsedModule {
   name: string;
+  tagDefault?: 'EXPLICIT' | 'IMPLICIT' | 'AUTOMATIC' | undefined;
+  extensibilityImplied?: boolean | undefined;
+  /** Components of the module's OBJECT IDENTIFIER, if given after its name */
+  oid?: ParsedValueComponent[] | undefined;
+  /** Names of the modules imported symbols come from, by symbol */
+  imports?: Map<string, string> | undefined;
+  /** Symbols other modules may import, all of them if undefined */
+  exports?: string[] | undefined;
   types: Map<string, ParsedType>;
+  values: Map<string, ParsedValueAssignment>;
 }
 
 export interface CompileOptions {
-  codec?: 'ber' | 'der' | 'per' | 'uper';
+  codec?: 'ber' | 'der' | 'cer' | 'per' | 'uper' | 'oer' | 'coer' | 'xer' | 'jer' | 'gser';
   checkConstraints?: boolean;
+  /**
+   * Types of ANY DEFINED BY members by the value of their governing member,
+   * such as { '1.2.840.113549.1.1.1': 'RSAPublicKey' }. INTEGER values are
+   * given in decimal.
+   */
+  openTypes?: Record<string, string>;
 }
 
+/**
+ * Property of decoded SEQUENCE, SET and CHOICE values of extensible types
+ * that keeps the extension additions the schema does not know, so that
+ * re-encoding with the same codec returns the original encoding
+ */
+export const UNKNOWN_EXTENSIONS = '...';
+
+/**
+ * X.690 encoding rules handled by the TLV type implementations
+ */
+export type EncodingRules = 'ber' | 'der' | 'cer';
+
 // BER encoding constants
 export const BER = {
   CLASS: {
@@ -66,13 +217,33 @@ export const BER = {
     OCTET_STRING: 0x04,
     NULL: 0x05,
     OBJECT_IDENTIFIER: 0x06,
+    OBJECT_DESCRIPTOR: 0x07,
+    EXTERNAL: 0x08,
+    REAL: 0x09,
     ENUMERATED: 0x0a,
+    EMBEDDED_PDV: 0x0b,
+    UTF8_STRING: 0x0c,
+    RELATIVE_OID: 0x0d,
+    TIME: 0x0e,
     SEQUENCE: 0x10,
     SET: 0x11,
+    NUMERIC_STRING: 0x12,
     PRINTABLE_STRING: 0x13,
+    TELETEX_STRING: 0x14,
     IA5_STRING: 0x16,
     UTC_TIME: 0x17,
     GENERALIZED_TIME: 0x18,
+    GRAPHIC_STRING: 0x19,
+    VISIBLE_STRING: 0x1a,
+    GENERAL_STRING: 0x1b,
+    UNIVERSAL_STRING: 0x1c,
+    CHARACTER_STRING: 0x1d,
+    BMP_STRING: 0x1e,
+    DATE: 0x1f,
+    TIME_OF_DAY: 0x20,
+    DATE_TIME: 0x21,
+    DURATION: 0x22,
+    ANY: 0xfe, // Special marker for open types
     CHOICE: 0xff // Special marker for CHOICE types
   }
 } as const;
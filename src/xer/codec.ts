@@ -0,0 +1,398 @@
+/**
+ * XER (XML Encoding Rules, X.693) codec, BASIC-XER without indentation
+ */
+
+import { Asn1Type, Codec, EncodeError, DecodeError, UNKNOWN_EXTENSIONS } from '../types';
+import { toSafeNumber } from '../ber/encoding';
+import {
+  IntegerType,
+  BooleanType,
+  BitStringType,
+  OctetStringType,
+  NullType,
+  RealType,
+  ObjectIdentifierType,
+  RestrictedStringType,
+  UsefulTimeType,
+  TimeType,
+  EnumeratedType,
+  AnyType
+} from '../ber/types';
+import {
+  SequenceType,
+  SequenceOfType,
+  SetType,
+  ChoiceType,
+  ReferenceType,
+  TaggedType,
+  memberType
+} from '../ber/complex-types';
+import { XmlElement, xmlElement, escapeXml, parseXml, toHex, fromHex, toBinary, fromBinary } from './encoding';
+
+/**
+ * REAL values written as empty elements
+ */
+const REAL_SPECIAL_VALUES: Array<[string, number]> = [
+  ['PLUS-INFINITY', Infinity],
+  ['MINUS-INFINITY', -Infinity],
+  ['NOT-A-NUMBER', NaN]
+];
+
+/**
+ * XER codec producing UTF-8 XML text. The root element is named after the
+ * type, SEQUENCE members and CHOICE alternatives after their identifiers.
+ */
+export class XerCodec implements Codec {
+  encode(type: Asn1Type, value: any): Uint8Array {
+    return new TextEncoder().encode(xmlElement(this.elementName(type), this.encodeValue(type, value)));
+  }
+
+  decode(type: Asn1Type, data: Uint8Array): any {
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      throw new DecodeError('XER: data is not valid UTF-8', 0);
+    }
+    return this.decodeValue(parseXml(text), type);
+  }
+
+  /**
+   * Encode the content of the element holding a value
+   */
+  private encodeValue(type: Asn1Type, value: any): string {
+    if (type instanceof IntegerType) {
+      if (typeof value !== 'number' && typeof value !== 'bigint') {
+        throw new EncodeError(`INTEGER ${type.name}: expected number or bigint, got ${typeof value}`);
+      }
+      if (typeof value === 'number' && !Number.isInteger(value)) {
+        throw new EncodeError(`INTEGER ${type.name}: value must be an integer`);
+      }
+      return BigInt(value).toString();
+    } else if (type instanceof BooleanType) {
+      if (typeof value !== 'boolean') {
+        throw new EncodeError(`BOOLEAN ${type.name}: expected boolean, got ${typeof value}`);
+      }
+      return value ? '<true/>' : '<false/>';
+    } else if (type instanceof NullType) {
+      if (value !== null && value !== undefined) {
+        throw new EncodeError(`NULL ${type.name}: expected null or undefined, got ${typeof value}`);
+      }
+      return '';
+    } else if (type instanceof RealType) {
+      return this.encodeReal(type, value);
+    } else if (type instanceof BitStringType) {
+      return this.encodeBitString(type, value);
+    } else if (type instanceof OctetStringType) {
+      return toHex(type.toBytes(value));
+    } else if (type instanceof AnyType) {
+      // Encodings of unknown open types are sent in hexadecimal, like OCTET STRINGs
+      return toHex(type.toBytes(value));
+    } else if (type instanceof ObjectIdentifierType) {
+      type.toContents(value);
+      return value;
+    } else if (type instanceof RestrictedStringType) {
+      for (const codePoint of type.toCodePoints(value)) {
+        if (codePoint < 0x20 && codePoint !== 0x09 && codePoint !== 0x0a && codePoint !== 0x0d) {
+          throw new EncodeError(`${type.kind} ${type.name}: control character ${codePoint} cannot be written in XER`);
+        }
+      }
+      return escapeXml(value);
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      return type.toText(value);
+    } else if (type instanceof EnumeratedType) {
+      return `<${type.toIdentifier(value)}/>`;
+    } else if (type instanceof SequenceType) {
+      return this.encodeSequence(type, value);
+    } else if (type instanceof SequenceOfType) {
+      return this.encodeSequenceOf(type, value);
+    } else if (type instanceof ChoiceType) {
+      return this.encodeChoice(type, value);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.encodeValue(type.type, value);
+    }
+    throw new EncodeError(`XER: unsupported type ${type.name}`);
+  }
+
+  private decodeValue(element: XmlElement, type: Asn1Type): any {
+    if (type instanceof IntegerType) {
+      const text = element.text.trim();
+      if (!/^[+-]?[0-9]+$/.test(text)) {
+        throw new DecodeError(`INTEGER ${type.name}: invalid value '${text}'`, element.offset);
+      }
+      return toSafeNumber(BigInt(text));
+    } else if (type instanceof BooleanType) {
+      const name = this.identifier(element, type);
+      if (name !== 'true' && name !== 'false') {
+        throw new DecodeError(`BOOLEAN ${type.name}: expected <true/> or <false/>`, element.offset);
+      }
+      return name === 'true';
+    } else if (type instanceof NullType) {
+      return null;
+    } else if (type instanceof RealType) {
+      return this.decodeReal(element, type);
+    } else if (type instanceof BitStringType) {
+      return this.decodeBitString(element, type);
+    } else if (type instanceof OctetStringType || type instanceof AnyType) {
+      return fromHex(element.text, element.offset);
+    } else if (type instanceof ObjectIdentifierType) {
+      const text = element.text.trim();
+      if (type.parseArcs(text) === undefined) {
+        throw new DecodeError(`${type.kind} ${type.name}: invalid value '${text}'`, element.offset);
+      }
+      return text;
+    } else if (type instanceof RestrictedStringType) {
+      if (element.children.length > 0) {
+        throw new DecodeError(`${type.kind} ${type.name}: unexpected element <${element.children[0]!.name}>`, element.offset);
+      }
+      return element.text;
+    } else if (type instanceof UsefulTimeType || type instanceof TimeType) {
+      return type.fromText(element.text.trim(), element.offset);
+    } else if (type instanceof EnumeratedType) {
+      const name = this.identifier(element, type);
+      if (!type.values.some(([identifier]) => identifier === name)) {
+        if (type.extensible) {
+          return { [UNKNOWN_EXTENSIONS]: name };
+        }
+        throw new DecodeError(`ENUMERATED ${type.name}: unknown value '${name}'`, element.offset);
+      }
+      return name;
+    } else if (type instanceof SequenceType) {
+      return this.decodeSequence(element, type);
+    } else if (type instanceof SequenceOfType) {
+      return this.decodeSequenceOf(element, type);
+    } else if (type instanceof ChoiceType) {
+      return this.decodeChoice(element, type);
+    } else if (type instanceof ReferenceType || type instanceof TaggedType) {
+      return this.decodeValue(element, type.type);
+    }
+    throw new DecodeError(`XER: unsupported type ${type.name}`, element.offset);
+  }
+
+  /**
+   * Special values are written as empty elements, others as realnumbers
+   * such as 1.5E-3
+   */
+  private encodeReal(type: RealType, value: any): string {
+    if (typeof value !== 'number') {
+      throw new EncodeError(`REAL ${type.name}: expected number, got ${typeof value}`);
+    }
+    const special = REAL_SPECIAL_VALUES.find(([, number]) => Object.is(number, value));
+    if (special) {
+      return `<${special[0]}/>`;
+    }
+    return Object.is(value, -0) ? '-0' : String(value).replace('e+', 'E').replace('e', 'E');
+  }
+
+  private decodeReal(element: XmlElement, type: RealType): number {
+    if (element.children.length > 0) {
+      const name = this.identifier(element, type);
+      const special = REAL_SPECIAL_VALUES.find(([identifier]) => identifier === name);
+      if (!special) {
+        throw new DecodeError(`REAL ${type.name}: unknown value '${name}'`, element.offset);
+      }
+      return special[1];
+    }
+
+    const text = element.text.trim();
+    if (!/^-?[0-9]+(?:\.[0-9]*)?(?:[eE][+-]?[0-9]+)?$/.test(text)) {
+      throw new DecodeError(`REAL ${type.name}: invalid value '${text}'`, element.offset);
+    }
+    return Number(text);
+  }
+
+  /**
+   * Named bits are written as empty elements, other bit strings as binary digits
+   */
+  private encodeBitString(type: BitStringType, value: any): string {
+    const bits = type.toBitString(value);
+    if (type.namedBits.length === 0) {
+      return toBinary(bits);
+    }
+    return (type.fromBitString(bits) as string[]).map(name => `<${name}/>`).join('');
+  }
+
+  private decodeBitString(element: XmlElement, type: BitStringType): any {
+    if (element.children.length === 0) {
+      return type.fromBitString(type.toBitString(fromBinary(element.text, element.offset)), element.offset);
+    }
+
+    if (type.namedBits.length === 0 || element.text.trim() !== '') {
+      throw new DecodeError(`BIT STRING ${type.name}: expected binary digits`, element.offset);
+    }
+    const names = element.children.map(child => child.name);
+    for (const child of element.children) {
+      if (!type.namedBits.some(([name]) => name === child.name)) {
+        throw new DecodeError(`BIT STRING ${type.name}: unknown named bit '${child.name}'`, child.offset);
+      }
+    }
+    return type.fromBitString(type.toBitString(names), element.offset);
+  }
+
+  private encodeSequence(type: SequenceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`${type.kind} ${type.name}: expected object, got ${typeof value}`);
+    }
+
+    return type.members
+      .map(member => {
+        const memberValue = value[member.name];
+        if (memberValue === undefined || memberValue === null) {
+          if (member.optional || member.defaultValue !== undefined || member.addition !== undefined) {
+            return '';
+          }
+          throw new EncodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`);
+        }
+        return xmlElement(member.name, this.encodeValue(memberType(member, value), memberValue));
+      })
+      .join('');
+  }
+
+  private decodeSequence(element: XmlElement, type: SequenceType): any {
+    const result: any = {};
+    let next = 0;
+
+    for (const child of element.children) {
+      const index = type.members.findIndex(member => member.name === child.name);
+      const member = type.members[index];
+      if (!member) {
+        // Extensible types ignore the elements of unknown extension additions
+        if (type.extensible) {
+          continue;
+        }
+        throw new DecodeError(`${type.kind} ${type.name}: unexpected element <${child.name}>`, child.offset);
+      }
+
+      // SET members may appear in any order, SEQUENCE members in definition order
+      if (member.name in result || (!(type instanceof SetType) && index < next)) {
+        throw new DecodeError(`${type.kind} ${type.name}: unexpected element <${child.name}>`, child.offset);
+      }
+      result[member.name] = this.decodeValue(child, memberType(member, result));
+      next = index + 1;
+    }
+
+    for (const member of type.members) {
+      if (member.name in result) {
+        continue;
+      }
+      if (member.defaultValue !== undefined) {
+        result[member.name] = member.defaultValue;
+      } else if (!member.optional && member.addition === undefined) {
+        throw new DecodeError(`${type.kind} ${type.name}: missing required member '${member.name}'`, element.offset);
+      }
+    }
+    return result;
+  }
+
+  private encodeSequenceOf(type: SequenceOfType, value: any): string {
+    if (!Array.isArray(value)) {
+      throw new EncodeError(`${type.kind} ${type.name}: expected array, got ${typeof value}`);
+    }
+
+    // BOOLEAN and ENUMERATED elements use the list form without wrapper elements
+    const listForm = this.isListForm(type.elementType);
+    return value
+      .map(element => {
+        const content = this.encodeValue(type.elementType, element);
+        return listForm ? content : xmlElement(this.elementName(type.elementType), content);
+      })
+      .join('');
+  }
+
+  private decodeSequenceOf(element: XmlElement, type: SequenceOfType): any[] {
+    if (this.isListForm(type.elementType)) {
+      return element.children.map(child =>
+        this.decodeValue({ name: '', children: [child], text: '', offset: child.offset }, type.elementType)
+      );
+    }
+    return element.children.map(child => this.decodeValue(child, type.elementType));
+  }
+
+  private encodeChoice(type: ChoiceType, value: any): string {
+    if (!value || typeof value !== 'object') {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with single property, got ${typeof value}`);
+    }
+
+    const keys = Object.keys(value);
+    if (keys.length !== 1) {
+      throw new EncodeError(`CHOICE ${type.name}: expected object with exactly one property, got ${keys.length}`);
+    }
+
+    const choiceName = keys[0]!;
+    if (choiceName === UNKNOWN_EXTENSIONS) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown extension alternatives cannot be encoded in XER`);
+    }
+    const choice = type.choices.get(choiceName);
+    if (!choice) {
+      throw new EncodeError(`CHOICE ${type.name}: unknown choice '${choiceName}'`);
+    }
+    return xmlElement(choiceName, this.encodeValue(choice.type, value[choiceName]));
+  }
+
+  private decodeChoice(element: XmlElement, type: ChoiceType): any {
+    const child = element.children[0];
+    if (!child || element.children.length !== 1) {
+      throw new DecodeError(`CHOICE ${type.name}: expected exactly one alternative element`, element.offset);
+    }
+
+    const choice = type.choices.get(child.name);
+    if (!choice && type.extensible) {
+      return { [UNKNOWN_EXTENSIONS]: child.name };
+    }
+    if (!choice) {
+      throw new DecodeError(`CHOICE ${type.name}: unknown choice '${child.name}'`, child.offset);
+    }
+    return { [child.name]: this.decodeValue(child, choice.type) };
+  }
+
+  /**
+   * The single empty element naming a BOOLEAN or ENUMERATED value
+   */
+  private identifier(element: XmlElement, type: Asn1Type): string {
+    const child = element.children[0];
+    if (!child || element.children.length !== 1 || element.text.trim() !== '') {
+      throw new DecodeError(`${type.name}: expected a single empty identifier element`, element.offset);
+    }
+    return child.name;
+  }
+
+  private isListForm(type: Asn1Type): boolean {
+    return type instanceof BooleanType || type instanceof EnumeratedType;
+  }
+
+  /**
+   * Element name for a value of a type: its type reference name, or the
+   * XML form of the builtin type name for anonymous types
+   */
+  private elementName(type: Asn1Type): string {
+    if (type.name !== 'Anonymous') {
+      return type.name;
+    }
+    if (type instanceof TaggedType) {
+      return this.elementName(type.type);
+    } else if (type instanceof IntegerType) {
+      return 'INTEGER';
+    } else if (type instanceof BooleanType) {
+      return 'BOOLEAN';
+    } else if (type instanceof RealType) {
+      return 'REAL';
+    } else if (type instanceof BitStringType) {
+      return 'BIT_STRING';
+    } else if (type instanceof OctetStringType) {
+      return 'OCTET_STRING';
+    } else if (type instanceof NullType) {
+      return 'NULL';
+    } else if (type instanceof ObjectIdentifierType) {
+      return type.relative ? 'RELATIVE_OID' : 'OBJECT_IDENTIFIER';
+    } else if (type instanceof RestrictedStringType || type instanceof UsefulTimeType || type instanceof TimeType) {
+      return type.kind;
+    } else if (type instanceof EnumeratedType) {
+      return 'ENUMERATED';
+    } else if (type instanceof SequenceType || type instanceof SequenceOfType) {
+      return type.kind.replace(' ', '_');
+    } else if (type instanceof ChoiceType) {
+      return 'CHOICE';
+    }
+    return type.name;
+  }
+}
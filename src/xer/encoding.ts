@@ -0,0 +1,229 @@
+/**
+ * XER (XML Encoding Rules, X.693) text utilities: a minimal XML reader and writer
+ */
+
+import { BitString, DecodeError } from '../types';
+
+/**
+ * A parsed XML element. Text is the concatenated character data directly
+ * inside the element; offset is the position of its start tag.
+ */
+export interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  text: string;
+  offset: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Escape character data for use in element content
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Write an element, using the empty-element form when it has no content
+ */
+export function xmlElement(name: string, content: string): string {
+  return content.length > 0 ? `<${name}>${content}</${name}>` : `<${name}/>`;
+}
+
+/**
+ * Uppercase hexadecimal form of an octet string
+ */
+export function toHex(data: Uint8Array): string {
+  return Array.from(data)
+    .map(byte => byte.toString(16).toUpperCase().padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse hexadecimal digits, ignoring whitespace
+ */
+export function fromHex(text: string, offset?: number): Uint8Array {
+  const hex = text.replace(/\s+/g, '');
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) {
+    throw new DecodeError(`Invalid hexadecimal value '${text}'`, offset);
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Binary digit form of a bit string
+ */
+export function toBinary(bits: BitString): string {
+  let text = '';
+  for (let bit = 0; bit < bits.length; bit++) {
+    text += (bits.data[bit >> 3]! >> (7 - (bit & 7))) & 1;
+  }
+  return text;
+}
+
+/**
+ * Parse binary digits into a bit string, ignoring whitespace
+ */
+export function fromBinary(text: string, offset?: number): BitString {
+  const binary = text.replace(/\s+/g, '');
+  if (!/^[01]*$/.test(binary)) {
+    throw new DecodeError(`Invalid binary value '${text}'`, offset);
+  }
+
+  const data = new Uint8Array(Math.ceil(binary.length / 8));
+  for (let bit = 0; bit < binary.length; bit++) {
+    if (binary[bit] === '1') {
+      data[bit >> 3] = data[bit >> 3]! | (0x80 >> (bit & 7));
+    }
+  }
+  return { data, length: binary.length };
+}
+
+/**
+ * Parse an XML document into its root element. Declarations, comments and
+ * processing instructions are skipped; attributes are ignored.
+ */
+export function parseXml(text: string): XmlElement {
+  const parser = new XmlParser(text);
+  return parser.parseDocument();
+}
+
+class XmlParser {
+  private input: string;
+  private position: number = 0;
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  parseDocument(): XmlElement {
+    this.skipMisc();
+    const root = this.parseElement();
+    this.skipMisc();
+    if (this.position < this.input.length) {
+      throw new DecodeError('Unexpected content after the root element', this.position);
+    }
+    return root;
+  }
+
+  private parseElement(): XmlElement {
+    const offset = this.position;
+    if (this.input[this.position] !== '<') {
+      throw new DecodeError('Expected element start tag', this.position);
+    }
+    this.position++;
+
+    const name = this.parseName();
+    const close = this.input.indexOf('>', this.position);
+    if (close < 0) {
+      throw new DecodeError(`Unterminated start tag <${name}>`, offset);
+    }
+
+    const element: XmlElement = { name, children: [], text: '', offset };
+    const selfClosing = this.input[close - 1] === '/';
+    this.position = close + 1;
+    if (selfClosing) {
+      return element;
+    }
+
+    while (true) {
+      if (this.position >= this.input.length) {
+        throw new DecodeError(`Missing end tag </${name}>`, offset);
+      }
+
+      if (this.input.startsWith('</', this.position)) {
+        this.position += 2;
+        const endName = this.parseName();
+        this.skipWhitespace();
+        if (endName !== name || this.input[this.position] !== '>') {
+          throw new DecodeError(`Expected end tag </${name}>`, this.position);
+        }
+        this.position++;
+        return element;
+      }
+
+      if (this.input.startsWith('<!--', this.position) || this.input.startsWith('<?', this.position)) {
+        this.skipMarkup();
+      } else if (this.input[this.position] === '<') {
+        element.children.push(this.parseElement());
+      } else {
+        element.text += this.parseText();
+      }
+    }
+  }
+
+  private parseName(): string {
+    const match = /^[A-Za-z_][\w.\-:]*/.exec(this.input.substring(this.position));
+    if (!match) {
+      throw new DecodeError('Expected element name', this.position);
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private parseText(): string {
+    const end = this.input.indexOf('<', this.position);
+    const raw = this.input.substring(this.position, end < 0 ? this.input.length : end);
+    const offset = this.position;
+    this.position += raw.length;
+
+    return raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (entity, reference: string) => {
+      if (reference.startsWith('#x')) {
+        return String.fromCodePoint(parseInt(reference.substring(2), 16));
+      }
+      if (reference.startsWith('#')) {
+        return String.fromCodePoint(parseInt(reference.substring(1), 10));
+      }
+      const replacement = ENTITIES[reference];
+      if (replacement === undefined) {
+        throw new DecodeError(`Unknown entity ${entity}`, offset);
+      }
+      return replacement;
+    });
+  }
+
+  private skipMarkup(): void {
+    const terminator = this.input.startsWith('<!--', this.position) ? '-->' : '?>';
+    const end = this.input.indexOf(terminator, this.position);
+    if (end < 0) {
+      throw new DecodeError('Unterminated markup', this.position);
+    }
+    this.position = end + terminator.length;
+  }
+
+  private skipMisc(): void {
+    while (true) {
+      this.skipWhitespace();
+      if (this.input.startsWith('<!--', this.position) || this.input.startsWith('<?', this.position)) {
+        this.skipMarkup();
+      } else if (this.input.startsWith('<!', this.position)) {
+        // Document type declaration
+        const end = this.input.indexOf('>', this.position);
+        if (end < 0) {
+          throw new DecodeError('Unterminated markup', this.position);
+        }
+        this.position = end + 1;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.input.length && /\s/.test(this.input[this.position]!)) {
+      this.position++;
+    }
+  }
+}
@@ -25,6 +25,15 @@ describe('Basic ASN.1 Types', () => {
       expect(decoded.value).toBe(-42);
     });
 
+    test('should encode negative integers in two\'s complement form', () => {
+      const intType = new IntegerType('testInt');
+
+      expect(Array.from(intType.encode(-1))).toEqual([0x02, 0x01, 0xff]);
+      expect(Array.from(intType.encode(-128))).toEqual([0x02, 0x01, 0x80]);
+      expect(Array.from(intType.encode(-129))).toEqual([0x02, 0x02, 0xff, 0x7f]);
+      expect(intType.decode(new Uint8Array([0x02, 0x02, 0xff, 0x7f])).value).toBe(-129);
+    });
+
     test('should encode and decode zero', () => {
       const intType = new IntegerType('testInt');
       
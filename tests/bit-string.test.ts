@@ -0,0 +1,213 @@
+/**
+ * Tests for BIT STRING types, with and without named bits
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('BIT STRING', () => {
+  const schema = `
+    Bits DEFINITIONS ::= BEGIN
+      Bits ::= BIT STRING
+
+      Fixed ::= BIT STRING (SIZE(4))
+
+      KeyUsage ::= BIT STRING {
+        digitalSignature(0),
+        nonRepudiation(1),
+        keyEncipherment(2),
+        dataEncipherment(3),
+        keyAgreement(4),
+        keyCertSign(5),
+        cRLSign(6),
+        encipherOnly(7),
+        decipherOnly(8)
+      }
+
+      Flags ::= BIT STRING { flagA(0), flagB(3) } (SIZE(8))
+
+      Capabilities ::= SEQUENCE {
+        id INTEGER,
+        flags Flags
+      }
+
+      Options ::= SEQUENCE {
+        b BIT STRING { a(0), b(1) } DEFAULT { a }
+      }
+    END
+  `;
+
+  const bits = (hex: string, length: number) => ({ data: hexToBytes(hex), length });
+
+  describe('BER', () => {
+    const ber = compileString(schema);
+
+    const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+      const encoded = ber.encode(typeName, value);
+      expect(bytesToHex(encoded)).toBe(expectedHex);
+      expect(ber.decode(typeName, encoded)).toEqual(value);
+    };
+
+    test('should keep the exact bit length', () => {
+      roundTrip('Bits', bits('b0', 4), '030204b0');
+      roundTrip('Bits', bits('abcd', 16), '030300abcd');
+      roundTrip('Bits', bits('', 0), '030100');
+    });
+
+    test('should clear bits after the end', () => {
+      expect(bytesToHex(ber.encode('Bits', bits('bf', 4)))).toBe('030204b0');
+    });
+
+    test('should encode named bits as sets of flag names', () => {
+      roundTrip('KeyUsage', ['keyCertSign', 'cRLSign'], '03020106');
+      roundTrip('KeyUsage', ['digitalSignature'], '03020780');
+      roundTrip('KeyUsage', ['decipherOnly'], '0303070080');
+      roundTrip('KeyUsage', [], '030100');
+      expect(bytesToHex(ber.encode('KeyUsage', new Set(['cRLSign', 'keyCertSign'])))).toBe('03020106');
+    });
+
+    test('should remove trailing zero bits of named-bit values', () => {
+      expect(bytesToHex(ber.encode('KeyUsage', bits('06', 8)))).toBe('03020106');
+      expect(bytesToHex(ber.encode('Flags', ['flagB']))).toBe('03020410');
+    });
+
+    test('should decode bit strings with trailing zero bits', () => {
+      expect(ber.decode('KeyUsage', hexToBytes('0302000c'))).toEqual(['keyAgreement', 'keyCertSign']);
+    });
+
+    test('should encode BIT STRING members', () => {
+      roundTrip('Capabilities', { id: 1, flags: ['flagA', 'flagB'] }, '3007020101030204' + '90');
+    });
+
+    test('should reassemble constructed encodings', () => {
+      const value = bits('abc0', 12);
+      const encoded = ber.encode('Bits', value, { segmentSize: 2 });
+
+      expect(bytesToHex(encoded)).toBe('2308030200ab030204c0');
+      expect(ber.decode('Bits', encoded)).toEqual(value);
+    });
+
+    test('should reject invalid encodings', () => {
+      expect(() => ber.decode('Fixed', hexToBytes('030205e0'))).toThrow(/size 3 outside SIZE\(4\.\.4\)/);
+      expect(() => ber.decode('Bits', hexToBytes('0300'))).toThrow(/unused bits octet/);
+      expect(() => ber.decode('Bits', hexToBytes('030108'))).toThrow(/unused bits count/);
+      expect(() => ber.decode('Bits', hexToBytes('2308030201ab030204c0'))).toThrow(/only the last segment/);
+      expect(() => ber.decode('Flags', hexToBytes('03020440'))).toThrow(/bit 1 has no name/);
+    });
+
+    test('should reject invalid values', () => {
+      expect(() => ber.encode('KeyUsage', ['unknown'])).toThrow(/unknown named bit 'unknown'/);
+      expect(() => ber.encode('Bits', ['flagA'])).toThrow(/without named bits/);
+      expect(() => ber.encode('Bits', bits('ab', 9))).toThrow(/does not fit/);
+      expect(() => ber.encode('Bits', hexToBytes('ab'))).toThrow(/expected \{ data, length \}/);
+      expect(() => ber.encode('Fixed', bits('e0', 3))).toThrow(/size 3 outside SIZE\(4\.\.4\)/);
+      expect(bytesToHex(ber.encode('Flags', ['flagA']))).toBe('03020780');
+    });
+  });
+
+  describe('DER', () => {
+    const der = compileString(schema, { codec: 'der' });
+
+    test('should reject non-zero unused bits', () => {
+      expect(() => der.decode('Bits', hexToBytes('03020107'))).toThrow(/DER requires zero unused bits/);
+    });
+
+    test('should reject trailing zero bits in named-bit types', () => {
+      expect(() => der.decode('KeyUsage', hexToBytes('0302000c'))).toThrow(/trailing zero bits/);
+      expect(der.decode('KeyUsage', hexToBytes('0302020c'))).toEqual(['keyAgreement', 'keyCertSign']);
+    });
+
+    test('should omit named-bit DEFAULT values in any order', () => {
+      expect(bytesToHex(der.encode('Options', { b: ['a'] }))).toBe('3000');
+      expect(bytesToHex(der.encode('Options', { b: ['b', 'a'] }))).toBe('3004030206c0');
+      expect(bytesToHex(der.encode('Options', { b: ['a', 'a'] }))).toBe('3000');
+      expect(der.decode('Options', hexToBytes('3000'))).toEqual({ b: ['a'] });
+      expect(() => der.decode('Options', hexToBytes('300403020780'))).toThrow(/forbids encoding DEFAULT value/);
+    });
+
+    test('should take bstring and hstring DEFAULT values', () => {
+      const spec = compileString(`
+        Defaults DEFINITIONS AUTOMATIC TAGS ::= BEGIN
+          Defaults ::= SEQUENCE {
+            a BIT STRING DEFAULT '101'B,
+            b OCTET STRING DEFAULT 'AB'H,
+            c BIT STRING { x(0), y(2) } DEFAULT '101'B,
+            d BIT STRING DEFAULT 'A'H
+          }
+        END
+      `, { codec: 'der' });
+      const defaults = { a: bits('a0', 3), b: hexToBytes('ab'), c: ['x', 'y'], d: bits('a0', 4) };
+
+      expect(bytesToHex(spec.encode('Defaults', defaults))).toBe('3000');
+      expect(spec.decode('Defaults', hexToBytes('3000'))).toEqual(defaults);
+      expect(bytesToHex(spec.encode('Defaults', { ...defaults, a: bits('a0', 4) }))).toBe('30048002' + '04a0');
+    });
+
+    test('should reject bstring values that do not fit the type', () => {
+      expect(() => compileString(`
+        M DEFINITIONS ::= BEGIN
+          T ::= SEQUENCE { c BIT STRING { x(0) } DEFAULT '01'B }
+        END
+      `)).toThrow(/bit 1 has no name/);
+      expect(() => compileString(`
+        M DEFINITIONS ::= BEGIN
+          T ::= SEQUENCE { i INTEGER DEFAULT '01'B }
+        END
+      `)).toThrow(/Unsupported value notation '01'B/);
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each([
+      ['per', 'Bits', bits('b0', 4), '04b0'],
+      ['per', 'Fixed', bits('a0', 4), 'a0'],
+      ['per', 'Flags', ['flagB'], '10'],
+      ['uper', 'Capabilities', { id: 1, flags: ['flagA'] }, '010180'],
+      ['oer', 'Bits', bits('b0', 4), '0204b0'],
+      ['oer', 'Fixed', bits('a0', 4), 'a0'],
+      ['oer', 'Flags', ['flagA', 'flagB'], '90'],
+      ['xer', 'Bits', bits('b0', 4), '<Bits>1011</Bits>'],
+      ['xer', 'KeyUsage', ['keyCertSign', 'cRLSign'], '<KeyUsage><keyCertSign/><cRLSign/></KeyUsage>'],
+      ['jer', 'Bits', bits('b0', 4), '{"value":"B0","length":4}'],
+      ['jer', 'Flags', ['flagA'], '"80"'],
+      ['gser', 'Bits', bits('b0', 4), "'1011'B"],
+      ['gser', 'KeyUsage', ['keyCertSign', 'cRLSign'], '{ keyCertSign, cRLSign }']
+    ] as const)('%s should encode %s', (codec, typeName, value, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode(typeName, value);
+      const text = ['xer', 'jer', 'gser'].includes(codec) ? new TextDecoder().decode(encoded) : bytesToHex(encoded);
+
+      expect(text).toBe(expected);
+      expect(spec.decode(typeName, encoded)).toEqual(value);
+    });
+
+    test('should give fixed sizes of 64K bits a length in PER', () => {
+      const per = compileString(`
+        Large DEFINITIONS ::= BEGIN
+          Below ::= BIT STRING (SIZE(65535))
+          Large ::= BIT STRING (SIZE(65536))
+        END
+      `, { codec: 'per' });
+
+      const below = bits('ff'.repeat(8192), 65535);
+      const belowEncoded = per.encode('Below', below);
+      expect(belowEncoded.length).toBe(8192);
+      expect(per.decode('Below', belowEncoded)).toEqual({ data: hexToBytes('ff'.repeat(8191) + 'fe'), length: 65535 });
+
+      const large = bits('ff'.repeat(8192), 65536);
+      const largeEncoded = per.encode('Large', large);
+      expect(largeEncoded[0]).toBe(0xc4);
+      expect(bytesToHex(largeEncoded.slice(8193))).toBe('00');
+      expect(per.decode('Large', largeEncoded)).toEqual(large);
+    });
+
+    test('should accept alternative text forms', () => {
+      const xer = compileString(schema, { codec: 'xer' });
+      const gser = compileString(schema, { codec: 'gser' });
+      const text = (value: string) => new TextEncoder().encode(value);
+
+      expect(xer.decode('KeyUsage', text('<KeyUsage>0000011</KeyUsage>'))).toEqual(['keyCertSign', 'cRLSign']);
+      expect(gser.decode('Bits', text("'B'H"))).toEqual(bits('b0', 4));
+      expect(gser.decode('KeyUsage', text("'0000011'B"))).toEqual(['keyCertSign', 'cRLSign']);
+    });
+  });
+});
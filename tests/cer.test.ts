@@ -0,0 +1,87 @@
+/**
+ * Tests for the CER codec selected with CompileOptions.codec = 'cer'
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('CER codec', () => {
+  const schema = `
+    Canonical DEFINITIONS ::= BEGIN
+      Flag ::= BOOLEAN
+      Blob ::= OCTET STRING
+      Numbers ::= SEQUENCE OF INTEGER
+
+      Record ::= SEQUENCE {
+        id INTEGER,
+        version INTEGER DEFAULT 0,
+        payload OCTET STRING OPTIONAL
+      }
+
+      Message ::= CHOICE {
+        record [0] Record,
+        number [1] INTEGER
+      }
+    END
+  `;
+
+  const cer = compileString(schema, { codec: 'cer' });
+
+  const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+    const encoded = cer.encode(typeName, value);
+    expect(bytesToHex(encoded)).toBe(expectedHex);
+    expect(cer.decode(typeName, encoded)).toEqual(value);
+  };
+
+  describe('encoding', () => {
+    test('should use indefinite length for constructed types', () => {
+      roundTrip('Record', { id: 5, version: 1 }, '3080020105020101' + '0000');
+      roundTrip('Numbers', [1, 2], '30800201010201020000');
+    });
+
+    test('should leave out members equal to their DEFAULT value', () => {
+      expect(bytesToHex(cer.encode('Record', { id: 5, version: 0 }))).toBe('30800201050000');
+    });
+
+    test('should use indefinite length for context-tagged CHOICE alternatives', () => {
+      roundTrip('Message', { number: 7 }, 'a1800201070000');
+      roundTrip('Message', { record: { id: 1, version: 0 } }, 'a080308002010100000000');
+    });
+
+    test('should keep short primitive types in definite form', () => {
+      roundTrip('Flag', true, '0101ff');
+      roundTrip('Blob', new Uint8Array(1000), '048203e8' + '00'.repeat(1000));
+    });
+
+    test('should segment OCTET STRINGs longer than 1000 octets', () => {
+      const data = new Uint8Array(2500).map((_, i) => i & 0xff);
+      const encoded = cer.encode('Blob', data);
+
+      expect(bytesToHex(encoded.slice(0, 6))).toBe('2480048203e8');
+      expect(bytesToHex(encoded.slice(1004 + 2, 1004 + 6))).toBe('048203e8');
+      expect(bytesToHex(encoded.slice(2008 + 2, 2008 + 6))).toBe('048201f4');
+      expect(bytesToHex(encoded.slice(-2))).toBe('0000');
+      expect(encoded.length).toBe(2 + 1004 * 2 + 504 + 2);
+      expect(cer.decode('Blob', encoded)).toEqual(data);
+    });
+  });
+
+  describe('strict decoding', () => {
+    test('should reject definite length for constructed types', () => {
+      expect(() => cer.decode('Record', hexToBytes('3003020105'))).toThrow(/CER requires indefinite/);
+      expect(() => cer.decode('Message', hexToBytes('a103020107'))).toThrow(/CER requires indefinite/);
+    });
+
+    test('should reject an encoded DEFAULT value', () => {
+      expect(() => cer.decode('Record', hexToBytes('308002010502010000' + '00'))).toThrow(/CER forbids/);
+    });
+
+    test('should reject long primitive and short segmented OCTET STRINGs', () => {
+      expect(() => cer.decode('Blob', hexToBytes('048203e9' + '00'.repeat(1001)))).toThrow(/requires segments/);
+      expect(() => cer.decode('Blob', hexToBytes('2480040100040100' + '0000'))).toThrow(/1000-octet segments/);
+    });
+
+    test('should reject missing end-of-contents octets', () => {
+      expect(() => cer.decode('Numbers', hexToBytes('3080020101'))).toThrow(/end-of-contents/);
+    });
+  });
+});
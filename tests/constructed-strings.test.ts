@@ -0,0 +1,52 @@
+/**
+ * Tests for decoding constructed (segmented) string encodings
+ */
+
+import { compileString, hexToBytes } from '../src/index';
+
+describe('Constructed string decoding', () => {
+  const schema = `
+    Segmented DEFINITIONS ::= BEGIN
+      Blob ::= OCTET STRING
+
+      Record ::= SEQUENCE {
+        id INTEGER,
+        data OCTET STRING,
+        tail BOOLEAN
+      }
+    END
+  `;
+
+  const ber = compileString(schema);
+  const der = compileString(schema, { codec: 'der' });
+
+  test('should join definite-length segments', () => {
+    expect(ber.decode('Blob', hexToBytes('2407' + '0402aabb' + '0401cc'))).toEqual(hexToBytes('aabbcc'));
+  });
+
+  test('should join indefinite-length segments', () => {
+    expect(ber.decode('Blob', hexToBytes('2480' + '0402aabb' + '0401cc' + '0000'))).toEqual(hexToBytes('aabbcc'));
+  });
+
+  test('should join nested constructed segments recursively', () => {
+    const encoded = hexToBytes('240d' + '2480' + '0403aabbcc' + '0000' + '0402ddee');
+    expect(ber.decode('Blob', encoded)).toEqual(hexToBytes('aabbccddee'));
+  });
+
+  test('should decode an empty constructed encoding', () => {
+    expect(ber.decode('Blob', hexToBytes('2400'))).toEqual(new Uint8Array(0));
+  });
+
+  test('should continue after a constructed member of a SEQUENCE', () => {
+    const encoded = hexToBytes('3080' + '020101' + '2480' + '0401aa' + '0401bb' + '0000' + '0101ff' + '0000');
+    expect(ber.decode('Record', encoded)).toEqual({ id: 1, data: hexToBytes('aabb'), tail: true });
+  });
+
+  test('should reject segments with a different tag', () => {
+    expect(() => ber.decode('Blob', hexToBytes('2403' + '020101'))).toThrow(/Expected tag 4/);
+  });
+
+  test('should reject constructed encodings in DER', () => {
+    expect(() => der.decode('Blob', hexToBytes('2407' + '0402aabb' + '0401cc'))).toThrow(/primitive/);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for DATE, TIME-OF-DAY, DATE-TIME, DURATION and TIME types
+ */
+
+import { compileString, hexToBytes, bytesToHex, EncodeError } from '../src/index';
+
+describe('X.680 time types', () => {
+  const schema = `
+    Times DEFINITIONS ::= BEGIN
+      Day ::= DATE
+      Clock ::= TIME-OF-DAY
+      Moment ::= DATE-TIME
+      Period ::= DURATION
+      Time ::= TIME
+      Week ::= TIME (SETTINGS "Basic=Date Date=YW")
+
+      Booking ::= SEQUENCE {
+        day DATE,
+        start TIME-OF-DAY DEFAULT "09:00:00",
+        length DURATION DEFAULT "PT1H"
+      }
+    END
+  `;
+
+  const ascii = (text: string) => bytesToHex(new TextEncoder().encode(text));
+  const ber = compileString(schema);
+
+  describe('BER', () => {
+    const roundTrip = (typeName: string, value: any, tag: string, text: string) => {
+      const encoded = ber.encode(typeName, value);
+      expect(bytesToHex(encoded)).toBe(tag + text.length.toString(16).padStart(2, '0') + ascii(text));
+      expect(ber.decode(typeName, encoded)).toEqual(value);
+    };
+
+    test('should encode dates and times of day', () => {
+      roundTrip('Day', { year: 2020, month: 1, day: 2 }, '1f1f', '2020-01-02');
+      roundTrip('Clock', { hours: 9, minutes: 5, seconds: 0 }, '1f20', '09:05:00');
+      roundTrip('Moment', { year: 2024, month: 2, day: 29, hours: 23, minutes: 59, seconds: 59 }, '1f21', '2024-02-29T23:59:59');
+    });
+
+    test('should encode durations', () => {
+      roundTrip('Period', { years: 1, months: 2, days: 3, hours: 4, minutes: 5, seconds: 6.5 }, '1f22', 'P1Y2M3DT4H5M6.5S');
+      roundTrip('Period', { minutes: 30 }, '1f22', 'PT30M');
+      roundTrip('Period', { weeks: 2 }, '1f22', 'P2W');
+      expect(ber.decode('Period', hexToBytes('1f2205' + ascii('P1,5D')))).toEqual({ days: 1.5 });
+    });
+
+    test('should encode TIME as ISO 8601 text', () => {
+      roundTrip('Time', '2020-01-02T03:04:05Z', '0e', '2020-01-02T03:04:05Z');
+      roundTrip('Week', '2020-W05', '0e', '2020-W05');
+    });
+
+    test('should accept ISO 8601 strings when encoding', () => {
+      expect(bytesToHex(ber.encode('Day', '1999-12-31'))).toBe('1f1f0a' + ascii('1999-12-31'));
+    });
+
+    test('should reject invalid values', () => {
+      expect(() => ber.encode('Day', { year: 2021, month: 2, day: 29 })).toThrow(/DATE Day: invalid value '2021-02-29'/);
+      expect(() => ber.encode('Day', { year: 1500, month: 1, day: 1 })).toThrow(/invalid value/);
+      expect(() => ber.encode('Clock', { hours: 24, minutes: 0, seconds: 0 })).toThrow(/invalid value/);
+      expect(() => ber.encode('Clock', { hours: 1.5, minutes: 0, seconds: 0 })).toThrow(/invalid value/);
+      expect(() => ber.encode('Period', {})).toThrow(/invalid value 'P'/);
+      expect(() => ber.encode('Period', { hours: 1.5, minutes: 3 })).toThrow(/invalid hours 1.5/);
+      expect(() => ber.encode('Period', { weeks: 1, days: 2 })).toThrow(/invalid value/);
+      expect(() => ber.encode('Time', 'noon')).toThrow(/TIME Time: invalid value/);
+      expect(() => ber.encode('Time', 'noon')).toThrow(EncodeError);
+      expect(() => ber.encode('Day', '2021-02-29')).toThrow(EncodeError);
+      expect(() => ber.encode('Period', { weeks: 1, days: 2 })).toThrow(EncodeError);
+      expect(() => ber.encode('Day', 42)).toThrow(/expected object or ISO 8601 string/);
+      expect(() => ber.decode('Period', hexToBytes('1f2202' + ascii('PT')))).toThrow(/invalid value 'PT'/);
+    });
+
+    test('should use DEFAULT values written as strings', () => {
+      const day = { year: 2020, month: 6, day: 1 };
+      expect(bytesToHex(ber.encode('Booking', { day }))).toBe(
+        '301f' + '1f1f0a' + ascii('2020-06-01') + '1f2008' + ascii('09:00:00') + '1f2204' + ascii('PT1H')
+      );
+      expect(ber.decode('Booking', hexToBytes('300d' + '1f1f0a' + ascii('2020-06-01')))).toEqual({
+        day,
+        start: { hours: 9, minutes: 0, seconds: 0 },
+        length: { hours: 1 }
+      });
+    });
+
+    test('should omit DEFAULT values in DER', () => {
+      const der = compileString(schema, { codec: 'der' });
+      const booking = { day: { year: 2020, month: 6, day: 1 }, start: { hours: 9, minutes: 0, seconds: 0 }, length: { hours: 1 } };
+      expect(bytesToHex(der.encode('Booking', booking))).toBe('300d' + '1f1f0a' + ascii('2020-06-01'));
+    });
+
+    test('should reject invalid DEFAULT values', () => {
+      const invalid = 'Bad DEFINITIONS ::= BEGIN B ::= SEQUENCE { d DATE DEFAULT "2020-13-01" } END';
+      expect(() => compileString(invalid)).toThrow(/Invalid DATE value '2020-13-01'/);
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each([
+      ['xer', 'Day', { year: 2020, month: 1, day: 2 }, '<Day>2020-01-02</Day>'],
+      ['jer', 'Period', { hours: 1, minutes: 30 }, '"PT1H30M"'],
+      ['gser', 'Moment', { year: 2020, month: 1, day: 2, hours: 3, minutes: 4, seconds: 5 }, '"2020-01-02T03:04:05"']
+    ] as const)('%s should encode %s', (codec, typeName, value, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode(typeName, value);
+
+      expect(new TextDecoder().decode(encoded)).toBe(expected);
+      expect(spec.decode(typeName, encoded)).toEqual(value);
+    });
+
+    test.each(['xer', 'jer', 'gser'] as const)('should round trip SEQUENCE members with %s', codec => {
+      const spec = compileString(schema, { codec });
+      const booking = { day: { year: 2020, month: 6, day: 1 }, start: { hours: 8, minutes: 30, seconds: 0 }, length: { weeks: 1 } };
+      expect(spec.decode('Booking', spec.encode('Booking', booking))).toEqual(booking);
+    });
+
+    test.each(['per', 'uper', 'oer'] as const)('should not yet support %s', codec => {
+      expect(() => compileString(schema, { codec }).encode('Day', '2020-01-02')).toThrow(/unsupported type/);
+    });
+  });
+});
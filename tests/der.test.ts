@@ -0,0 +1,106 @@
+/**
+ * Tests for the DER codec selected with CompileOptions.codec = 'der'
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('DER codec', () => {
+  const schema = `
+    Signed DEFINITIONS ::= BEGIN
+      Flag ::= BOOLEAN
+      Number ::= INTEGER
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+
+      Record ::= SEQUENCE {
+        id INTEGER,
+        version INTEGER DEFAULT 0,
+        active BOOLEAN DEFAULT TRUE,
+        color Color DEFAULT green,
+        payload OCTET STRING OPTIONAL
+      }
+
+      Message ::= CHOICE {
+        record [0] Record,
+        number [1] INTEGER
+      }
+    END
+  `;
+
+  const der = compileString(schema, { codec: 'der' });
+  const ber = compileString(schema, { codec: 'ber' });
+
+  describe('encoding', () => {
+    test('should encode BOOLEAN TRUE as 0xff', () => {
+      expect(bytesToHex(der.encode('Flag', true))).toBe('0101ff');
+    });
+
+    test('should leave out members equal to their DEFAULT value', () => {
+      const encoded = der.encode('Record', { id: 5, version: 0, active: true, color: 'green' });
+      expect(bytesToHex(encoded)).toBe('3003020105');
+    });
+
+    test('should leave out absent DEFAULT members', () => {
+      expect(bytesToHex(der.encode('Record', { id: 5 }))).toBe('3003020105');
+    });
+
+    test('should encode members that differ from their DEFAULT value', () => {
+      const encoded = der.encode('Record', { id: 5, version: 2, active: false, color: 'blue' });
+      expect(bytesToHex(encoded)).toBe('300c0201050201020101000a0102');
+    });
+
+    test('should use minimal length octets', () => {
+      const payload = new Uint8Array(200).fill(0xaa);
+      const encoded = der.encode('Record', { id: 1, payload });
+      // 0x81 0xc8: long form with a single length octet
+      expect(bytesToHex(encoded.slice(6, 9))).toBe('0481c8');
+    });
+
+    test('should round-trip values with defaults filled in on decode', () => {
+      const encoded = der.encode('Message', { record: { id: 7 } });
+      expect(der.decode('Message', encoded)).toEqual({
+        record: { id: 7, version: 0, active: true, color: 'green' }
+      });
+    });
+  });
+
+  describe('decoding', () => {
+    test('should reject BOOLEAN TRUE not encoded as 0xff', () => {
+      const data = hexToBytes('010101');
+      expect(ber.decode('Flag', data)).toBe(true);
+      expect(() => der.decode('Flag', data)).toThrow(/DER/);
+    });
+
+    test('should reject non-minimal length octets', () => {
+      const data = hexToBytes('02810105');
+      expect(ber.decode('Number', data)).toBe(5);
+      expect(() => der.decode('Number', data)).toThrow(/minimal length/);
+    });
+
+    test('should reject non-minimal INTEGER contents', () => {
+      const data = hexToBytes('02020005');
+      expect(ber.decode('Number', data)).toBe(5);
+      expect(() => der.decode('Number', data)).toThrow(/minimal encoding/);
+    });
+
+    test('should reject constructed encoding of primitive types', () => {
+      const data = hexToBytes('210101');
+      expect(() => der.decode('Flag', data)).toThrow(/primitive/);
+    });
+
+    test('should reject explicitly encoded DEFAULT values', () => {
+      const data = hexToBytes('3006020105020100');
+      expect(ber.decode('Record', data)).toEqual({ id: 5, version: 0, active: true, color: 'green' });
+      expect(() => der.decode('Record', data)).toThrow(/DEFAULT/);
+    });
+
+    test('should reject non-minimal lengths on tagged CHOICE alternatives', () => {
+      const data = hexToBytes('a18103020105');
+      expect(ber.decode('Message', data)).toEqual({ number: 5 });
+      expect(() => der.decode('Message', data)).toThrow(/minimal length/);
+    });
+
+    test('should reject indefinite lengths', () => {
+      expect(() => der.decode('Record', hexToBytes('308002010500 00'))).toThrow();
+    });
+  });
+});
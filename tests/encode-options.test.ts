@@ -0,0 +1,71 @@
+/**
+ * Tests for the BER output forms selected with Specification.encode options
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('BER encode options', () => {
+  const schema = `
+    Interop DEFINITIONS ::= BEGIN
+      Blob ::= OCTET STRING
+      Numbers ::= SEQUENCE OF INTEGER
+
+      Record ::= SEQUENCE {
+        id INTEGER,
+        payload OCTET STRING OPTIONAL
+      }
+
+      Message ::= CHOICE {
+        record [0] Record,
+        number [1] INTEGER
+      }
+    END
+  `;
+
+  const ber = compileString(schema);
+
+  const roundTrip = (typeName: string, value: any, options: object, expectedHex: string) => {
+    const encoded = ber.encode(typeName, value, options);
+    expect(bytesToHex(encoded)).toBe(expectedHex);
+    expect(ber.decode(typeName, encoded)).toEqual(value);
+  };
+
+  test('should keep the default output without options', () => {
+    expect(bytesToHex(ber.encode('Record', { id: 5 }, {}))).toBe('3003020105');
+  });
+
+  test('should use indefinite length for constructed encodings', () => {
+    roundTrip('Record', { id: 5 }, { indefiniteLength: true }, '30800201050000');
+    roundTrip('Numbers', [1, 2], { indefiniteLength: true }, '30800201010201020000');
+    roundTrip('Blob', hexToBytes('aabb'), { indefiniteLength: true }, '0402aabb');
+  });
+
+  test('should use long-form lengths with the requested number of octets', () => {
+    roundTrip('Record', { id: 5 }, { lengthOctets: 1 }, '30810402810105');
+    roundTrip('Record', { id: 5 }, { lengthOctets: 2 }, '308200050282000105');
+  });
+
+  test('should segment OCTET STRINGs', () => {
+    roundTrip('Blob', hexToBytes('aabbcc'), { segmentSize: 2 }, '24070402aabb0401cc');
+    roundTrip('Blob', hexToBytes('aabbcc'), { segmentSize: 2, indefiniteLength: true }, '24800402aabb0401cc0000');
+    roundTrip('Record', { id: 1, payload: hexToBytes('aabb') }, { segmentSize: 1 }, '300b020101' + '24060401aa0401bb');
+  });
+
+  test('should apply the options to context-tagged CHOICE alternatives', () => {
+    roundTrip('Message', { number: 7 }, { indefiniteLength: true }, 'a1800201070000');
+    roundTrip('Message', { number: 7 }, { lengthOctets: 1 }, 'a18104' + '02810107');
+    roundTrip('Message', { record: { id: 1 } }, { indefiniteLength: true }, 'a080308002010100000000');
+  });
+
+  test('should reject invalid options', () => {
+    expect(() => ber.encode('Record', { id: 5 }, { lengthOctets: 0 })).toThrow(/Length octets/);
+    expect(() => ber.encode('Record', { id: 5 }, { lengthOctets: 127 })).toThrow(/Length octets/);
+    expect(() => ber.encode('Blob', hexToBytes('aa'), { segmentSize: 0 })).toThrow(/segment size/);
+  });
+
+  test('should reject options with other codecs', () => {
+    const der = compileString(schema, { codec: 'der' });
+    expect(() => der.encode('Record', { id: 5 }, { indefiniteLength: true })).toThrow(/not supported by the DER codec/);
+    expect(bytesToHex(der.encode('Record', { id: 5 }, {}))).toBe('3003020105');
+  });
+});
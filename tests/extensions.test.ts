@@ -0,0 +1,239 @@
+/**
+ * Tests for extension markers, version groups and EXTENSIBILITY IMPLIED,
+ * and for keeping the extension additions of newer peers
+ */
+
+import { compileString, hexToBytes, bytesToHex, CompileError, DecodeError, UNKNOWN_EXTENSIONS } from '../src/index';
+
+describe('Extensions', () => {
+  // Version 1 of a protocol and version 2, which adds extensions
+  const schema = `
+    Protocol DEFINITIONS AUTOMATIC TAGS ::= BEGIN
+      MessageV1 ::= SEQUENCE { id INTEGER, ... }
+      MessageV2 ::= SEQUENCE {
+        id INTEGER,
+        ...,
+        name UTF8String OPTIONAL,
+        [[ 2: x INTEGER, y BOOLEAN OPTIONAL ]]
+      }
+
+      SettingsV1 ::= SET { id INTEGER, ... }
+      SettingsV2 ::= SET { id INTEGER, ..., level INTEGER }
+
+      KindV1 ::= CHOICE { a INTEGER, ... }
+      KindV2 ::= CHOICE { a INTEGER, ..., b BOOLEAN }
+
+      ColorV1 ::= ENUMERATED { red, green, ... }
+      ColorV2 ::= ENUMERATED { red, green, ..., blue }
+
+      Fixed ::= SEQUENCE { id INTEGER }
+      Split ::= SEQUENCE { a INTEGER, ..., b INTEGER, ..., c INTEGER }
+      Exception ::= SEQUENCE { a INTEGER, ... ! 1 }
+    END
+  `;
+
+  const message = { id: 1, name: 'a', x: 2, y: true };
+
+  describe('BER', () => {
+    const ber = compileString(schema);
+
+    test('should encode extension additions like other members', () => {
+      const encoded = ber.encode('MessageV2', message);
+      expect(bytesToHex(encoded)).toBe('300c' + '800101' + '810161' + '820102' + '8301ff');
+      expect(ber.decode('MessageV2', encoded)).toEqual(message);
+      expect(ber.decode('MessageV2', hexToBytes('3003800101'))).toEqual({ id: 1 });
+    });
+
+    test('should keep unknown SEQUENCE and SET additions and encode them again', () => {
+      const encoded = ber.encode('MessageV2', message);
+      const decoded = ber.decode('MessageV1', encoded);
+      expect(decoded).toEqual({
+        id: 1,
+        [UNKNOWN_EXTENSIONS]: [hexToBytes('810161'), hexToBytes('820102'), hexToBytes('8301ff')]
+      });
+      expect(ber.encode('MessageV1', decoded)).toEqual(encoded);
+
+      const settings = ber.encode('SettingsV2', { id: 1, level: 2 });
+      const decodedSettings = ber.decode('SettingsV1', settings);
+      expect(decodedSettings).toEqual({ id: 1, [UNKNOWN_EXTENSIONS]: [hexToBytes('810102')] });
+      expect(ber.encode('SettingsV1', decodedSettings)).toEqual(settings);
+    });
+
+    test('should keep unknown CHOICE alternatives and ENUMERATED values', () => {
+      const kind = ber.encode('KindV2', { b: true });
+      expect(bytesToHex(kind)).toBe('8101ff');
+      expect(ber.decode('KindV1', kind)).toEqual({ [UNKNOWN_EXTENSIONS]: hexToBytes('8101ff') });
+      expect(ber.encode('KindV1', ber.decode('KindV1', kind))).toEqual(kind);
+
+      const color = ber.encode('ColorV2', 'blue');
+      expect(bytesToHex(color)).toBe('0a0102');
+      expect(ber.decode('ColorV1', color)).toBe(2);
+      expect(ber.encode('ColorV1', 2)).toEqual(color);
+      expect(ber.decode('ColorV2', color)).toBe('blue');
+    });
+
+    test('should reject unknown data in types without an extension marker', () => {
+      expect(() => ber.decode('Fixed', hexToBytes('3006' + '800101' + '810102'))).toThrow(DecodeError);
+      expect(() => ber.decode('Fixed', hexToBytes('3006' + '800101' + '810102'))).toThrow(
+        /unexpected data after the last member/
+      );
+      expect(() => ber.encode('KindV2', { [UNKNOWN_EXTENSIONS]: hexToBytes('8101') })).toThrow(
+        /not a single complete encoding/
+      );
+    });
+
+    test('should number automatic tags of the root before the extension additions', () => {
+      const encoded = ber.encode('Split', { a: 1, b: 2, c: 3 });
+      expect(bytesToHex(encoded)).toBe('3009' + '800101' + '820102' + '810103');
+      expect(ber.decode('Split', encoded)).toEqual({ a: 1, b: 2, c: 3 });
+      // Unknown additions come before the root members after the second marker
+      expect(ber.decode('Split', hexToBytes('3009' + '800101' + '830104' + '810103'))).toEqual({
+        a: 1,
+        c: 3,
+        [UNKNOWN_EXTENSIONS]: [hexToBytes('830104')]
+      });
+      expect(bytesToHex(ber.encode('Exception', { a: 1 }))).toBe('3003800101');
+
+      // A root member after the additions may not appear again
+      const repeated = compileString('M DEFINITIONS ::= BEGIN T ::= SEQUENCE { a INTEGER, ..., ..., c BOOLEAN } END');
+      expect(() => repeated.decode('T', hexToBytes('3009' + '020101' + '0101ff' + '010100'))).toThrow(
+        /unexpected data after the last member/
+      );
+    });
+  });
+
+  describe('PER and OER', () => {
+    test('should send extension additions as open types after a bitmap in PER', () => {
+      const per = compileString(schema, { codec: 'per' });
+      const encoded = per.encode('MessageV2', message);
+      expect(bytesToHex(encoded)).toBe('800101' + '03' + '80' + '020161' + '0480010280');
+      expect(per.decode('MessageV2', encoded)).toEqual(message);
+      expect(bytesToHex(per.encode('MessageV2', { id: 1 }))).toBe('000101');
+
+      const decoded = per.decode('MessageV1', encoded);
+      expect(decoded).toEqual({ id: 1, [UNKNOWN_EXTENSIONS]: [hexToBytes('0161'), hexToBytes('80010280')] });
+      expect(per.encode('MessageV1', decoded)).toEqual(encoded);
+    });
+
+    test('should send CHOICE and ENUMERATED additions by their index in PER', () => {
+      const per = compileString(schema, { codec: 'per' });
+      expect(bytesToHex(per.encode('KindV2', { b: true }))).toBe('800180');
+      expect(per.decode('KindV1', hexToBytes('800180'))).toEqual({
+        [UNKNOWN_EXTENSIONS]: { index: 0, encoding: hexToBytes('80') }
+      });
+      expect(bytesToHex(per.encode('KindV1', per.decode('KindV1', hexToBytes('800180'))))).toBe('800180');
+
+      expect(bytesToHex(per.encode('ColorV2', 'blue'))).toBe('80');
+      expect(bytesToHex(per.encode('ColorV2', 'green'))).toBe('40');
+      expect(per.decode('ColorV1', hexToBytes('80'))).toEqual({ [UNKNOWN_EXTENSIONS]: 0 });
+      expect(bytesToHex(per.encode('ColorV1', { [UNKNOWN_EXTENSIONS]: 0 }))).toBe('80');
+    });
+
+    test('should send extension additions as open types after a bitmap in OER', () => {
+      const oer = compileString(schema, { codec: 'oer' });
+      const encoded = oer.encode('MessageV2', message);
+      expect(bytesToHex(encoded)).toBe('80' + '0101' + '0206c0' + '020161' + '04800102ff');
+      expect(oer.decode('MessageV2', encoded)).toEqual(message);
+
+      const decoded = oer.decode('MessageV1', encoded);
+      expect(decoded).toEqual({ id: 1, [UNKNOWN_EXTENSIONS]: [hexToBytes('0161'), hexToBytes('800102ff')] });
+      expect(oer.encode('MessageV1', decoded)).toEqual(encoded);
+
+      expect(bytesToHex(oer.encode('KindV2', { b: true }))).toBe('8101ff');
+      expect(oer.decode('KindV1', hexToBytes('8101ff'))).toEqual({ [UNKNOWN_EXTENSIONS]: hexToBytes('8101ff') });
+      expect(oer.decode('ColorV1', oer.encode('ColorV2', 'blue'))).toBe(2);
+    });
+
+    test('should round-trip every version in every binary codec', () => {
+      for (const codec of ['ber', 'der', 'per', 'uper', 'oer', 'coer'] as const) {
+        const spec = compileString(schema, { codec });
+        for (const [name, value] of [
+          ['MessageV2', message],
+          ['MessageV2', { id: 1, x: 2 }],
+          ['SettingsV2', { id: 1, level: 2 }],
+          ['KindV2', { b: false }],
+          ['ColorV2', 'blue']
+        ] as const) {
+          const encoded = spec.encode(name, value);
+          expect(spec.decode(name, encoded)).toEqual(value);
+          const older = name.replace('V2', 'V1');
+          expect(spec.encode(older, spec.decode(older, encoded))).toEqual(encoded);
+        }
+      }
+    });
+  });
+
+  describe('text encodings', () => {
+    test('should ignore unknown members and allow missing additions', () => {
+      const jer = compileString(schema, { codec: 'jer' });
+      const text = new TextDecoder().decode(jer.encode('MessageV2', message));
+      expect(text).toBe('{"id":1,"name":"a","x":2,"y":true}');
+      expect(jer.decode('MessageV1', jer.encode('MessageV2', message))).toEqual({ id: 1 });
+      expect(jer.decode('MessageV2', new TextEncoder().encode('{"id":1}'))).toEqual({ id: 1 });
+      expect(() => jer.encode('ColorV1', 2)).toThrow(/unknown value 2 has no identifier/);
+    });
+
+    test('should decode unknown CHOICE alternatives and ENUMERATED values by name', () => {
+      for (const codec of ['xer', 'jer', 'gser'] as const) {
+        const spec = compileString(schema, { codec });
+        const kind = spec.encode('KindV2', { b: true });
+        expect(spec.decode('KindV1', kind)).toEqual({ [UNKNOWN_EXTENSIONS]: 'b' });
+        expect(() => spec.encode('KindV1', { [UNKNOWN_EXTENSIONS]: 'b' })).toThrow(
+          /unknown extension alternatives cannot be encoded/
+        );
+
+        const color = spec.encode('ColorV2', 'blue');
+        expect(spec.decode('ColorV1', color)).toEqual({ [UNKNOWN_EXTENSIONS]: 'blue' });
+        expect(spec.decode('ColorV2', spec.encode('ColorV1', spec.decode('ColorV1', color)))).toBe('blue');
+      }
+    });
+
+    test('should match XER elements by name and skip unknown additions', () => {
+      const xer = compileString(schema, { codec: 'xer' });
+      const decode = (typeName: string, text: string) => xer.decode(typeName, new TextEncoder().encode(text));
+      expect(decode('Split', '<Split><a>1</a><d>4</d><c>3</c></Split>')).toEqual({ a: 1, c: 3 });
+      expect(decode('MessageV1', '<MessageV1><id>1</id><name>a</name></MessageV1>')).toEqual({ id: 1 });
+      expect(() => decode('Split', '<Split><c>3</c><a>1</a></Split>')).toThrow(/unexpected element <a>/);
+      expect(() => decode('Fixed', '<Fixed><id>1</id><z>2</z></Fixed>')).toThrow(/unexpected element <z>/);
+    });
+
+    test('should skip the values of unknown members in GSER', () => {
+      const gser = compileString(schema, { codec: 'gser' });
+      const decode = (typeName: string, text: string) => gser.decode(typeName, new TextEncoder().encode(text));
+      expect(decode('MessageV1', '{ id 1, name "a, }", x 2, y TRUE }')).toEqual({ id: 1 });
+      expect(decode('MessageV1', '{ id 1, z { a { 1, 2 }, b \'01\'B } }')).toEqual({ id: 1 });
+      expect(decode('SettingsV1', '{ level 2, id 1 }')).toEqual({ id: 1 });
+      expect(() => decode('Fixed', '{ id 1, z 2 }')).toThrow(/unexpected member 'z'/);
+    });
+  });
+
+  describe('module extensibility', () => {
+    test('should make every type extensible with EXTENSIBILITY IMPLIED', () => {
+      const implied = `
+        Implied DEFINITIONS AUTOMATIC TAGS EXTENSIBILITY IMPLIED ::= BEGIN
+          Point ::= SEQUENCE { x INTEGER, y INTEGER }
+          Shape ::= CHOICE { circle NULL, square NULL }
+        END
+      `;
+      const per = compileString(implied, { codec: 'per' });
+      expect(bytesToHex(per.encode('Point', { x: 1, y: 2 }))).toBe('00010101' + '02');
+      expect(bytesToHex(per.encode('Shape', { square: null }))).toBe('40');
+
+      const ber = compileString(implied);
+      expect(ber.decode('Point', hexToBytes('3009' + '800101' + '810102' + '820103'))).toEqual({
+        x: 1,
+        y: 2,
+        [UNKNOWN_EXTENSIONS]: [hexToBytes('820103')]
+      });
+    });
+
+    test('should reject extension additions out of order', () => {
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN E ::= ENUMERATED { a, b, ..., c(1) } END')
+      ).toThrow(CompileError);
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN T ::= SEQUENCE { [[ a INTEGER ]] } END')
+      ).toThrow(/Version groups/);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the GSER codec selected with CompileOptions.codec = 'gser'
+ */
+
+import { compileString, hexToBytes } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('GSER codec', () => {
+  const schema = `
+    Gser DEFINITIONS ::= BEGIN
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER OPTIONAL,
+        name OCTET STRING,
+        color Color DEFAULT red
+      }
+
+      Numbers ::= SEQUENCE OF INTEGER
+      Nothing ::= NULL
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b Record
+      }
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'gser' });
+  const text = (data: Uint8Array) => new TextDecoder().decode(data);
+  const gser = (value: string) => new TextEncoder().encode(value);
+
+  const roundTrip = (typeName: string, value: any, expectedText: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(text(encoded)).toBe(expectedText);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  test('should encode SEQUENCE members as identifier and value pairs', () => {
+    roundTrip(
+      'Record',
+      { flag: true, count: -5, name: hexToBytes('0a0b'), color: 'blue' },
+      "{ flag TRUE, count -5, name '0A0B'H, color blue }"
+    );
+  });
+
+  test('should fill in DEFAULT and leave out OPTIONAL members when absent', () => {
+    expect(spec.decode('Record', gser("{flag FALSE,name ''H}"))).toEqual({
+      flag: false,
+      name: new Uint8Array(0),
+      color: 'red'
+    });
+  });
+
+  test('should encode CHOICE as identifier and value', () => {
+    roundTrip('Option', { a: 1 }, 'a : 1');
+    roundTrip('Option', { b: { flag: false, name: hexToBytes('ff'), color: 'red' } }, "b : { flag FALSE, name 'FF'H, color red }");
+  });
+
+  test('should encode SEQUENCE OF and NULL', () => {
+    roundTrip('Numbers', [1, 2], '{ 1, 2 }');
+    roundTrip('Numbers', [], '{ }');
+    roundTrip('Nothing', null, 'NULL');
+  });
+
+  test('should keep integers beyond 2^53 exact', () => {
+    const big = 2n ** 64n;
+    roundTrip('Numbers', [big], '{ 18446744073709551616 }');
+  });
+
+  test('should reject malformed text', () => {
+    expect(() => spec.decode('Record', gser("{ name '00'H, flag TRUE }"))).toThrow(/missing required member 'flag'/);
+    expect(() => spec.decode('Option', gser('c : 1'))).toThrow(/unknown choice/);
+    expect(() => spec.decode('Numbers', gser('{ 1 2 }'))).toThrow(/expected ','/);
+    expect(() => spec.decode('Nothing', gser('NULL x'))).toThrow(/unexpected content/);
+  });
+
+  test('should decode message schemas to the same values as BER', () => {
+    const source = fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8');
+    const gserSpec = compileString(source, { codec: 'gser' });
+    const berSpec = compileString(source);
+
+    const encoded = gserSpec.encode('RequestMessage', { pingRequest: { messageId: 123 } });
+    expect(text(encoded)).toBe('pingRequest : { messageId 123 }');
+    expect(gserSpec.decode('RequestMessage', encoded)).toEqual(
+      berSpec.decode('RequestMessage', berSpec.encode('RequestMessage', { pingRequest: { messageId: 123 } }))
+    );
+  });
+});
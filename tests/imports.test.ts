@@ -0,0 +1,165 @@
+/**
+ * Tests for IMPORTS and EXPORTS, module OIDs and resolving names by the
+ * imports of the referring module
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { compileFiles, compileString, bytesToHex, CompileError } from '../src/index';
+
+describe('Imports and exports', () => {
+  const common = `
+    Common { iso(1) identified-organization(3) 9999 1 } DEFINITIONS AUTOMATIC TAGS ::= BEGIN
+      EXPORTS Header, Version, currentVersion;
+
+      Header ::= SEQUENCE { version Version, id INTEGER }
+      Version ::= INTEGER
+      currentVersion Version ::= 2
+      Internal ::= BOOLEAN
+    END
+  `;
+
+  test('should resolve imported types and values', () => {
+    const spec = compileString(`
+      ${common}
+
+      Messages { iso(1) identified-organization(3) 9999 2 } DEFINITIONS AUTOMATIC TAGS ::= BEGIN
+        EXPORTS ALL;
+        IMPORTS Header, currentVersion FROM Common { iso(1) identified-organization(3) 9999 1 };
+
+        Message ::= SEQUENCE {
+          header Header,
+          version INTEGER DEFAULT currentVersion
+        }
+      END
+    `);
+
+    const value = { header: { version: 1, id: 5 } };
+    const encoded = spec.encode('Message', value);
+    expect(bytesToHex(encoded)).toBe('300b' + 'a006' + '800101' + '810105' + '810102');
+    expect(spec.decode('Message', encoded)).toEqual({ ...value, version: 2 });
+    expect(spec.getModuleNames()).toEqual(['Common', 'Messages']);
+  });
+
+  test('should tell a value reference after the module name from the next symbol list', () => {
+    const spec = compileString(`
+      A DEFINITIONS ::= BEGIN
+        moduleA OBJECT IDENTIFIER ::= { 1 2 3 }
+        TypeA ::= INTEGER
+      END
+
+      B DEFINITIONS ::= BEGIN
+        TypeB ::= BOOLEAN
+        valueB BOOLEAN ::= TRUE
+      END
+
+      C DEFINITIONS ::= BEGIN
+        IMPORTS
+          TypeA FROM A moduleA
+          valueB, TypeB FROM B;
+
+        Pair ::= SEQUENCE { a TypeA, b TypeB DEFAULT valueB }
+      END
+    `);
+
+    expect(bytesToHex(spec.encode('Pair', { a: 1, b: false }))).toBe('3006' + '020101' + '010100');
+  });
+
+  test('should resolve names by the imports of each module', () => {
+    const spec = compileString(`
+      Left DEFINITIONS ::= BEGIN
+        Value ::= INTEGER
+      END
+
+      Right DEFINITIONS ::= BEGIN
+        Value ::= BOOLEAN
+      END
+
+      User DEFINITIONS ::= BEGIN
+        IMPORTS Value FROM Right;
+        Wrapper ::= SEQUENCE { value Value }
+      END
+
+      Relay DEFINITIONS ::= BEGIN
+        EXPORTS Value;
+        IMPORTS Value FROM Left;
+      END
+
+      Other DEFINITIONS ::= BEGIN
+        IMPORTS Value FROM Relay;
+        Wrapper2 ::= SEQUENCE { value Value }
+      END
+    `);
+
+    expect(bytesToHex(spec.encode('Wrapper', { value: true }))).toBe('30030101ff');
+    expect(bytesToHex(spec.encode('Wrapper2', { value: 7 }))).toBe('3003020107');
+  });
+
+  test('should compile schemas split across files', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'asn1-imports-'));
+    try {
+      const commonFile = path.join(directory, 'common.asn');
+      const messagesFile = path.join(directory, 'messages.asn');
+      fs.writeFileSync(commonFile, common);
+      fs.writeFileSync(messagesFile, `
+        Messages DEFINITIONS ::= BEGIN
+          IMPORTS Header FROM Common;
+          Envelope ::= SEQUENCE OF Header
+        END
+      `);
+
+      const spec = compileFiles([messagesFile, commonFile]);
+      const encoded = spec.encode('Envelope', [{ version: 1, id: 2 }]);
+      expect(spec.decode('Envelope', encoded)).toEqual([{ version: 1, id: 2 }]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should report unresolved and unexported symbols', () => {
+    const importing = (imports: string) => `
+      ${common}
+      User DEFINITIONS ::= BEGIN
+        IMPORTS ${imports};
+        T ::= INTEGER
+      END
+    `;
+
+    expect(() => compileString(importing('Header FROM Missing'))).toThrow(CompileError);
+    expect(() => compileString(importing('Header FROM Missing'))).toThrow(
+      /Module Missing imported by User is not defined/
+    );
+    expect(() => compileString(importing('Footer FROM Common'))).toThrow(
+      /Footer imported by User is not defined in module Common/
+    );
+    expect(() => compileString(importing('Internal FROM Common'))).toThrow(
+      /Internal imported by User is not exported by module Common/
+    );
+    expect(() => compileString(`
+      M DEFINITIONS ::= BEGIN
+        EXPORTS Missing;
+        T ::= INTEGER
+      END
+    `)).toThrow(/Missing exported by module M is not defined/);
+    expect(() => compileString(`
+      M DEFINITIONS ::= BEGIN
+        EXPORTS;
+        T ::= INTEGER
+      END
+      N DEFINITIONS ::= BEGIN
+        IMPORTS T FROM M;
+      END
+    `)).toThrow(/T imported by N is not exported by module M/);
+  });
+
+  test('should not look beyond the definitions and imports of a module', () => {
+    expect(() => compileString(`
+      ${common}
+      User DEFINITIONS ::= BEGIN
+        IMPORTS Header FROM Common;
+        Wrapper ::= SEQUENCE { header Header, version Version }
+      END
+    `)).toThrow(/Undefined type reference: Version/);
+  });
+});
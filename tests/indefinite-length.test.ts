@@ -0,0 +1,94 @@
+/**
+ * Tests for decoding indefinite-length BER encodings
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('Indefinite-length BER decoding', () => {
+  const schema = `
+    Indefinite DEFINITIONS ::= BEGIN
+      Inner ::= SEQUENCE {
+        a INTEGER,
+        b OCTET STRING OPTIONAL
+      }
+
+      Outer ::= SEQUENCE {
+        inner Inner,
+        list SEQUENCE OF Inner,
+        flag BOOLEAN DEFAULT FALSE
+      }
+
+      Message ::= CHOICE {
+        outer [0] Outer,
+        number [1] INTEGER
+      }
+    END
+  `;
+
+  const ber = compileString(schema);
+  const der = compileString(schema, { codec: 'der' });
+
+  const expected = {
+    inner: { a: 1 },
+    list: [{ a: 2, b: hexToBytes('aa') }, { a: 3 }],
+    flag: true
+  };
+
+  test('should decode nested indefinite-length SEQUENCE and SEQUENCE OF', () => {
+    const encoded = hexToBytes(
+      '3080' +
+        '3080' + '020101' + '0000' +
+        '3080' +
+          '3080' + '020102' + '0401aa' + '0000' +
+          '3080' + '020103' + '0000' +
+        '0000' +
+        '0101ff' +
+      '0000'
+    );
+
+    expect(ber.decode('Outer', encoded)).toEqual(expected);
+  });
+
+  test('should decode a mix of definite and indefinite lengths', () => {
+    const encoded = hexToBytes(
+      '3080' +
+        '3003' + '020101' +
+        '300f' + '3080' + '020102' + '0401aa' + '0000' + '3003' + '020103' +
+        '0101ff' +
+      '0000'
+    );
+
+    expect(ber.decode('Outer', encoded)).toEqual(expected);
+  });
+
+  test('should decode indefinite-length context-tagged CHOICE alternatives', () => {
+    expect(ber.decode('Message', hexToBytes('a1800201070000'))).toEqual({ number: 7 });
+
+    const outer = bytesToHex(ber.encode('Outer', expected));
+    expect(ber.decode('Message', hexToBytes('a080' + outer + '0000'))).toEqual({ outer: expected });
+  });
+
+  test('should reject missing end-of-contents octets', () => {
+    expect(() => ber.decode('Message', hexToBytes('a180020107'))).toThrow(/end-of-contents/);
+  });
+
+  test('should reject indefinite length on a primitive encoding', () => {
+    expect(() => ber.decode('Inner', hexToBytes('3080' + '0280010000' + '0000'))).toThrow(/constructed/);
+  });
+
+  test('should still reject indefinite length in DER', () => {
+    expect(() => der.decode('Message', hexToBytes('a1800201070000'))).toThrow(/Indefinite length/);
+  });
+
+  test('should decode indefinite-length message schema PDUs', () => {
+    const messageSpec = compileString(
+      fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8')
+    );
+
+    // pingRequest [1] { messageId 123 } from a streaming encoder
+    const encoded = hexToBytes('a180' + '3080' + '02017b' + '0000' + '0000');
+    expect(messageSpec.decode('RequestMessage', encoded)).toEqual({ pingRequest: { messageId: 123 } });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the JER codec selected with CompileOptions.codec = 'jer'
+ */
+
+import { compileString, hexToBytes } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('JER codec', () => {
+  const schema = `
+    Jer DEFINITIONS ::= BEGIN
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER OPTIONAL,
+        name OCTET STRING,
+        color Color DEFAULT red
+      }
+
+      Numbers ::= SEQUENCE OF INTEGER
+      Nothing ::= NULL
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b Record
+      }
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'jer' });
+  const text = (data: Uint8Array) => new TextDecoder().decode(data);
+  const json = (value: string) => new TextEncoder().encode(value);
+
+  const roundTrip = (typeName: string, value: any, expectedJson: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(text(encoded)).toBe(expectedJson);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  test('should encode SEQUENCE as an object', () => {
+    roundTrip(
+      'Record',
+      { flag: true, count: -5, name: hexToBytes('0a0b'), color: 'blue' },
+      '{"flag":true,"count":-5,"name":"0A0B","color":"blue"}'
+    );
+  });
+
+  test('should fill in DEFAULT and leave out OPTIONAL members when absent', () => {
+    expect(spec.decode('Record', json('{ "name": "ff", "flag": false }'))).toEqual({
+      flag: false,
+      name: hexToBytes('ff'),
+      color: 'red'
+    });
+  });
+
+  test('should encode CHOICE as an object with the alternative name', () => {
+    roundTrip('Option', { a: 1 }, '{"a":1}');
+  });
+
+  test('should encode SEQUENCE OF as an array and NULL as null', () => {
+    roundTrip('Numbers', [1, -2, 3], '[1,-2,3]');
+    roundTrip('Nothing', null, 'null');
+  });
+
+  test('should keep integers beyond 2^53 exact', () => {
+    const big = 2n ** 64n + 1n;
+    roundTrip('Numbers', [big, -big], '[18446744073709551617,-18446744073709551617]');
+    expect(spec.decode('Numbers', json('[9007199254740993]'))).toEqual([9007199254740993n]);
+  });
+
+  test('should reject invalid input', () => {
+    expect(() => spec.decode('Numbers', json('[1.5]'))).toThrow(/integer/);
+    expect(() => spec.decode('Option', json('{"c":1}'))).toThrow(/unknown choice/);
+    expect(() => spec.decode('Record', json('{"flag":true,"name":"00","extra":1}'))).toThrow(/unexpected member/);
+    expect(() => spec.decode('Numbers', json('[1,'))).toThrow();
+  });
+
+  test('should decode message schemas to the same values as BER', () => {
+    const source = fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8');
+    const jerSpec = compileString(source, { codec: 'jer' });
+    const berSpec = compileString(source);
+
+    const dataResponse = {
+      dataResponse: {
+        messageId: 1,
+        status: -1,
+        embeddedData: [
+          { id: 1, data: hexToBytes('01020304') },
+          { id: 2, data: hexToBytes('05060708') }
+        ]
+      }
+    };
+
+    expect(jerSpec.decode('ResponseMessage', jerSpec.encode('ResponseMessage', dataResponse))).toEqual(
+      berSpec.decode('ResponseMessage', berSpec.encode('ResponseMessage', dataResponse))
+    );
+  });
+});
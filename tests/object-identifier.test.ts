@@ -0,0 +1,126 @@
+/**
+ * Tests for OBJECT IDENTIFIER and RELATIVE-OID types and OID value notation
+ */
+
+import { compileString, hexToBytes, bytesToHex, CompileError } from '../src/index';
+
+describe('OBJECT IDENTIFIER', () => {
+  const schema = `
+    Oids DEFINITIONS ::= BEGIN
+      Oid ::= OBJECT IDENTIFIER
+      Relative ::= RELATIVE-OID
+
+      AlgorithmIdentifier ::= SEQUENCE {
+        algorithm OBJECT IDENTIFIER DEFAULT rsaEncryption,
+        parameters NULL OPTIONAL
+      }
+
+      Extension ::= SEQUENCE {
+        extnID OBJECT IDENTIFIER DEFAULT { iso member-body 840 113549 },
+        critical BOOLEAN DEFAULT FALSE,
+        basicConstraints OBJECT IDENTIFIER DEFAULT { id-ce arc },
+        relative RELATIVE-OID DEFAULT { 8571 3 2 }
+      }
+
+      pkcs-1 OBJECT IDENTIFIER ::= { iso(1) member-body(2) us(840) rsadsi(113549) pkcs(1) 1 }
+      rsaEncryption OBJECT IDENTIFIER ::= { pkcs-1 1 }
+      id-ce OBJECT IDENTIFIER ::= { joint-iso-itu-t 5 29 }
+      arc INTEGER ::= 19
+    END
+  `;
+
+  describe('BER', () => {
+    const ber = compileString(schema);
+
+    const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+      const encoded = ber.encode(typeName, value);
+      expect(bytesToHex(encoded)).toBe(expectedHex);
+      expect(ber.decode(typeName, encoded)).toEqual(value);
+    };
+
+    test('should encode dotted OID values', () => {
+      roundTrip('Oid', '1.2.840.113549', '06062a864886f70d');
+      roundTrip('Oid', '2.5.29.19', '0603551d13');
+      roundTrip('Oid', '0.0', '060100');
+    });
+
+    test('should handle large first arcs and multi-byte arcs', () => {
+      roundTrip('Oid', '2.999.3', '0603883703');
+      roundTrip('Oid', '2.25.329800735698586629295641978511506172918', '0614' + '69' + '83f09da7ebcfdee0c7a1a7b2c0948cc8f9d776');
+    });
+
+    test('should encode RELATIVE-OID values', () => {
+      roundTrip('Relative', '8571.3.2', '0d04c27b0302');
+      roundTrip('Relative', '0', '0d0100');
+    });
+
+    test('should reject invalid values', () => {
+      for (const value of ['3.1', '1.40', '1', '1..2', '1.02', 'abc', 12]) {
+        expect(() => ber.encode('Oid', value)).toThrow(/OBJECT IDENTIFIER Oid: invalid value/);
+      }
+      expect(() => ber.encode('Relative', '')).toThrow(/RELATIVE-OID Relative: invalid value/);
+    });
+
+    test('should reject invalid encodings', () => {
+      expect(() => ber.decode('Oid', hexToBytes('0600'))).toThrow(/empty value/);
+      expect(() => ber.decode('Oid', hexToBytes('0602802a'))).toThrow(/leading 0x80/);
+      expect(() => ber.decode('Oid', hexToBytes('06022a86'))).toThrow(/Truncated subidentifier/);
+    });
+  });
+
+  describe('value notation', () => {
+    const ber = compileString(schema);
+
+    test('should resolve value assignments in DEFAULT values', () => {
+      expect(ber.decode('AlgorithmIdentifier', hexToBytes('3000'))).toEqual({ algorithm: '1.2.840.113549.1.1.1' });
+    });
+
+    test('should resolve named arcs, value prefixes and INTEGER arcs', () => {
+      expect(ber.decode('Extension', hexToBytes('3000'))).toEqual({
+        extnID: '1.2.840.113549',
+        critical: false,
+        basicConstraints: '2.5.29.19',
+        relative: '8571.3.2'
+      });
+    });
+
+    test('should reject unknown components', () => {
+      expect(() => compileString(`
+        Broken DEFINITIONS ::= BEGIN
+          id-x OBJECT IDENTIFIER ::= { iso unknown 1 }
+        END
+      `)).toThrow(/Unknown OBJECT IDENTIFIER component 'unknown' in id-x/);
+
+      expect(() => compileString(`
+        Broken DEFINITIONS ::= BEGIN
+          id-x OBJECT IDENTIFIER ::= { 3 1 }
+        END
+      `)).toThrow(CompileError);
+
+      expect(() => compileString(`
+        Broken DEFINITIONS ::= BEGIN
+          id-a OBJECT IDENTIFIER ::= { id-b 1 }
+          id-b OBJECT IDENTIFIER ::= { id-a 1 }
+        END
+      `)).toThrow(/Circular reference detected for value/);
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each([
+      ['per', 'Oid', '1.2.840.113549', '062a864886f70d'],
+      ['uper', 'Relative', '8571.3.2', '04c27b0302'],
+      ['oer', 'Oid', '1.2.840.113549', '062a864886f70d'],
+      ['xer', 'Oid', '1.2.840.113549', '<Oid>1.2.840.113549</Oid>'],
+      ['jer', 'Relative', '8571.3.2', '"8571.3.2"'],
+      ['gser', 'Oid', '2.999.3', '2.999.3']
+    ] as const)('%s should encode %s', (codec, typeName, value, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode(typeName, value);
+      const text = ['xer', 'jer', 'gser'].includes(codec) ? new TextDecoder().decode(encoded) : bytesToHex(encoded);
+
+      expect(text).toBe(expected);
+      expect(spec.decode(typeName, encoded)).toEqual(value);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the OER and COER codecs selected with CompileOptions.codec
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('OER codec', () => {
+  const schema = `
+    Oer DEFINITIONS ::= BEGIN
+      Numbers ::= SEQUENCE {
+        a INTEGER,
+        b INTEGER (0..100),
+        c INTEGER (-5..5),
+        d INTEGER (0..65535)
+      }
+
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER (0..7) OPTIONAL,
+        name OCTET STRING (SIZE(1..4)),
+        tail INTEGER (0..255) DEFAULT 3
+      }
+
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+      Level ::= ENUMERATED { low(-1), high(1000) }
+      Count ::= INTEGER (0..MAX)
+      Extensible ::= INTEGER (0..7, ...)
+      Ident ::= OCTET STRING (SIZE(4))
+      Nothing ::= NULL
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b OCTET STRING (SIZE(4))
+      }
+
+      Nibbles ::= SEQUENCE (SIZE(0..3)) OF INTEGER (0..15)
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'oer' });
+  const canonicalSpec = compileString(schema, { codec: 'coer' });
+
+  const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(bytesToHex(encoded)).toBe(expectedHex);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+    expect(canonicalSpec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  describe('INTEGER', () => {
+    test('should use fixed-width octets for bounded ranges', () => {
+      roundTrip('Numbers', { a: 5, b: 100, c: -2, d: 0x1234 }, '010564fe1234');
+    });
+
+    test('should length-prefix semi-constrained and extensible integers', () => {
+      roundTrip('Count', 300, '02012c');
+      roundTrip('Extensible', 100, '0164');
+    });
+
+    test('should reject values outside a non-extensible range', () => {
+      expect(() => spec.encode('Numbers', { a: 0, b: 101, c: 0, d: 0 })).toThrow(/outside range/);
+    });
+  });
+
+  describe('SEQUENCE and SEQUENCE OF', () => {
+    test('should encode the presence bitmap and omit DEFAULT values', () => {
+      roundTrip('Record', { flag: true, count: 5, name: hexToBytes('aabb'), tail: 3 }, '80ff0502aabb');
+    });
+
+    test('should prefix SEQUENCE OF with a quantity field', () => {
+      roundTrip('Nibbles', [1, 2], '01020102');
+    });
+  });
+
+  describe('OCTET STRING, ENUMERATED, NULL and CHOICE', () => {
+    test('should encode a fixed-size OCTET STRING without a length', () => {
+      roundTrip('Ident', hexToBytes('01020304'), '01020304');
+    });
+
+    test('should encode ENUMERATED in short and long form', () => {
+      roundTrip('Color', 'blue', '02');
+      roundTrip('Level', 'high', '8203e8');
+      roundTrip('Level', 'low', '81ff');
+    });
+
+    test('should encode NULL as no octets', () => {
+      roundTrip('Nothing', null, '');
+    });
+
+    test('should encode the CHOICE alternative by its tag', () => {
+      roundTrip('Option', { a: 1 }, '020101');
+      roundTrip('Option', { b: hexToBytes('01020304') }, '0401020304');
+    });
+  });
+
+  describe('canonical decoding', () => {
+    test('should accept any non-zero BOOLEAN only in basic OER', () => {
+      expect(spec.decode('Record', hexToBytes('00010100')).flag).toBe(true);
+      expect(() => canonicalSpec.decode('Record', hexToBytes('00010100'))).toThrow(/COER/);
+    });
+
+    test('should reject a DEFAULT value that is present', () => {
+      const encoded = hexToBytes('40ff0100' + '03');
+      expect(spec.decode('Record', encoded).tail).toBe(3);
+      expect(() => canonicalSpec.decode('Record', encoded)).toThrow(/DEFAULT/);
+    });
+
+    test('should reject non-minimal lengths and integers', () => {
+      expect(spec.decode('Count', hexToBytes('8102012c'))).toBe(300);
+      expect(() => canonicalSpec.decode('Count', hexToBytes('8102012c'))).toThrow(/shortest/);
+      expect(() => canonicalSpec.decode('Count', hexToBytes('0200ff'))).toThrow(/minimal/);
+    });
+  });
+
+  describe('message schemas', () => {
+    const messageSpec = compileString(
+      fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8'),
+      { codec: 'oer' }
+    );
+
+    test('should encode context-tagged CHOICE alternatives', () => {
+      const encoded = messageSpec.encode('RequestMessage', { pingRequest: { messageId: 123 } });
+      expect(bytesToHex(encoded)).toBe('81000000000000007b');
+      expect(messageSpec.decode('RequestMessage', encoded)).toEqual({ pingRequest: { messageId: 123 } });
+    });
+
+    test('should round-trip DataResponse with embedded data', () => {
+      const dataResponse = {
+        messageId: 1,
+        status: -1,
+        embeddedData: [
+          { id: 1, data: hexToBytes('01020304') },
+          { id: 2, data: hexToBytes('05060708') }
+        ]
+      };
+
+      const encoded = messageSpec.encode('DataResponse', dataResponse);
+      expect(messageSpec.decode('DataResponse', encoded)).toEqual(dataResponse);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for open types: ANY, ANY DEFINED BY, EXTERNAL, EMBEDDED PDV and
+ * CHARACTER STRING
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('Open types', () => {
+  const schema = `
+    Open DEFINITIONS ::= BEGIN
+      Algorithm ::= SEQUENCE {
+        algorithm OBJECT IDENTIFIER,
+        parameters ANY DEFINED BY algorithm OPTIONAL
+      }
+
+      Tagged ::= SEQUENCE {
+        kind INTEGER,
+        body ANY DEFINED BY kind
+      }
+
+      TaggedSet ::= SET {
+        kind INTEGER,
+        body [0] ANY DEFINED BY kind
+      }
+
+      Parameters ::= SEQUENCE { size INTEGER, name UTF8String }
+
+      Anything ::= ANY
+      External ::= EXTERNAL
+      Embedded ::= EMBEDDED PDV
+      Characters ::= CHARACTER STRING
+      Descriptor ::= ObjectDescriptor
+    END
+  `;
+
+  const options = { openTypes: { '1.2.840.10045.2.1': 'Parameters', '7': 'Parameters' } };
+  const spec = compileString(schema, options);
+  const parameters = { size: 256, name: 'ec' };
+
+  describe('ANY', () => {
+    test('should round-trip raw encodings', () => {
+      expect(bytesToHex(spec.encode('Anything', hexToBytes('020105')))).toBe('020105');
+      expect(spec.decode('Anything', hexToBytes('3003020105'))).toEqual(hexToBytes('3003020105'));
+      expect(spec.decode('Anything', hexToBytes('3080020105' + '0000'))).toEqual(hexToBytes('3080020105' + '0000'));
+    });
+
+    test('should reject values that are not a single encoding', () => {
+      expect(() => spec.encode('Anything', 5)).toThrow(/ANY Anything: expected Uint8Array encoding/);
+      expect(() => spec.encode('Anything', hexToBytes('020105' + '0500'))).toThrow(/not a single complete encoding/);
+      expect(() => spec.encode('Anything', hexToBytes('0203'))).toThrow(/not a single complete encoding/);
+    });
+  });
+
+  describe('ANY DEFINED BY', () => {
+    test('should decode known types automatically', () => {
+      const value = { algorithm: '1.2.840.10045.2.1', parameters };
+      const encoded = spec.encode('Algorithm', value);
+      expect(bytesToHex(encoded)).toBe('3013' + '06072a8648ce3d0201' + '3008' + '02020100' + '0c026563');
+      expect(spec.decode('Algorithm', encoded)).toEqual(value);
+
+      const tagged = spec.encode('Tagged', { kind: 7, body: parameters });
+      expect(spec.decode('Tagged', tagged)).toEqual({ kind: 7, body: parameters });
+
+      const der = compileString(schema, { ...options, codec: 'der' });
+      for (const other of [spec, der]) {
+        const set = other.encode('TaggedSet', { kind: 7, body: parameters });
+        expect(other.decode('TaggedSet', set)).toEqual({ kind: 7, body: parameters });
+      }
+      // The open type may come before its governing member in BER
+      const reordered = hexToBytes('310f' + 'a00a' + '3008' + '02020100' + '0c026563' + '020107');
+      expect(spec.decode('TaggedSet', reordered)).toEqual({ kind: 7, body: parameters });
+    });
+
+    test('should keep encodings of unknown types raw', () => {
+      const value = { algorithm: '1.2.3', parameters: hexToBytes('0500') };
+      const encoded = spec.encode('Algorithm', value);
+      expect(bytesToHex(encoded)).toBe('3006' + '06022a03' + '0500');
+      expect(spec.decode('Algorithm', encoded)).toEqual(value);
+      expect(spec.decode('Algorithm', hexToBytes('3004' + '06022a03'))).toEqual({ algorithm: '1.2.3' });
+    });
+
+    test('should carry open types in PER and OER', () => {
+      for (const codec of ['per', 'uper', 'oer', 'coer'] as const) {
+        const other = compileString(schema, { ...options, codec });
+        for (const value of [
+          { algorithm: '1.2.840.10045.2.1', parameters },
+          { algorithm: '1.2.3', parameters: hexToBytes('0102') }
+        ]) {
+          expect(other.decode('Algorithm', other.encode('Algorithm', value))).toEqual(value);
+        }
+      }
+
+      const oer = compileString(schema, { ...options, codec: 'oer' });
+      expect(bytesToHex(oer.encode('Tagged', { kind: 7, body: parameters }))).toBe(
+        '0107' + '06' + '020100' + '02' + '6563'
+      );
+    });
+
+    test('should support known types in text encodings', () => {
+      const xer = compileString(schema, { ...options, codec: 'xer' });
+      const jer = compileString(schema, { ...options, codec: 'jer' });
+      const gser = compileString(schema, { ...options, codec: 'gser' });
+      const value = { kind: 7, body: parameters };
+
+      expect(new TextDecoder().decode(jer.encode('Tagged', value))).toBe('{"kind":7,"body":{"size":256,"name":"ec"}}');
+      expect(new TextDecoder().decode(gser.encode('Tagged', value))).toBe('{ kind 7, body { size 256, name "ec" } }');
+      for (const other of [xer, jer, gser]) {
+        expect(other.decode('Tagged', other.encode('Tagged', value))).toEqual(value);
+        expect(other.decode('Tagged', other.encode('Tagged', { kind: 8, body: hexToBytes('0500') }))).toEqual({
+          kind: 8,
+          body: hexToBytes('0500')
+        });
+      }
+
+      // Encodings of unknown types are sent in hexadecimal, like OCTET STRINGs
+      const unknown = { kind: 8, body: hexToBytes('0500') };
+      expect(new TextDecoder().decode(xer.encode('Tagged', unknown))).toBe('<Tagged><kind>8</kind><body>0500</body></Tagged>');
+      expect(new TextDecoder().decode(jer.encode('Tagged', unknown))).toBe('{"kind":8,"body":"0500"}');
+      expect(new TextDecoder().decode(gser.encode('Tagged', unknown))).toBe("{ kind 8, body '0500'H }");
+    });
+
+    test('should reject unknown governing members and open types', () => {
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN T ::= SEQUENCE { a ANY DEFINED BY b, b INTEGER } END')
+      ).toThrow(/SEQUENCE type T: member 'a' is defined by unknown member 'b'/);
+      expect(() => compileString(schema, { openTypes: { '1': 'Missing' } })).toThrow(
+        /Undefined type reference: Missing in open types for '1'/
+      );
+    });
+  });
+
+  describe('EXTERNAL, EMBEDDED PDV and CHARACTER STRING', () => {
+    test('should encode with universal tags', () => {
+      const external = { 'direct-reference': '1.2.3', encoding: { 'single-ASN1-type': hexToBytes('0500') } };
+      const encoded = spec.encode('External', external);
+      expect(bytesToHex(encoded.subarray(0, 1))).toBe('28');
+      expect(spec.decode('External', encoded)).toEqual(external);
+
+      const embedded = { identification: { fixed: null }, 'data-value': hexToBytes('01') };
+      expect(spec.encode('Embedded', embedded)[0]).toBe(0x2b);
+      expect(spec.decode('Embedded', spec.encode('Embedded', embedded))).toEqual(embedded);
+
+      const characters = { identification: { syntax: '1.2.3' }, 'string-value': hexToBytes('6869') };
+      expect(spec.encode('Characters', characters)[0]).toBe(0x3d);
+      expect(spec.decode('Characters', spec.encode('Characters', characters))).toEqual(characters);
+    });
+
+    test('should encode ObjectDescriptor as a GraphicString with its own tag', () => {
+      expect(bytesToHex(spec.encode('Descriptor', 'abc'))).toBe('0703616263');
+      expect(spec.decode('Descriptor', hexToBytes('0703616263'))).toBe('abc');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the aligned PER codec selected with CompileOptions.codec = 'per'
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('Aligned PER codec', () => {
+  const schema = `
+    Per DEFINITIONS ::= BEGIN
+      Numbers ::= SEQUENCE {
+        a INTEGER,
+        b INTEGER (0..100)
+      }
+
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER (0..7) OPTIONAL,
+        name OCTET STRING (SIZE(1..4)),
+        tail INTEGER (0..255) DEFAULT 3
+      }
+
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+      Count ::= INTEGER (0..MAX)
+      Extensible ::= INTEGER (0..7, ...)
+      Word ::= INTEGER (0..65535)
+      Nothing ::= NULL
+      Blob ::= OCTET STRING
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b OCTET STRING (SIZE(4))
+      }
+
+      Reordered ::= CHOICE {
+        s OCTET STRING,
+        i INTEGER
+      }
+
+      Nibbles ::= SEQUENCE (SIZE(0..3)) OF INTEGER (0..15)
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'per' });
+
+  const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(bytesToHex(encoded)).toBe(expectedHex);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  describe('INTEGER', () => {
+    test('should encode unconstrained and constrained integers', () => {
+      roundTrip('Numbers', { a: 5, b: 100 }, '0105c8');
+    });
+
+    test('should encode a 16-bit range as two aligned octets', () => {
+      roundTrip('Word', 0x1234, '1234');
+    });
+
+    test('should encode semi-constrained integers with a length', () => {
+      roundTrip('Count', 300, '02012c');
+    });
+
+    test('should use the extension bit for extensible ranges', () => {
+      roundTrip('Extensible', 5, '50');
+      roundTrip('Extensible', 100, '800164');
+    });
+
+    test('should reject values outside a non-extensible range', () => {
+      expect(() => spec.encode('Word', 70000)).toThrow(/outside range/);
+    });
+
+    test('should handle integers beyond 2^53', () => {
+      const big = 2n ** 70n;
+      expect(spec.decode('Numbers', spec.encode('Numbers', { a: big, b: 0 }))).toEqual({ a: big, b: 0 });
+    });
+  });
+
+  describe('SEQUENCE', () => {
+    test('should encode the optional bitmap preamble and omit DEFAULT values', () => {
+      const encoded = spec.encode('Record', { flag: true, count: 5, name: 'aabb', tail: 3 });
+      expect(bytesToHex(encoded)).toBe('b5aabb');
+      expect(spec.decode('Record', encoded)).toEqual({
+        flag: true,
+        count: 5,
+        name: hexToBytes('aabb'),
+        tail: 3
+      });
+    });
+
+    test('should leave out absent OPTIONAL members', () => {
+      const decoded = spec.decode('Record', spec.encode('Record', { flag: false, name: 'ff', tail: 9 }));
+      expect(decoded).toEqual({ flag: false, name: hexToBytes('ff'), tail: 9 });
+    });
+
+    test('should reject sizes outside the SIZE constraint', () => {
+      expect(() => spec.encode('Record', { flag: true, name: 'aabbccddee' })).toThrow(/SIZE/);
+    });
+  });
+
+  describe('ENUMERATED, NULL and CHOICE', () => {
+    test('should encode ENUMERATED as an index', () => {
+      roundTrip('Color', 'blue', '80');
+    });
+
+    test('should encode an empty value as a single zero octet', () => {
+      roundTrip('Nothing', null, '00');
+    });
+
+    test('should encode the CHOICE index before the alternative', () => {
+      roundTrip('Option', { b: hexToBytes('01020304') }, '8001020304');
+    });
+
+    test('should number CHOICE alternatives in canonical tag order', () => {
+      roundTrip('Reordered', { i: 1 }, '000101');
+    });
+  });
+
+  describe('SEQUENCE OF and OCTET STRING', () => {
+    test('should encode a constrained element count', () => {
+      roundTrip('Nibbles', [1, 2], '8480');
+    });
+
+    test('should fragment unconstrained lengths of 16K and more', () => {
+      const data = new Uint8Array(20000).map((_, i) => i & 0xff);
+      const encoded = spec.encode('Blob', data);
+
+      expect(encoded[0]).toBe(0xc1);
+      expect(bytesToHex(encoded.slice(16385, 16387))).toBe('8e20');
+      expect(encoded.length).toBe(20003);
+      expect(spec.decode('Blob', encoded)).toEqual(data);
+    });
+  });
+
+  describe('message schemas', () => {
+    const messageSpec = compileString(
+      fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8'),
+      { codec: 'per' }
+    );
+
+    test('should encode 64-bit ranges with a length prefix', () => {
+      const encoded = messageSpec.encode('PingRequest', { messageId: 123 });
+      expect(bytesToHex(encoded)).toBe('e0800000000000007b');
+    });
+
+    test('should round-trip RequestMessage', () => {
+      const requestMessage = {
+        dataRequest: {
+          messageId: 124,
+          version: 0,
+          category: 1,
+          size: 1000,
+          identifier: hexToBytes('973539beb5008a29ca866b178ce99f2782b5e39a'),
+          checksum: hexToBytes('2c8a0426b8a6cf115894cd81135c08fea8f611dfe365bd543dc9443043fea187')
+        }
+      };
+
+      const encoded = messageSpec.encode('RequestMessage', requestMessage);
+      expect(messageSpec.decode('RequestMessage', encoded)).toEqual(requestMessage);
+    });
+
+    test('should round-trip DataResponse with embedded data', () => {
+      const dataResponse = {
+        messageId: 1,
+        status: -1,
+        embeddedData: [
+          { id: 1, data: hexToBytes('01020304') },
+          { id: 2, data: hexToBytes('05060708') }
+        ]
+      };
+
+      const encoded = messageSpec.encode('DataResponse', dataResponse);
+      expect(messageSpec.decode('DataResponse', encoded)).toEqual(dataResponse);
+    });
+  });
+});
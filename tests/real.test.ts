@@ -0,0 +1,144 @@
+/**
+ * Tests for the REAL type
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('REAL', () => {
+  const schema = `
+    Reals DEFINITIONS ::= BEGIN
+      Measurement ::= REAL
+
+      pi REAL ::= { mantissa 314159, base 10, exponent -5 }
+
+      Reading ::= SEQUENCE {
+        value REAL DEFAULT pi,
+        scale REAL DEFAULT 2.5,
+        half REAL DEFAULT { mantissa 1, base 2, exponent -1 },
+        limit REAL DEFAULT PLUS-INFINITY
+      }
+    END
+  `;
+
+  const ascii = (text: string) => bytesToHex(new TextEncoder().encode(text));
+  const ber = compileString(schema);
+  const der = compileString(schema, { codec: 'der' });
+
+  describe('BER', () => {
+    test.each([
+      [0, '0900'],
+      [1, '0903800001'],
+      [0.5, '090380ff01'],
+      [10, '0903800105'],
+      [-2.5, '0903c0ff05'],
+      [2 ** 200, '09048100c801'],
+      [Infinity, '090140'],
+      [-Infinity, '090141'],
+      [NaN, '090142'],
+      [-0, '090143']
+    ])('should encode %d in base 2', (value, expectedHex) => {
+      const encoded = ber.encode('Measurement', value);
+      expect(bytesToHex(encoded)).toBe(expectedHex);
+      expect(ber.decode('Measurement', encoded)).toBe(value);
+      expect(der.decode('Measurement', encoded)).toBe(value);
+    });
+
+    test('should encode in base 8 and 16 with scaling', () => {
+      expect(bytesToHex(ber.encode('Measurement', 1024, { realBase: 8 }))).toBe('0903940301');
+      expect(bytesToHex(ber.encode('Measurement', 1024, { realBase: 16 }))).toBe('0903a80201');
+      expect(ber.decode('Measurement', hexToBytes('0903940301'))).toBe(1024);
+      expect(ber.decode('Measurement', hexToBytes('0903a80201'))).toBe(1024);
+    });
+
+    test('should encode in decimal NR3 form', () => {
+      expect(bytesToHex(ber.encode('Measurement', 3.14, { realBase: 10 }))).toBe('0908' + '03' + ascii('314.E-2'));
+      expect(bytesToHex(ber.encode('Measurement', -100, { realBase: 10 }))).toBe('0906' + '03' + ascii('-1.E2'));
+      expect(bytesToHex(ber.encode('Measurement', 7, { realBase: 10 }))).toBe('0906' + '03' + ascii('7.E+0'));
+      expect(der.decode('Measurement', hexToBytes('0908' + '03' + ascii('314.E-2')))).toBe(3.14);
+    });
+
+    test('should decode every ISO 6093 number form', () => {
+      expect(ber.decode('Measurement', hexToBytes('0904' + '01' + ascii(' 42')))).toBe(42);
+      expect(ber.decode('Measurement', hexToBytes('0905' + '02' + ascii('-1,5')))).toBe(-1.5);
+      expect(ber.decode('Measurement', hexToBytes('0906' + '03' + ascii('25e-1')))).toBe(2.5);
+      expect(() => ber.decode('Measurement', hexToBytes('0904' + '01' + ascii('4.2')))).toThrow(/invalid decimal encoding '4.2'/);
+    });
+
+    test('should round trip doubles in every base', () => {
+      const values = [0.1, -1 / 3, Math.PI, 1e300, -Number.MAX_VALUE, Number.MIN_VALUE, 2 ** -1030, 123456789.125];
+      for (const realBase of [2, 8, 10, 16] as const) {
+        for (const value of values) {
+          expect(ber.decode('Measurement', ber.encode('Measurement', value, { realBase }))).toBe(value);
+        }
+      }
+    });
+
+    test('should decode long exponents', () => {
+      expect(ber.decode('Measurement', hexToBytes('0904' + '83010101'))).toBe(2);
+      expect(ber.decode('Measurement', hexToBytes('0907' + '8304' + '7fffffff' + '01'))).toBe(Infinity);
+      expect(() => der.decode('Measurement', hexToBytes('0904' + '83010101'))).toThrow(/DER requires an odd mantissa and minimal exponent/);
+    });
+
+    test('should reject non-canonical forms in DER', () => {
+      expect(() => der.decode('Measurement', hexToBytes('0903940301'))).toThrow(/DER requires base 2 without scaling/);
+      expect(() => der.decode('Measurement', hexToBytes('0903800002'))).toThrow(/odd mantissa/);
+      expect(() => der.decode('Measurement', hexToBytes('0904' + '81000001'))).toThrow(/minimal exponent/);
+      expect(() => der.decode('Measurement', hexToBytes('0904' + '01' + ascii(' 42')))).toThrow(/DER requires the canonical NR3 form/);
+      expect(() => der.decode('Measurement', hexToBytes('0906' + '03' + ascii('10.E1')))).toThrow(/canonical NR3 form/);
+      expect(() => der.encode('Measurement', 1, { realBase: 8 })).toThrow(/not supported by the DER codec/);
+    });
+
+    test('should reject invalid encodings and values', () => {
+      expect(() => ber.decode('Measurement', hexToBytes('090144'))).toThrow(/invalid special value 0x44/);
+      expect(() => ber.decode('Measurement', hexToBytes('090180'))).toThrow(/truncated binary encoding/);
+      expect(() => ber.decode('Measurement', hexToBytes('0903b00001'))).toThrow(/reserved base/);
+      expect(() => ber.encode('Measurement', '1.5')).toThrow(/REAL Measurement: expected number, got string/);
+      expect(() => ber.encode('Measurement', 1, { realBase: 3 as any })).toThrow(/REAL base must be 2, 8, 10 or 16/);
+    });
+
+    test('should use value notation in DEFAULTs', () => {
+      expect(ber.decode('Reading', hexToBytes('3000'))).toEqual({ value: 3.14159, scale: 2.5, half: 0.5, limit: Infinity });
+      expect(bytesToHex(der.encode('Reading', { value: 3.14159, scale: 2.5, half: 0.5, limit: Infinity }))).toBe('3000');
+      expect(bytesToHex(der.encode('Reading', { limit: -Infinity }))).toBe('3003' + '090141');
+    });
+
+    test('should reject invalid value notation', () => {
+      const invalid = 'Bad DEFINITIONS ::= BEGIN B ::= SEQUENCE { r REAL DEFAULT { mantissa 1, base 3, exponent 2 } } END';
+      expect(() => compileString(invalid)).toThrow(/expected \{ mantissa, base 2 or 10, exponent \}/);
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each([
+      ['per', 1, '03800001'],
+      ['uper', -2.5, '03c0ff05'],
+      ['oer', 0.5, '0380ff01'],
+      ['oer', -0, '0143'],
+      ['xer', 1e-7, '<Measurement>1E-7</Measurement>'],
+      ['xer', -Infinity, '<Measurement><MINUS-INFINITY/></Measurement>'],
+      ['xer', -0, '<Measurement>-0</Measurement>'],
+      ['jer', 2.5, '2.5'],
+      ['jer', NaN, '"NaN"'],
+      ['jer', -0, '"-0"'],
+      ['gser', 3.14, '3.14E0'],
+      ['gser', 0, '0'],
+      ['gser', Infinity, 'PLUS-INFINITY']
+    ] as const)('%s should encode %d', (codec, value, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode('Measurement', value);
+      const text = ['xer', 'jer', 'gser'].includes(codec) ? new TextDecoder().decode(encoded) : bytesToHex(encoded);
+
+      expect(text).toBe(expected);
+      expect(spec.decode('Measurement', encoded)).toBe(value);
+    });
+
+    test.each(['per', 'uper', 'oer', 'xer', 'jer', 'gser'] as const)('should round trip REAL values with %s', codec => {
+      const spec = compileString(schema, { codec });
+      for (const value of [0, -0, 1e-300, -123.456, Infinity, -Infinity, NaN, Number.MAX_VALUE]) {
+        expect(spec.decode('Measurement', spec.encode('Measurement', value))).toBe(value);
+      }
+      const reading = { value: 1, scale: 2.5, half: 0.5, limit: 100 };
+      expect(spec.decode('Reading', spec.encode('Reading', reading))).toEqual(reading);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for recursive (self-referential) type definitions
+ */
+
+import { compileString, bytesToHex, CompileError } from '../src/index';
+
+describe('Recursive types', () => {
+  const schema = `
+    Recursive DEFINITIONS ::= BEGIN
+      Node ::= SEQUENCE {
+        value INTEGER,
+        children SEQUENCE OF Node
+      }
+
+      Filter ::= CHOICE {
+        and [0] SEQUENCE OF Filter,
+        or [1] SEQUENCE OF Filter,
+        not [2] Filter,
+        equalityMatch [3] AttributeValueAssertion,
+        present [7] OCTET STRING
+      }
+
+      AttributeValueAssertion ::= SEQUENCE {
+        attributeDesc OCTET STRING,
+        assertionValue OCTET STRING
+      }
+
+      Expression ::= CHOICE {
+        number INTEGER,
+        sum Sum
+      }
+
+      Sum ::= SEQUENCE {
+        left Expression,
+        right Expression
+      }
+    END
+  `;
+
+  const tree = {
+    value: 1,
+    children: [
+      { value: 2, children: [] },
+      { value: 3, children: [{ value: 4, children: [] }] }
+    ]
+  };
+
+  const filter = {
+    and: [
+      { equalityMatch: { attributeDesc: new TextEncoder().encode('cn'), assertionValue: new TextEncoder().encode('x') } },
+      { not: { or: [{ present: new TextEncoder().encode('mail') }] } }
+    ]
+  };
+
+  const expression = { sum: { left: { number: 1 }, right: { sum: { left: { number: 2 }, right: { number: 3 } } } } };
+
+  test('should encode a self-referential SEQUENCE in BER', () => {
+    const spec = compileString(schema);
+    const value = { value: 1, children: [{ value: 2, children: [] }] };
+    const encoded = spec.encode('Node', value);
+
+    expect(bytesToHex(encoded)).toBe('300c020101' + '3007' + '3005020102' + '3000');
+    expect(spec.decode('Node', encoded)).toEqual(value);
+  });
+
+  test('should encode a recursive CHOICE with a tagged self reference in BER', () => {
+    const spec = compileString(schema);
+    const encoded = spec.encode('Filter', { not: { present: new Uint8Array([0x61]) } });
+
+    expect(bytesToHex(encoded)).toBe('a205' + 'a7030401' + '61');
+  });
+
+  test('should round trip deeply nested values', () => {
+    const spec = compileString(schema);
+    let deep: any = { value: 0, children: [] };
+    for (let i = 1; i <= 50; i++) {
+      deep = { value: i, children: [deep] };
+    }
+
+    expect(spec.decode('Node', spec.encode('Node', deep))).toEqual(deep);
+  });
+
+  test.each(['ber', 'der', 'cer', 'per', 'uper', 'oer', 'coer', 'xer', 'jer', 'gser'] as const)(
+    'should round trip recursive types with %s',
+    codec => {
+      const spec = compileString(schema, { codec });
+
+      expect(spec.decode('Node', spec.encode('Node', tree))).toEqual(tree);
+      expect(spec.decode('Filter', spec.encode('Filter', filter))).toEqual(filter);
+      expect(spec.decode('Expression', spec.encode('Expression', expression))).toEqual(expression);
+    }
+  );
+
+  test('should still reject types that are only references to themselves', () => {
+    expect(() => compileString(`
+      Broken DEFINITIONS ::= BEGIN
+        Loop ::= Loop
+      END
+    `)).toThrow(CompileError);
+  });
+
+  test('should reject self references through tags and constraints that leave no finite value', () => {
+    for (const definition of [
+      'A ::= [0] A',
+      'A ::= SEQUENCE { next A }',
+      'A ::= SEQUENCE (SIZE(1..MAX)) OF A',
+      'A ::= CHOICE { a [0] B, b [1] A } B ::= SEQUENCE { a A }'
+    ]) {
+      expect(() => compileString(`Broken DEFINITIONS ::= BEGIN ${definition} END`)).toThrow(
+        /Circular reference detected for type Broken\.[AB]: it has no finite value/
+      );
+    }
+
+    // A value may stop at an OPTIONAL member, an empty list or another alternative
+    expect(() => compileString(`
+      Fine DEFINITIONS ::= BEGIN
+        A ::= SEQUENCE { next A OPTIONAL }
+        B ::= CHOICE { a [0] B, b [1] NULL }
+        C ::= [0] SEQUENCE OF C
+      END
+    `)).not.toThrow();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for restricted character string types
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('Restricted character strings', () => {
+  const schema = `
+    Strings DEFINITIONS ::= BEGIN
+      Utf8 ::= UTF8String
+      Printable ::= PrintableString
+      Country ::= PrintableString (SIZE(2))
+      Ia5 ::= IA5String
+      Numeric ::= NumericString
+      Pin ::= NumericString (SIZE(3))
+      Visible ::= VisibleString
+      Bmp ::= BMPString
+      Universal ::= UniversalString
+      Teletex ::= TeletexString
+      T61 ::= T61String
+      Graphic ::= GraphicString
+      General ::= GeneralString
+
+      Person ::= SEQUENCE {
+        name UTF8String,
+        greeting UTF8String DEFAULT "say ""hi""",
+        country Country
+      }
+    END
+  `;
+
+  describe('BER', () => {
+    const ber = compileString(schema);
+
+    const roundTrip = (typeName: string, value: string, expectedHex: string) => {
+      const encoded = ber.encode(typeName, value);
+      expect(bytesToHex(encoded)).toBe(expectedHex);
+      expect(ber.decode(typeName, encoded)).toBe(value);
+    };
+
+    test('should encode single octet character sets', () => {
+      roundTrip('Printable', 'Test User 1', '130b5465737420557365722031');
+      roundTrip('Ia5', 'a@b', '1603614062');
+      roundTrip('Numeric', '123 45', '1206313233203435');
+      roundTrip('Visible', 'Hi!', '1a03486921');
+      roundTrip('Teletex', 'é', '1401e9');
+      roundTrip('T61', 'x', '140178');
+      roundTrip('Graphic', 'a', '190161');
+      roundTrip('General', 'x', '1b0178');
+    });
+
+    test('should transcode UTF-8, UCS-2 and UCS-4', () => {
+      roundTrip('Utf8', 'héllo', '0c0668c3a96c6c6f');
+      roundTrip('Bmp', 'aé', '1e04006100e9');
+      roundTrip('Universal', 'a😀', '1c08000000610001f600');
+      roundTrip('Utf8', '', '0c00');
+    });
+
+    test('should reject characters outside the alphabet', () => {
+      expect(() => ber.encode('Printable', 'a@b')).toThrow(/PrintableString Printable: character U\+0040 is not permitted/);
+      expect(() => ber.encode('Numeric', '12a')).toThrow(/not permitted/);
+      expect(() => ber.encode('Ia5', 'é')).toThrow(/not permitted/);
+      expect(() => ber.encode('Visible', '\n')).toThrow(/not permitted/);
+      expect(() => ber.encode('Graphic', '\n')).toThrow(/not permitted/);
+      expect(() => ber.encode('Bmp', '😀')).toThrow(/U\+1F600 is not permitted/);
+      expect(() => ber.encode('Utf8', '\ud800')).toThrow(/not permitted/);
+      expect(() => ber.encode('Utf8', 42)).toThrow(/expected string/);
+    });
+
+    test('should reject invalid encodings', () => {
+      expect(() => ber.decode('Bmp', hexToBytes('1e0100'))).toThrow(/not a multiple of 2/);
+      expect(() => ber.decode('Universal', hexToBytes('1c0400110000'))).toThrow(/invalid character/);
+      expect(() => ber.decode('Utf8', hexToBytes('0c01ff'))).toThrow(/invalid UTF-8/);
+    });
+
+    test('should reassemble constructed encodings', () => {
+      const encoded = ber.encode('Ia5', 'abc', { segmentSize: 2 });
+      expect(bytesToHex(encoded)).toBe('3607' + '04026162' + '040163');
+      expect(ber.decode('Ia5', encoded)).toBe('abc');
+
+      // Segments may split the octets of a character
+      expect(ber.decode('Bmp', hexToBytes('3e08' + '0403006100' + '040162'))).toBe('ab');
+      expect(ber.decode('Utf8', hexToBytes('2c06' + '040161' + '040162'))).toBe('ab');
+      expect(() => ber.decode('Utf8', hexToBytes('2c06' + '0c0161' + '0c0162'))).toThrow(/Expected tag 4/);
+    });
+
+    test('should send long strings as OCTET STRING segments in CER', () => {
+      const cer = compileString(schema, { codec: 'cer' });
+      const text = 'a'.repeat(1001);
+      const encoded = cer.encode('Utf8', text);
+      expect(bytesToHex(encoded)).toBe('2c80' + '048203e8' + '61'.repeat(1000) + '040161' + '0000');
+      expect(cer.decode('Utf8', encoded)).toBe(text);
+    });
+
+    test('should use string DEFAULT values', () => {
+      const encoded = ber.encode('Person', { name: 'Ann', country: 'FI' });
+      expect(bytesToHex(encoded)).toBe('3013' + '0c03416e6e' + '0c087361792022686922' + '13024649');
+      expect(ber.decode('Person', hexToBytes('3009' + '0c03416e6e' + '13024649'))).toEqual({
+        name: 'Ann',
+        greeting: 'say "hi"',
+        country: 'FI'
+      });
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each([
+      ['per', 'Ia5', 'abc', '03616263'],
+      ['uper', 'Ia5', 'abc', '03c38b18'],
+      ['per', 'Pin', '123', '2340'],
+      ['per', 'Country', 'US', '5553'],
+      ['uper', 'Country', 'US', 'ab4c'],
+      ['per', 'Bmp', 'aé', '02006100e9'],
+      ['per', 'Utf8', 'é', '02c3a9'],
+      ['oer', 'Country', 'US', '5553'],
+      ['oer', 'Ia5', 'abc', '03616263'],
+      ['oer', 'Bmp', 'aé', '04006100e9'],
+      ['oer', 'Utf8', 'é', '02c3a9'],
+      ['xer', 'Utf8', 'a < b & c', '<Utf8>a &lt; b &amp; c</Utf8>'],
+      ['jer', 'Utf8', 'héllo "x"', '"héllo \\"x\\""'],
+      ['gser', 'Utf8', 'say "hi"', '"say ""hi"""']
+    ] as const)('%s should encode %s', (codec, typeName, value, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode(typeName, value);
+      const text = ['xer', 'jer', 'gser'].includes(codec) ? new TextDecoder().decode(encoded) : bytesToHex(encoded);
+
+      expect(text).toBe(expected);
+      expect(spec.decode(typeName, encoded)).toBe(value);
+    });
+
+    test.each(['per', 'uper', 'oer', 'xer', 'jer', 'gser'] as const)('should round trip every string type with %s', codec => {
+      const spec = compileString(schema, { codec });
+      const values: Array<[string, string]> = [
+        ['Printable', "Test (1) + 2 = 3?"],
+        ['Numeric', '0 9'],
+        ['Visible', '~Hi!'],
+        ['Bmp', 'Ωmega'],
+        ['Universal', 'a😀'],
+        ['Teletex', 'café'],
+        ['Graphic', 'ÿes'],
+        ['General', 'x']
+      ];
+
+      for (const [typeName, value] of values) {
+        expect(spec.decode(typeName, spec.encode(typeName, value))).toBe(value);
+      }
+      expect(spec.decode('Person', spec.encode('Person', { name: 'Ann', country: 'FI' }))).toEqual({
+        name: 'Ann',
+        greeting: 'say "hi"',
+        country: 'FI'
+      });
+    });
+
+    test('should check SIZE constraints in characters', () => {
+      expect(() => compileString(schema, { codec: 'uper' }).encode('Country', 'USA')).toThrow(/size 3 outside SIZE\(2\.\.2\)/);
+      expect(() => compileString(schema, { codec: 'oer' }).encode('Pin', '12')).toThrow(/size 2 outside/);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for SET and SET OF types
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('SET and SET OF', () => {
+  const schema = `
+    Sets DEFINITIONS ::= BEGIN
+      Entry ::= SET {
+        name UTF8String,
+        id INTEGER,
+        active BOOLEAN DEFAULT TRUE,
+        note IA5String OPTIONAL
+      }
+
+      -- The members of Entry in the canonical order of their tags
+      CanonicalEntry ::= SEQUENCE {
+        active BOOLEAN DEFAULT TRUE,
+        id INTEGER,
+        name UTF8String,
+        note IA5String OPTIONAL
+      }
+
+      Tagged ::= SET {
+        data OCTET STRING,
+        value CHOICE { number INTEGER, flag BOOLEAN }
+      }
+
+      Names ::= SET OF UTF8String
+      Small ::= SET SIZE(1..2) OF INTEGER
+      Bag ::= SET OF SET { x INTEGER }
+    END
+  `;
+
+  const ber = compileString(schema);
+  const der = compileString(schema, { codec: 'der' });
+  const entry = { name: 'Al', id: 5, note: 'x' };
+
+  describe('BER', () => {
+    test('should encode members in canonical tag order', () => {
+      expect(bytesToHex(ber.encode('Entry', entry))).toBe('310d' + '0101ff' + '020105' + '0c02416c' + '160178');
+      expect(bytesToHex(der.encode('Entry', entry))).toBe('310a' + '020105' + '0c02416c' + '160178');
+      expect(bytesToHex(der.encode('Tagged', { data: new Uint8Array([1]), value: { flag: false } }))).toBe(
+        '3106' + '010100' + '040101'
+      );
+    });
+
+    test('should decode members in any order', () => {
+      const decoded = ber.decode('Entry', hexToBytes('310a' + '160178' + '0c02416c' + '020105'));
+      expect(decoded).toEqual({ name: 'Al', id: 5, active: true, note: 'x' });
+      expect(ber.decode('Tagged', hexToBytes('3106' + '040101' + '020107'))).toEqual({
+        data: new Uint8Array([1]),
+        value: { number: 7 }
+      });
+    });
+
+    test('should detect duplicate, missing and unknown members', () => {
+      expect(() => ber.decode('Entry', hexToBytes('310a' + '020105' + '020106' + '0c02416c'))).toThrow(
+        /SET Entry: duplicate member 'id'/
+      );
+      expect(() => ber.decode('Entry', hexToBytes('3103' + '020105'))).toThrow(/SET Entry: missing required member 'name'/);
+      expect(() => ber.decode('Entry', hexToBytes('3102' + '0500'))).toThrow(/SET Entry: unexpected tag 5/);
+    });
+
+    test('should require canonical order in DER', () => {
+      expect(() => der.decode('Entry', hexToBytes('310a' + '0c02416c' + '020105' + '160178'))).toThrow(
+        /DER requires members in canonical tag order/
+      );
+      expect(() => der.decode('Entry', hexToBytes('310a' + '0101ff' + '020105' + '0c02416c'))).toThrow(
+        /DER forbids encoding DEFAULT value of member 'active'/
+      );
+    });
+
+    test('should sort SET OF elements in DER', () => {
+      const names = ['b', 'a', 'ab'];
+      expect(bytesToHex(ber.encode('Names', names))).toBe('310a' + '0c0162' + '0c0161' + '0c026162');
+      expect(bytesToHex(der.encode('Names', names))).toBe('310a' + '0c0161' + '0c0162' + '0c026162');
+      expect(ber.decode('Names', hexToBytes('310a' + '0c0162' + '0c0161' + '0c026162'))).toEqual(names);
+      expect(() => der.decode('Names', hexToBytes('310a' + '0c0162' + '0c0161' + '0c026162'))).toThrow(
+        /SET OF Names: DER requires elements in ascending order/
+      );
+    });
+
+    test('should sort SET OF elements in CER', () => {
+      const cer = compileString(schema, { codec: 'cer' });
+      expect(bytesToHex(cer.encode('Small', [256, 1]))).toBe('3180' + '020101' + '02020100' + '0000');
+    });
+
+    test('should reject SETs whose members share a tag', () => {
+      const clash = 'Bad DEFINITIONS ::= BEGIN B ::= SET { a INTEGER, b CHOICE { c BOOLEAN, d INTEGER } } END';
+      expect(() => compileString(clash)).toThrow(/SET type B: members 'a' and 'b' have the same tag 2/);
+    });
+  });
+
+  describe('other encoding rules', () => {
+    test.each(['per', 'uper', 'oer'] as const)('%s should encode SET members in canonical tag order', codec => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode('Entry', entry);
+      expect(bytesToHex(encoded)).toBe(bytesToHex(spec.encode('CanonicalEntry', entry)));
+      expect(spec.decode('Entry', encoded)).toEqual({ ...entry, active: true });
+    });
+
+    test('should decode SET members in any order in XER and GSER', () => {
+      const xer = compileString(schema, { codec: 'xer' });
+      const text = '<Entry><note>x</note><id>5</id><name>Al</name></Entry>';
+      expect(xer.decode('Entry', new TextEncoder().encode(text))).toEqual({ ...entry, active: true });
+      expect(() => xer.decode('Entry', new TextEncoder().encode('<Entry><id>5</id><id>6</id><name>Al</name></Entry>'))).toThrow(
+        /SET Entry: unexpected element <id>/
+      );
+
+      const gser = compileString(schema, { codec: 'gser' });
+      expect(gser.decode('Entry', new TextEncoder().encode('{ note "x", id 5, name "Al" }'))).toEqual({ ...entry, active: true });
+      expect(() => gser.decode('Entry', new TextEncoder().encode('{ id 5, id 6 }'))).toThrow(/SET Entry: duplicate member 'id'/);
+      expect(() => gser.decode('Entry', new TextEncoder().encode('{ id 5 }'))).toThrow(/SET Entry: missing required member 'name'/);
+    });
+
+    test('should name anonymous SET elements in XER', () => {
+      const xer = compileString(schema, { codec: 'xer' });
+      const encoded = xer.encode('Bag', [{ x: 1 }]);
+      expect(new TextDecoder().decode(encoded)).toBe('<Bag><SET><x>1</x></SET></Bag>');
+      expect(xer.decode('Bag', encoded)).toEqual([{ x: 1 }]);
+    });
+
+    test.each(['per', 'uper', 'oer', 'xer', 'jer', 'gser'] as const)('should round trip SET and SET OF with %s', codec => {
+      const spec = compileString(schema, { codec });
+      expect(spec.decode('Entry', spec.encode('Entry', { ...entry, active: false }))).toEqual({ ...entry, active: false });
+      expect(spec.decode('Names', spec.encode('Names', ['b', 'a']))).toEqual(['b', 'a']);
+      expect(spec.decode('Tagged', spec.encode('Tagged', { data: new Uint8Array([1]), value: { flag: true } }))).toEqual({
+        data: new Uint8Array([1]),
+        value: { flag: true }
+      });
+    });
+
+    test('should check SET OF size constraints', () => {
+      expect(() => compileString(schema, { codec: 'per' }).encode('Small', [1, 2, 3])).toThrow(/SET OF Small: size 3 outside SIZE\(1\.\.2\)/);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for telling tags apart by class and number, and for decoding
+ * untagged CHOICE types nested in CHOICE alternatives
+ */
+
+import { compileString, hexToBytes, bytesToHex, CompileError, DecodeError } from '../src/index';
+
+describe('Tag classes', () => {
+  const schema = `
+    Classes DEFINITIONS ::= BEGIN
+      Flag ::= CHOICE {
+        context [1] IMPLICIT BOOLEAN,
+        universal BOOLEAN,
+        application [APPLICATION 1] IMPLICIT BOOLEAN
+      }
+
+      Inner ::= CHOICE { number INTEGER, text UTF8String }
+      Outer ::= CHOICE {
+        inner Inner,
+        flag BOOLEAN,
+        nested CHOICE { id [0] IMPLICIT INTEGER, name [1] IMPLICIT UTF8String }
+      }
+
+      Mixed ::= SET {
+        priv [PRIVATE 0] IMPLICIT INTEGER,
+        ctx [0] IMPLICIT INTEGER,
+        app [APPLICATION 0] IMPLICIT INTEGER,
+        univ INTEGER
+      }
+    END
+  `;
+
+  const ber = compileString(schema);
+
+  describe('CHOICE', () => {
+    test('should tell alternatives with the same tag number apart by class', () => {
+      expect(bytesToHex(ber.encode('Flag', { context: true }))).toBe('8101ff');
+      expect(bytesToHex(ber.encode('Flag', { universal: true }))).toBe('0101ff');
+      expect(bytesToHex(ber.encode('Flag', { application: true }))).toBe('4101ff');
+
+      expect(ber.decode('Flag', hexToBytes('8101ff'))).toEqual({ context: true });
+      expect(ber.decode('Flag', hexToBytes('0101ff'))).toEqual({ universal: true });
+      expect(ber.decode('Flag', hexToBytes('4101ff'))).toEqual({ application: true });
+    });
+
+    test('should decode untagged CHOICE alternatives by the tags of their own alternatives', () => {
+      for (const value of [
+        { inner: { number: 5 } },
+        { inner: { text: 'a' } },
+        { flag: false },
+        { nested: { id: 1 } },
+        { nested: { name: 'b' } }
+      ]) {
+        expect(ber.decode('Outer', ber.encode('Outer', value))).toEqual(value);
+      }
+      expect(ber.decode('Outer', hexToBytes('020105'))).toEqual({ inner: { number: 5 } });
+      expect(ber.decode('Outer', hexToBytes('810162'))).toEqual({ nested: { name: 'b' } });
+    });
+
+    test('should report unknown tags with their class', () => {
+      expect(() => ber.decode('Flag', hexToBytes('c101ff'))).toThrow(DecodeError);
+      expect(() => ber.decode('Flag', hexToBytes('c101ff'))).toThrow(/no choice found for tag \[PRIVATE 1\]/);
+    });
+
+    test('should reject alternatives with the same tag', () => {
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN T ::= CHOICE { a [1] INTEGER, b [1] BOOLEAN } END')
+      ).toThrow(CompileError);
+      expect(() =>
+        compileString(`
+          M DEFINITIONS ::= BEGIN
+            I ::= CHOICE { x INTEGER, y BOOLEAN }
+            T ::= CHOICE { a I, b INTEGER }
+          END
+        `)
+      ).toThrow(/CHOICE type T: alternatives 'a' and 'b' have the same tag 2/);
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN T ::= CHOICE { a [APPLICATION 1] INTEGER, b [APPLICATION 1] NULL } END')
+      ).toThrow(/alternatives 'a' and 'b' have the same tag \[APPLICATION 1\]/);
+    });
+  });
+
+  describe('SET', () => {
+    test('should sort members by class before number in canonical encodings', () => {
+      const der = compileString(schema, { codec: 'der' });
+      const value = { priv: 1, ctx: 2, app: 3, univ: 4 };
+      const encoded = der.encode('Mixed', value);
+      expect(bytesToHex(encoded)).toBe('310c' + '020104' + '400103' + '800102' + 'c00101');
+      expect(der.decode('Mixed', encoded)).toEqual(value);
+      expect(ber.decode('Mixed', hexToBytes('310c' + 'c00101' + '800102' + '400103' + '020104'))).toEqual(value);
+    });
+
+    test('should report unknown tags with their class', () => {
+      expect(() => ber.decode('Mixed', hexToBytes('3103' + '810101'))).toThrow(/SET Mixed: unexpected tag \[1\]/);
+    });
+  });
+
+  describe('tagged types', () => {
+    test('should reject tags of another class with the same number', () => {
+      const spec = compileString('M DEFINITIONS ::= BEGIN T ::= [APPLICATION 3] IMPLICIT INTEGER END');
+      expect(spec.decode('T', hexToBytes('430105'))).toBe(5);
+      expect(() => spec.decode('T', hexToBytes('830105'))).toThrow(/Expected tag \[APPLICATION 3\] for T, got \[3\]/);
+      expect(() => ber.decode('Flag', hexToBytes('0201ff'))).toThrow(/no choice found for tag 2/);
+    });
+  });
+
+  describe('other codecs', () => {
+    test('should order alternatives of nested untagged CHOICEs by their smallest tag', () => {
+      const per = compileString(schema, { codec: 'per' });
+      const oer = compileString(schema, { codec: 'oer' });
+      // Canonical order: flag (1), inner (2), nested ([0])
+      expect(bytesToHex(per.encode('Outer', { flag: true }))).toBe('20');
+      expect(bytesToHex(oer.encode('Outer', { nested: { id: 1 } }))).toBe('80' + '80' + '0101');
+      for (const codec of [per, oer]) {
+        for (const value of [{ inner: { text: 'a' } }, { nested: { name: 'b' } }, { flag: true }]) {
+          expect(codec.decode('Outer', codec.encode('Outer', value))).toEqual(value);
+        }
+      }
+      expect(() => oer.decode('Outer', hexToBytes('c10101'))).toThrow(/no alternative with tag \[PRIVATE 1\]/);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for tag classes and IMPLICIT, EXPLICIT and AUTOMATIC tagging
+ */
+
+import { compileString, hexToBytes, bytesToHex, CompileError } from '../src/index';
+
+describe('Tagging', () => {
+  const schema = `
+    Tags DEFINITIONS ::= BEGIN
+      Implicit ::= [0] IMPLICIT INTEGER
+      Explicit ::= [APPLICATION 5] INTEGER
+      Private ::= [PRIVATE 1] IMPLICIT BOOLEAN
+      Large ::= [APPLICATION 100] IMPLICIT INTEGER
+      Record ::= [APPLICATION 1] IMPLICIT SEQUENCE {
+        id [0] IMPLICIT INTEGER,
+        name [1] EXPLICIT UTF8String,
+        flag [2] IMPLICIT BOOLEAN DEFAULT FALSE
+      }
+      Wrapped ::= [1] Implicit
+      Data ::= [0] IMPLICIT OCTET STRING
+    END
+
+    Defaults DEFINITIONS IMPLICIT TAGS ::= BEGIN
+      Message ::= SEQUENCE {
+        id [0] INTEGER,
+        body [1] CHOICE { text UTF8String, number INTEGER },
+        extra [2] EXPLICIT INTEGER OPTIONAL
+      }
+    END
+
+    Automatic DEFINITIONS AUTOMATIC TAGS ::= BEGIN
+      Point ::= SEQUENCE {
+        x INTEGER,
+        y INTEGER OPTIONAL,
+        label CHOICE { name UTF8String, code INTEGER }
+      }
+      Shape ::= CHOICE { circle INTEGER, square INTEGER }
+      Manual ::= SEQUENCE { a INTEGER, b [5] INTEGER }
+    END
+  `;
+
+  const ber = compileString(schema);
+
+  describe('tag classes', () => {
+    test('should encode tags of every class', () => {
+      expect(bytesToHex(ber.encode('Implicit', 5))).toBe('800105');
+      expect(bytesToHex(ber.encode('Explicit', 5))).toBe('6503020105');
+      expect(bytesToHex(ber.encode('Private', true))).toBe('c101ff');
+      expect(bytesToHex(ber.encode('Large', 5))).toBe('5f6401' + '05');
+
+      for (const [name, value] of [['Implicit', 5], ['Explicit', 5], ['Private', true], ['Large', 5]] as const) {
+        expect(ber.decode(name, ber.encode(name, value))).toBe(value);
+      }
+    });
+
+    test('should retag constructed types implicitly', () => {
+      const value = { id: 7, name: 'ab', flag: true };
+      const encoded = ber.encode('Record', value);
+      expect(bytesToHex(encoded)).toBe('610c' + '800107' + 'a1040c026162' + '8201ff');
+      expect(ber.decode('Record', encoded)).toEqual(value);
+      expect(ber.decode('Record', hexToBytes('6109' + '800107' + 'a1040c026162'))).toEqual({ ...value, flag: false });
+    });
+
+    test('should replace the tag of a tagged type implicitly and wrap it explicitly', () => {
+      expect(bytesToHex(ber.encode('Wrapped', 5))).toBe('a103800105');
+      expect(ber.decode('Wrapped', hexToBytes('a103800105'))).toBe(5);
+    });
+
+    test('should decode constructed encodings of implicitly tagged strings', () => {
+      expect(ber.decode('Data', hexToBytes('a080' + '0401aa' + '0401bb' + '0000'))).toEqual(hexToBytes('aabb'));
+    });
+
+    test('should reject wrong tags', () => {
+      expect(() => ber.decode('Implicit', hexToBytes('810105'))).toThrow(/Expected tag \[0\] for Implicit, got \[1\]/);
+      expect(() => ber.decode('Explicit', hexToBytes('6603020105'))).toThrow(/Expected tag \[APPLICATION 5\] for Explicit, got \[APPLICATION 6\]/);
+      expect(() => ber.decode('Explicit', hexToBytes('650402010500'))).toThrow(/unexpected data after the tagged value/);
+    });
+  });
+
+  describe('tag defaults', () => {
+    test('should tag implicitly in modules with IMPLICIT TAGS, except CHOICE types', () => {
+      const value = { id: 1, body: { number: 2 }, extra: 3 };
+      const encoded = ber.encode('Message', value);
+      expect(bytesToHex(encoded)).toBe('300d' + '800101' + 'a103020102' + 'a203020103');
+      expect(ber.decode('Message', encoded)).toEqual(value);
+    });
+
+    test('should tag members and alternatives automatically', () => {
+      const value = { x: 1, label: { code: 2 } };
+      const encoded = ber.encode('Point', value);
+      expect(bytesToHex(encoded)).toBe('3008' + '800101' + 'a203810102');
+      expect(ber.decode('Point', encoded)).toEqual(value);
+      expect(ber.decode('Point', hexToBytes('300b' + '800101' + '810102' + 'a203800161'))).toEqual({
+        x: 1,
+        y: 2,
+        label: { name: 'a' }
+      });
+
+      expect(bytesToHex(ber.encode('Shape', { square: 3 }))).toBe('810103');
+      expect(ber.decode('Shape', hexToBytes('800103'))).toEqual({ circle: 3 });
+    });
+
+    test('should keep written tags, implicit by default, instead of automatic ones', () => {
+      expect(bytesToHex(ber.encode('Manual', { a: 1, b: 2 }))).toBe('3006' + '020101' + '850102');
+    });
+
+    test('should reject implicit tags on CHOICE types', () => {
+      expect(() =>
+        compileString('M DEFINITIONS ::= BEGIN T ::= [0] IMPLICIT CHOICE { a INTEGER, b BOOLEAN } END')
+      ).toThrow(CompileError);
+    });
+  });
+
+  describe('canonical encodings', () => {
+    test('should follow DER and CER for explicit tags', () => {
+      const der = compileString(schema, { codec: 'der' });
+      const cer = compileString(schema, { codec: 'cer' });
+
+      expect(bytesToHex(der.encode('Explicit', 5))).toBe('6503020105');
+      expect(bytesToHex(cer.encode('Explicit', 5))).toBe('6580020105' + '0000');
+      expect(cer.decode('Explicit', hexToBytes('6580020105' + '0000'))).toBe(5);
+      expect(() => der.decode('Explicit', hexToBytes('6580020105' + '0000'))).toThrow();
+      expect(() => der.decode('Record', hexToBytes('610c' + '800107' + 'a1040c026162' + '820100'))).toThrow(
+        /DER forbids encoding DEFAULT value of member 'flag'/
+      );
+    });
+  });
+
+  describe('EXTERNAL and EMBEDDED PDV', () => {
+    test('should use the tags of their associated types', () => {
+      const spec = compileString(`
+        M DEFINITIONS ::= BEGIN
+          External ::= EXTERNAL
+          Embedded ::= EMBEDDED PDV
+        END
+      `);
+
+      const external = { 'direct-reference': '1.2.3', encoding: { 'octet-aligned': hexToBytes('0102') } };
+      expect(bytesToHex(spec.encode('External', external))).toBe('2808' + '06022a03' + '81020102');
+      expect(spec.decode('External', hexToBytes('2808' + '06022a03' + '81020102'))).toEqual(external);
+
+      const embedded = { identification: { fixed: null }, 'data-value': hexToBytes('01') };
+      expect(bytesToHex(spec.encode('Embedded', embedded))).toBe('2b07' + 'a0028500' + '820101');
+      expect(spec.decode('Embedded', hexToBytes('2b07' + 'a0028500' + '820101'))).toEqual(embedded);
+    });
+  });
+
+  describe('other codecs', () => {
+    test('should order CHOICE alternatives by tag class in PER and send the tag in OER', () => {
+      const choice = `
+        M DEFINITIONS ::= BEGIN
+          Choice ::= CHOICE { priv [PRIVATE 0] INTEGER, app [APPLICATION 3] INTEGER }
+        END
+      `;
+      const per = compileString(choice, { codec: 'per' });
+      const oer = compileString(choice, { codec: 'oer' });
+
+      expect(bytesToHex(per.encode('Choice', { app: 1 }))).toBe('000101');
+      expect(bytesToHex(oer.encode('Choice', { app: 1 }))).toBe('43' + '0101');
+      expect(bytesToHex(oer.encode('Choice', { priv: 1 }))).toBe('c0' + '0101');
+      expect(oer.decode('Choice', hexToBytes('430101'))).toEqual({ app: 1 });
+    });
+
+    test('should ignore tags in text encodings', () => {
+      const jer = compileString(schema, { codec: 'jer' });
+      const value = { x: 1, label: { name: 'a' } };
+      expect(new TextDecoder().decode(jer.encode('Point', value))).toBe('{"x":1,"label":{"name":"a"}}');
+      expect(jer.decode('Point', jer.encode('Point', value))).toEqual(value);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for UTCTime and GeneralizedTime types
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+
+describe('UTCTime and GeneralizedTime', () => {
+  const schema = `
+    Times DEFINITIONS ::= BEGIN
+      Utc ::= UTCTime
+      Generalized ::= GeneralizedTime
+
+      Certificate ::= SEQUENCE {
+        notBefore UTCTime,
+        issued GeneralizedTime DEFAULT "20200101000000Z"
+      }
+    END
+  `;
+
+  const ascii = (text: string) => bytesToHex(new TextEncoder().encode(text));
+  const ber = compileString(schema);
+  const der = compileString(schema, { codec: 'der' });
+  const decodeText = (spec: typeof ber, typeName: string, text: string) =>
+    spec.decode(typeName, hexToBytes((typeName === 'Utc' ? '17' : '18') + text.length.toString(16).padStart(2, '0') + ascii(text)));
+
+  describe('BER', () => {
+    test('should encode Date values in canonical form', () => {
+      const utc = new Date(Date.UTC(2019, 11, 31, 23, 59, 59));
+      expect(bytesToHex(ber.encode('Utc', utc))).toBe('170d' + ascii('191231235959Z'));
+      expect(ber.decode('Utc', ber.encode('Utc', utc))).toEqual(utc);
+
+      const generalized = new Date(Date.UTC(2020, 0, 2, 3, 4, 5, 120));
+      expect(bytesToHex(ber.encode('Generalized', generalized))).toBe('1812' + ascii('20200102030405.12Z'));
+      expect(ber.decode('Generalized', ber.encode('Generalized', generalized))).toEqual(generalized);
+    });
+
+    test('should accept ISO 8601 strings', () => {
+      expect(bytesToHex(ber.encode('Generalized', '2020-01-02T03:04:05+01:00'))).toBe('180f' + ascii('20200102020405Z'));
+    });
+
+    test('should apply the two-digit year rule of UTCTime', () => {
+      expect(decodeText(ber, 'Utc', '491231235959Z')).toEqual(new Date('2049-12-31T23:59:59Z'));
+      expect(decodeText(ber, 'Utc', '500101000000Z')).toEqual(new Date('1950-01-01T00:00:00Z'));
+      expect(() => ber.encode('Utc', new Date('2050-01-01T00:00:00Z'))).toThrow(/year 2050 out of range/);
+    });
+
+    test('should decode UTC offsets, local times and omitted seconds', () => {
+      expect(decodeText(ber, 'Utc', '9912312359Z')).toEqual(new Date('1999-12-31T23:59:00Z'));
+      expect(decodeText(ber, 'Utc', '9912312359+0100')).toEqual(new Date('1999-12-31T22:59:00Z'));
+      expect(decodeText(ber, 'Generalized', '20200102030405-0230')).toEqual(new Date('2020-01-02T05:34:05Z'));
+      expect(decodeText(ber, 'Generalized', '20200102030405+01')).toEqual(new Date('2020-01-02T02:04:05Z'));
+      expect(decodeText(ber, 'Generalized', '20200102030405')).toEqual(new Date(2020, 0, 2, 3, 4, 5));
+    });
+
+    test('should decode fractions of the last time element', () => {
+      expect(decodeText(ber, 'Generalized', '20200102030405,5Z')).toEqual(new Date('2020-01-02T03:04:05.500Z'));
+      expect(decodeText(ber, 'Generalized', '20200102030405.1239Z')).toEqual(new Date('2020-01-02T03:04:05.123Z'));
+      expect(decodeText(ber, 'Generalized', '202001020304.25Z')).toEqual(new Date('2020-01-02T03:04:15Z'));
+      expect(decodeText(ber, 'Generalized', '2020010203.5Z')).toEqual(new Date('2020-01-02T03:30:00Z'));
+    });
+
+    test('should reassemble constructed encodings from OCTET STRING segments', () => {
+      const text = ascii('20200102030405Z');
+      const encoded = hexToBytes('3813' + '0408' + text.slice(0, 16) + '0407' + text.slice(16));
+      expect(ber.decode('Generalized', encoded)).toEqual(new Date('2020-01-02T03:04:05Z'));
+      expect(bytesToHex(ber.encode('Generalized', '2020-01-02T03:04:05Z', { segmentSize: 8 }))).toBe(bytesToHex(encoded));
+    });
+
+    test('should reject invalid values', () => {
+      expect(() => decodeText(ber, 'Generalized', '20201302000000Z')).toThrow(/invalid value/);
+      expect(() => decodeText(ber, 'Generalized', '20190229000000Z')).toThrow(/invalid value/);
+      expect(decodeText(ber, 'Generalized', '20200229000000Z')).toEqual(new Date('2020-02-29T00:00:00Z'));
+      expect(() => decodeText(ber, 'Utc', '191231235959.5Z')).toThrow(/invalid value/);
+      expect(() => ber.encode('Utc', 'not a date')).toThrow(/expected Date or ISO 8601 string/);
+      expect(() => ber.encode('Utc', 1577836800000)).toThrow(/expected Date/);
+    });
+
+    test('should use time DEFAULT values', () => {
+      expect(ber.decode('Certificate', hexToBytes('300f170d' + ascii('191231235959Z')))).toEqual({
+        notBefore: new Date('2019-12-31T23:59:59Z'),
+        issued: new Date('2020-01-01T00:00:00Z')
+      });
+    });
+  });
+
+  describe('DER', () => {
+    test('should require UTC with seconds and minimal fractions', () => {
+      expect(() => decodeText(der, 'Utc', '9912312359Z')).toThrow(/DER requires UTC with seconds/);
+      expect(() => decodeText(der, 'Utc', '991231235959+0100')).toThrow(/DER requires/);
+      expect(() => decodeText(der, 'Generalized', '20200102030405')).toThrow(/DER requires/);
+      expect(() => decodeText(der, 'Generalized', '20200102030405.50Z')).toThrow(/DER requires/);
+      expect(() => decodeText(der, 'Generalized', '20200102030405,5Z')).toThrow(/DER requires/);
+      expect(decodeText(der, 'Generalized', '20200102030405.5Z')).toEqual(new Date('2020-01-02T03:04:05.500Z'));
+    });
+
+    test('should omit DEFAULT time values', () => {
+      const value = { notBefore: new Date('2019-12-31T23:59:59Z'), issued: new Date('2020-01-01T00:00:00Z') };
+      expect(bytesToHex(der.encode('Certificate', value))).toBe('300f170d' + ascii('191231235959Z'));
+    });
+  });
+
+  describe('other encoding rules', () => {
+    const date = new Date('2020-01-02T03:04:05Z');
+
+    test.each([
+      ['per', 'Generalized', '0f' + ascii('20200102030405Z')],
+      ['oer', 'Utc', '0d' + ascii('200102030405Z')],
+      ['xer', 'Generalized', '<Generalized>20200102030405Z</Generalized>'],
+      ['jer', 'Utc', '"200102030405Z"'],
+      ['gser', 'Generalized', '"20200102030405Z"']
+    ] as const)('%s should encode %s', (codec, typeName, expected) => {
+      const spec = compileString(schema, { codec });
+      const encoded = spec.encode(typeName, date);
+      const text = ['xer', 'jer', 'gser'].includes(codec) ? new TextDecoder().decode(encoded) : bytesToHex(encoded);
+
+      expect(text).toBe(expected);
+      expect(spec.decode(typeName, encoded)).toEqual(date);
+    });
+
+    test.each(['uper', 'coer'] as const)('should round trip times with %s', codec => {
+      const spec = compileString(schema, { codec });
+      const value = { notBefore: date, issued: new Date('2021-06-30T12:00:00.25Z') };
+
+      expect(spec.decode('Certificate', spec.encode('Certificate', value))).toEqual(value);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for resolving type references regardless of declaration order
+ */
+
+import { compileString, bytesToHex, CompileError } from '../src/index';
+
+describe('Type resolution', () => {
+  test('should resolve types declared later in the module', () => {
+    const spec = compileString(`
+      Forward DEFINITIONS ::= BEGIN
+        DataResponse ::= SEQUENCE {
+          id INTEGER,
+          data EmbeddedData,
+          items ItemList
+        }
+
+        ItemList ::= SEQUENCE OF Item
+
+        Item ::= CHOICE {
+          number [0] INTEGER,
+          data [1] EmbeddedData
+        }
+
+        EmbeddedData ::= SEQUENCE {
+          payload OCTET STRING
+        }
+      END
+    `);
+
+    const value = {
+      id: 1,
+      data: { payload: new Uint8Array([0xab]) },
+      items: [{ number: 2 }]
+    };
+    const encoded = spec.encode('DataResponse', value);
+    expect(bytesToHex(encoded)).toBe('300f020101' + '30030401ab' + '3005a003020102');
+    expect(spec.decode('DataResponse', encoded)).toEqual(value);
+    expect(spec.getTypeNames()).toEqual(['DataResponse', 'ItemList', 'Item', 'EmbeddedData']);
+  });
+
+  test('should resolve types imported from later modules', () => {
+    const spec = compileString(`
+      First DEFINITIONS ::= BEGIN
+        IMPORTS Header FROM Second;
+
+        Message ::= SEQUENCE {
+          header Header
+        }
+      END
+
+      Second DEFINITIONS ::= BEGIN
+        Header ::= SEQUENCE {
+          version Version
+        }
+
+        Version ::= INTEGER
+      END
+    `);
+
+    const encoded = spec.encode('Message', { header: { version: 3 } });
+    expect(bytesToHex(encoded)).toBe('3005' + '3003020103');
+    expect(spec.getModuleNames()).toEqual(['First', 'Second']);
+  });
+
+  test('should not resolve types of other modules without IMPORTS', () => {
+    expect(() => compileString(`
+      First DEFINITIONS ::= BEGIN
+        Message ::= SEQUENCE { header Header }
+      END
+
+      Second DEFINITIONS ::= BEGIN
+        Header ::= INTEGER
+      END
+    `)).toThrow(/Undefined type reference: Header/);
+  });
+
+  test('should prefer the definition in the same module', () => {
+    const spec = compileString(`
+      First DEFINITIONS ::= BEGIN
+        Value ::= INTEGER
+      END
+
+      Second DEFINITIONS ::= BEGIN
+        Wrapper ::= SEQUENCE {
+          value Value
+        }
+
+        Value ::= BOOLEAN
+      END
+    `);
+
+    expect(bytesToHex(spec.encode('Wrapper', { value: true }))).toBe('30030101ff');
+  });
+
+  test('should reject undefined and circular references', () => {
+    expect(() => compileString(`
+      Broken DEFINITIONS ::= BEGIN
+        Message ::= SEQUENCE { data Missing }
+      END
+    `)).toThrow(/Undefined type reference: Missing/);
+
+    expect(() => compileString(`
+      Broken DEFINITIONS ::= BEGIN
+        A ::= B
+        B ::= A
+      END
+    `)).toThrow(CompileError);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the unaligned PER codec selected with CompileOptions.codec = 'uper'
+ */
+
+import { compileString, hexToBytes, bytesToHex } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('Unaligned PER codec', () => {
+  const schema = `
+    Uper DEFINITIONS ::= BEGIN
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER (0..7) OPTIONAL,
+        name OCTET STRING (SIZE(1..4)),
+        tail INTEGER (0..255) DEFAULT 3
+      }
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b OCTET STRING (SIZE(4))
+      }
+
+      Reordered ::= CHOICE {
+        s OCTET STRING,
+        i INTEGER
+      }
+
+      Word ::= INTEGER (0..65535)
+      Wide ::= INTEGER (0..1000)
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'uper' });
+  const alignedSpec = compileString(schema, { codec: 'per' });
+
+  const roundTrip = (typeName: string, value: any, expectedHex: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(bytesToHex(encoded)).toBe(expectedHex);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  test('should not pad before octet-aligned fields', () => {
+    const value = { flag: false, name: hexToBytes('ff'), tail: 9 };
+    expect(bytesToHex(alignedSpec.encode('Record', value))).toBe('40ff09');
+    roundTrip('Record', value, '47f848');
+    roundTrip('Record', { flag: true, count: 5, name: hexToBytes('aabb'), tail: 3 }, 'b5aabb');
+  });
+
+  test('should use a minimal bit-field for every constrained range', () => {
+    roundTrip('Wide', 1000, 'fa00');
+    roundTrip('Word', 0x1234, '1234');
+  });
+
+  test('should not pad after the CHOICE index', () => {
+    roundTrip('Option', { b: hexToBytes('01020304') }, '8081018200');
+    roundTrip('Reordered', { i: 1 }, '008080');
+  });
+
+  describe('message schemas', () => {
+    const messageSpec = compileString(
+      fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8'),
+      { codec: 'uper' }
+    );
+
+    test('should encode a RequestMessage without alignment', () => {
+      const encoded = messageSpec.encode('RequestMessage', { pingRequest: { messageId: 123 } });
+      expect(bytesToHex(encoded)).toBe('200000000000001ec0');
+      expect(messageSpec.decode('RequestMessage', encoded)).toEqual({ pingRequest: { messageId: 123 } });
+    });
+
+    test('should round-trip ResponseMessage', () => {
+      const responseMessage = {
+        dataResponse: {
+          messageId: 1,
+          status: -1,
+          embeddedData: [
+            { id: 1, data: hexToBytes('01020304') },
+            { id: 2, data: hexToBytes('05060708') }
+          ]
+        }
+      };
+
+      const encoded = messageSpec.encode('ResponseMessage', responseMessage);
+      expect(messageSpec.decode('ResponseMessage', encoded)).toEqual(responseMessage);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for the XER codec selected with CompileOptions.codec = 'xer'
+ */
+
+import { compileString, hexToBytes } from '../src/index';
+import fs from 'fs';
+import path from 'path';
+
+describe('XER codec', () => {
+  const schema = `
+    Xer DEFINITIONS ::= BEGIN
+      Color ::= ENUMERATED { red(0), green(1), blue(2) }
+
+      Record ::= SEQUENCE {
+        flag BOOLEAN,
+        count INTEGER OPTIONAL,
+        name OCTET STRING,
+        color Color DEFAULT red
+      }
+
+      Nothing ::= NULL
+
+      Colors ::= SEQUENCE OF Color
+      Numbers ::= SEQUENCE OF INTEGER
+      Records ::= SEQUENCE OF Record
+
+      Option ::= CHOICE {
+        a INTEGER,
+        b Record
+      }
+    END
+  `;
+
+  const spec = compileString(schema, { codec: 'xer' });
+  const text = (data: Uint8Array) => new TextDecoder().decode(data);
+  const xml = (value: string) => new TextEncoder().encode(value);
+
+  const roundTrip = (typeName: string, value: any, expectedXml: string) => {
+    const encoded = spec.encode(typeName, value);
+    expect(text(encoded)).toBe(expectedXml);
+    expect(spec.decode(typeName, encoded)).toEqual(value);
+  };
+
+  test('should map SEQUENCE members to elements', () => {
+    roundTrip(
+      'Record',
+      { flag: true, count: -5, name: hexToBytes('0a0b'), color: 'blue' },
+      '<Record><flag><true/></flag><count>-5</count><name>0A0B</name><color><blue/></color></Record>'
+    );
+  });
+
+  test('should fill in DEFAULT and leave out OPTIONAL members when absent', () => {
+    const decoded = spec.decode('Record', xml('<Record><flag><false/></flag><name/></Record>'));
+    expect(decoded).toEqual({ flag: false, name: new Uint8Array(0), color: 'red' });
+  });
+
+  test('should encode NULL as an empty element', () => {
+    roundTrip('Nothing', null, '<Nothing/>');
+  });
+
+  test('should encode CHOICE as the chosen alternative element', () => {
+    roundTrip('Option', { a: 1 }, '<Option><a>1</a></Option>');
+  });
+
+  test('should name SEQUENCE OF elements after their type', () => {
+    roundTrip('Numbers', [1, 2], '<Numbers><INTEGER>1</INTEGER><INTEGER>2</INTEGER></Numbers>');
+    roundTrip('Colors', ['red', 'green'], '<Colors><red/><green/></Colors>');
+    roundTrip(
+      'Records',
+      [{ flag: false, name: hexToBytes('ff'), color: 'green' }],
+      '<Records><Record><flag><false/></flag><name>FF</name><color><green/></color></Record></Records>'
+    );
+  });
+
+  test('should accept XML-authored input with whitespace, comments and a declaration', () => {
+    const input = `<?xml version="1.0" encoding="UTF-8"?>
+      <!-- test message -->
+      <Option>
+        <b>
+          <flag><true/></flag>
+          <count> 42 </count>
+          <name>01 02</name>
+        </b>
+      </Option>`;
+
+    expect(spec.decode('Option', xml(input))).toEqual({
+      b: { flag: true, count: 42, name: hexToBytes('0102'), color: 'red' }
+    });
+  });
+
+  test('should keep integers beyond 2^53 exact', () => {
+    const big = 2n ** 64n + 1n;
+    expect(spec.decode('Numbers', spec.encode('Numbers', [big]))).toEqual([big]);
+  });
+
+  test('should reject unknown and malformed elements', () => {
+    expect(() => spec.decode('Option', xml('<Option><c>1</c></Option>'))).toThrow(/unknown choice/);
+    expect(() => spec.decode('Numbers', xml('<Numbers><INTEGER>x</INTEGER></Numbers>'))).toThrow(/invalid value/);
+    expect(() => spec.decode('Numbers', xml('<Numbers><INTEGER>1</Numbers>'))).toThrow(/end tag/);
+  });
+
+  test('should decode message schemas to the same values as BER', () => {
+    const source = fs.readFileSync(path.join(__dirname, 'schemas', 'message-processing.asn'), 'utf8');
+    const xerSpec = compileString(source, { codec: 'xer' });
+    const berSpec = compileString(source);
+
+    const requestMessage = {
+      dataRequest: {
+        messageId: 124,
+        version: 0,
+        category: 1,
+        size: 1000,
+        identifier: hexToBytes('973539beb5008a29ca866b178ce99f2782b5e39a'),
+        checksum: hexToBytes('2c8a0426b8a6cf115894cd81135c08fea8f611dfe365bd543dc9443043fea187')
+      }
+    };
+
+    expect(xerSpec.decode('RequestMessage', xerSpec.encode('RequestMessage', requestMessage))).toEqual(
+      berSpec.decode('RequestMessage', berSpec.encode('RequestMessage', requestMessage))
+    );
+  });
+});